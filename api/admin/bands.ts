@@ -0,0 +1,114 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import * as admin from 'firebase-admin';
+import { authenticateAdmin, writeAdminAuditLog, serializeDoc } from '../../lib/admin';
+import { validateBandPatch } from '../../lib/validation';
+import { normalizeBandName } from '../../lib/bands';
+import 'dotenv/config';
+
+// ---------------------------------------------------------
+// 1. 設定・初期化
+// ---------------------------------------------------------
+const privateKey = process.env.FIREBASE_PRIVATE_KEY
+  ? process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n')
+  : undefined;
+
+if (!admin.apps.length) {
+  if (!privateKey) throw new Error('FIREBASE_PRIVATE_KEY is missing');
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: privateKey,
+    }),
+  });
+}
+const db = admin.firestore();
+
+// ---------------------------------------------------------
+// 2. メイン処理
+// ---------------------------------------------------------
+// GET   /api/admin/bands?userId=...  バンド一覧（userId を指定するとそのユーザーのバンドのみ）
+// GET   /api/admin/bands?id=...      1件取得
+// PATCH /api/admin/bands?id=...      バンド名の表記修正・メンバーの変更
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // セキュリティチェック
+  const actor = authenticateAdmin(req);
+  if (!actor) {
+    return res.status(401).json({ status: 'error', message: 'Unauthorized' });
+  }
+
+  const { id, userId } = req.query;
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        // 1件取得
+        if (typeof id === 'string') {
+          const snap = await db.collection('bands').doc(id).get();
+          if (!snap.exists) {
+            return res.status(404).json({ status: 'error', message: `Band not found: ${id}` });
+          }
+          return res.status(200).json({ status: 'success', band: { id: snap.id, ...serializeDoc(snap.data()!) } });
+        }
+
+        const query = typeof userId === 'string'
+          ? db.collection('bands').where('memberIds', 'array-contains', userId)
+          : db.collection('bands');
+        const snapshot = await query.get();
+
+        const bands = snapshot.docs
+          .map((doc) => ({ id: doc.id, ...serializeDoc(doc.data()) }))
+          .sort((a: any, b: any) => a.name.localeCompare(b.name));
+
+        return res.status(200).json({ status: 'success', count: bands.length, bands });
+      }
+
+      case 'PATCH': {
+        if (typeof id !== 'string' || !id) {
+          return res.status(400).json({ status: 'error', message: 'id parameter is required.' });
+        }
+
+        const validation = validateBandPatch(req.body);
+        if (!validation.ok) {
+          return res.status(400).json({ status: 'error', errors: validation.errors });
+        }
+        const updates = validation.value;
+
+        const ref = db.collection('bands').doc(id);
+        const error = await db.runTransaction(async (tx) => {
+          const snap = await tx.get(ref);
+          if (!snap.exists) return { code: 404, message: `Band not found: ${id}` };
+
+          const before = snap.data()!;
+          // ドキュメントIDは正規化した名前から決まるため、表記の修正のみ許可する
+          if (updates.name !== undefined && normalizeBandName(updates.name) !== before.nameKey) {
+            return { code: 400, message: 'name can only change letter case, width or spacing of the current name.' };
+          }
+
+          tx.update(ref, { ...updates });
+          writeAdminAuditLog(db, tx, {
+            actor,
+            action: 'band.update',
+            target: `bands/${id}`,
+            before,
+            after: { ...before, ...updates },
+          });
+          return null;
+        });
+
+        if (error) {
+          return res.status(error.code).json({ status: 'error', message: error.message });
+        }
+        return res.status(200).json({ status: 'success', id });
+      }
+
+      default:
+        res.setHeader('Allow', 'GET, PATCH');
+        return res.status(405).json({ status: 'error', message: 'Method not allowed' });
+    }
+
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({ status: 'error', error: error.message });
+  }
+}
@@ -0,0 +1,215 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import * as admin from 'firebase-admin';
+import * as line from '@line/bot-sdk';
+import { authenticateAdmin, writeAdminAuditLog, serializeDoc } from '../../lib/admin';
+import { isDateString } from '../../lib/validation';
+import { parseResultKey, reservationRoomId } from '../../lib/rooms';
+import { recordReservationEvent } from '../../lib/reservation-events';
+import { drawnOrderOf } from '../../lib/lottery-draw';
+import { slotStatuses } from '../../lib/update-reservation-status';
+import 'dotenv/config';
+
+// ---------------------------------------------------------
+// 1. 設定・初期化
+// ---------------------------------------------------------
+const privateKey = process.env.FIREBASE_PRIVATE_KEY
+  ? process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n')
+  : undefined;
+
+if (!admin.apps.length) {
+  if (!privateKey) throw new Error('FIREBASE_PRIVATE_KEY is missing');
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: privateKey,
+    }),
+  });
+}
+const db = admin.firestore();
+
+const client = new line.Client({
+  channelAccessToken: process.env.LINE_CHANNEL_ACCESS_TOKEN!,
+});
+
+// 2つの配列が並び順を無視して同じ要素を持つか
+function isPermutation(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  const sortedA = [...a].sort();
+  const sortedB = [...b].sort();
+  return sortedA.every((value, index) => value === sortedB[index]);
+}
+
+// 順位の変更で確定・キャンセル待ちが変わったことを知らせるメッセージ
+function statusChangeMessage(data: admin.firestore.DocumentData): string {
+  const [datePart, timePart] = data.date.split('T');
+  const displayDate = datePart.replace(/-/g, '/').slice(5);
+  const slot = `バンド名: ${data.bandName || '(バンド名なし)'}\n日時: ${displayDate} ${timePart}\n順位: ${data.lotteryRank}位`;
+  return data.status === 'confirmed'
+    ? `🎉 抽選結果の訂正により、確定になりました！\n\n${slot}`
+    : `⚠️ 抽選結果の訂正により、キャンセル待ちになりました。\n\n${slot}`;
+}
+
+// ---------------------------------------------------------
+// 2. メイン処理
+// ---------------------------------------------------------
+// GET /api/admin/lottery-results?date=YYYY-MM-DD  抽選結果の取得
+// PUT /api/admin/lottery-results?date=YYYY-MM-DD  枠の順位を手動で変更
+//     body: { "slotKey": "10:00-12:00", "order": ["バンドB", "バンドA"], "reason": "..." }
+//     反映済みの予約は新しい順位と定員で確定・キャンセル待ちを決め直し、変わった登録者にLINEで知らせる
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // セキュリティチェック
+  const actor = authenticateAdmin(req);
+  if (!actor) {
+    return res.status(401).json({ status: 'error', message: 'Unauthorized' });
+  }
+
+  const { date } = req.query;
+  if (!isDateString(date)) {
+    return res.status(400).json({ status: 'error', message: 'date parameter is required. Use format: YYYY-MM-DD' });
+  }
+
+  try {
+    const resultRef = db.collection('lottery_results').doc(date);
+
+    switch (req.method) {
+      case 'GET': {
+        const snap = await resultRef.get();
+        if (!snap.exists) {
+          return res.status(404).json({ status: 'error', message: `No lottery results found for ${date}.` });
+        }
+        return res.status(200).json({ status: 'success', date, lotteryResult: serializeDoc(snap.data()!) });
+      }
+
+      case 'PUT': {
+        const { slotKey, order, reason } = req.body || {};
+        if (typeof slotKey !== 'string' || !slotKey) {
+          return res.status(400).json({ status: 'error', message: 'slotKey is required.' });
+        }
+        if (!Array.isArray(order) || order.some((name) => typeof name !== 'string')) {
+          return res.status(400).json({ status: 'error', message: 'order must be an array of band names.' });
+        }
+        if (reason !== undefined && typeof reason !== 'string') {
+          return res.status(400).json({ status: 'error', message: 'reason must be a string.' });
+        }
+
+        const reservationsQuery = db.collection('reservations').where('lotteryDate', '==', date);
+
+        const result = await db.runTransaction(async (tx) => {
+          const changed: admin.firestore.DocumentData[] = []; // 確定・キャンセル待ちが変わった予約
+          const snap = await tx.get(resultRef);
+          if (!snap.exists) {
+            return { code: 404, message: `No lottery results found for ${date}.`, changed };
+          }
+
+          const data = snap.data()!;
+          const slotData = data.results?.[slotKey];
+          if (!slotData) {
+            return { code: 404, message: `Slot not found: ${slotKey}`, changed };
+          }
+
+          // 順位の入れ替えのみ許可（バンドの追加・削除は不可）
+          const currentOrder: string[] = slotData.order || [];
+          if (!isPermutation(currentOrder, order)) {
+            return { code: 400, message: 'order must contain exactly the same bands as the current order.', changed };
+          }
+
+          // 同じ枠の予約の順位も更新する（辞退した予約は順位表にないため除く）
+          const { roomId, timeSlot } = parseResultKey(slotKey, slotData);
+          const reservationsSnap = await tx.get(reservationsQuery);
+          const slotDocs = reservationsSnap.docs
+            .filter((doc) => {
+              const r = doc.data();
+              return r.date === `${date}T${timeSlot}` && reservationRoomId(r) === roomId && r.status !== 'released';
+            })
+            .sort((a, b) => (a.data().lotteryRank ?? 999) - (b.data().lotteryRank ?? 999));
+
+          // 同名のバンドがいる場合は元の順位が上のものから順に割り当てる
+          const remaining = [...slotDocs];
+          const rankedDocs: { doc: admin.firestore.QueryDocumentSnapshot; index: number }[] = [];
+          order.forEach((bandName: string, index: number) => {
+            const matchIndex = remaining.findIndex((doc) => (doc.data().bandName || 'バンド名なし') === bandName);
+            if (matchIndex === -1) return;
+            rankedDocs.push({ doc: remaining.splice(matchIndex, 1)[0], index });
+          });
+
+          // 新しい順位と定員で確定・キャンセル待ちを決め直す（結果の反映前の予約は notify で反映する）
+          const statuses = slotStatuses(rankedDocs.map(({ doc }) => doc.id), slotData);
+          rankedDocs.forEach(({ doc, index }) => {
+            const updates: admin.firestore.DocumentData = { lotteryRank: index + 1 };
+            if (doc.data().order !== undefined) {
+              updates.order = index;
+            }
+            const { status } = doc.data();
+            if ((status === 'confirmed' || status === 'waitlisted') && status !== statuses.get(doc.id)) {
+              updates.status = statuses.get(doc.id);
+              changed.push({ ...doc.data(), ...updates });
+            }
+            tx.update(doc.ref, updates);
+            recordReservationEvent(db, tx, {
+              reservationId: doc.id,
+              action: 'lottery_override',
+              actor: { type: 'admin', id: actor },
+              before: doc.data(),
+              after: { ...doc.data(), ...updates },
+            });
+          });
+
+          const manualOverride = {
+            by: actor,
+            at: new Date(),
+            reason: reason || null,
+            previousOrder: currentOrder,
+            // 抽選で決まった元の順位（lottery-verify はこちらと照合する）
+            drawnOrder: drawnOrderOf(slotData),
+          };
+          // slotKey には "." 以外の記号が含まれるため FieldPath で指定する
+          tx.update(
+            resultRef,
+            new admin.firestore.FieldPath('results', slotKey, 'order'), order,
+            new admin.firestore.FieldPath('results', slotKey, 'manualOverride'), manualOverride,
+            'updatedAt', new Date()
+          );
+
+          writeAdminAuditLog(db, tx, {
+            actor,
+            action: 'lottery_results.override',
+            target: `lottery_results/${date}`,
+            before: { slotKey, order: currentOrder },
+            after: { slotKey, order, reason: reason || null },
+          });
+
+          return { code: 200, message: 'Lottery order updated.', changed };
+        });
+
+        if (result.code !== 200) {
+          return res.status(result.code).json({ status: 'error', message: result.message });
+        }
+
+        // 確定・キャンセル待ちが変わった登録者に知らせる（通知の失敗で変更の結果を妨げない）
+        for (const data of result.changed) {
+          await client.pushMessage(data.userId, {
+            type: 'text',
+            text: statusChangeMessage(data),
+          }).catch((err) => console.error(err));
+        }
+        return res.status(200).json({
+          status: 'success',
+          date,
+          slotKey,
+          order,
+          statusChanges: result.changed.length,
+          message: result.message,
+        });
+      }
+
+      default:
+        res.setHeader('Allow', 'GET, PUT');
+        return res.status(405).json({ status: 'error', message: 'Method not allowed' });
+    }
+
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({ status: 'error', error: error.message });
+  }
+}
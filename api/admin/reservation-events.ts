@@ -0,0 +1,94 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import * as admin from 'firebase-admin';
+import { authenticateAdmin, serializeDoc } from '../../lib/admin';
+import { isDateString } from '../../lib/validation';
+import 'dotenv/config';
+
+// ---------------------------------------------------------
+// 1. 設定・初期化
+// ---------------------------------------------------------
+const privateKey = process.env.FIREBASE_PRIVATE_KEY
+  ? process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n')
+  : undefined;
+
+if (!admin.apps.length) {
+  if (!privateKey) throw new Error('FIREBASE_PRIVATE_KEY is missing');
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: privateKey,
+    }),
+  });
+}
+const db = admin.firestore();
+
+// 1回に返す件数の上限
+const MAX_LIMIT = 500;
+const DEFAULT_LIMIT = 100;
+
+// ---------------------------------------------------------
+// 2. メイン処理
+// ---------------------------------------------------------
+// GET /api/admin/reservation-events?reservationId=... | userId=... | date=YYYY-MM-DD
+// 予約の変更履歴を新しい順に返す（いずれか1つの条件が必須）
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // セキュリティチェック
+  const actor = authenticateAdmin(req);
+  if (!actor) {
+    return res.status(401).json({ status: 'error', message: 'Unauthorized' });
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ status: 'error', message: 'Method not allowed' });
+  }
+
+  const { reservationId, userId, date, action, limit } = req.query;
+
+  const parsedLimit = typeof limit === 'string' ? parseInt(limit, 10) : DEFAULT_LIMIT;
+  if (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > MAX_LIMIT) {
+    return res.status(400).json({ status: 'error', message: `limit must be between 1 and ${MAX_LIMIT}.` });
+  }
+
+  try {
+    // インデックスなしでも動くように条件は1つだけ使い、並べ替えはクライアント側で行う
+    let query: admin.firestore.Query;
+    if (typeof reservationId === 'string' && reservationId) {
+      query = db.collection('reservation_events').where('reservationId', '==', reservationId);
+    } else if (typeof userId === 'string' && userId) {
+      query = db.collection('reservation_events').where('userId', '==', userId);
+    } else if (isDateString(date)) {
+      query = db.collection('reservation_events')
+        .where('reservationDate', '>=', `${date}T00:00`)
+        .where('reservationDate', '<=', `${date}T23:59`);
+    } else {
+      return res.status(400).json({
+        status: 'error',
+        message: 'One of reservationId, userId or date (YYYY-MM-DD) is required.',
+      });
+    }
+
+    const snapshot = await query.get();
+
+    const events = snapshot.docs
+      .filter((doc) => typeof action !== 'string' || doc.data().action === action)
+      .sort((a, b) => b.data().at.toMillis() - a.data().at.toMillis())
+      .slice(0, parsedLimit)
+      .map((doc) => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          ...serializeDoc(data),
+          before: data.before ? serializeDoc(data.before) : null,
+          after: data.after ? serializeDoc(data.after) : null,
+        };
+      });
+
+    return res.status(200).json({ status: 'success', count: events.length, events });
+
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({ status: 'error', error: error.message });
+  }
+}
@@ -0,0 +1,228 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import * as admin from 'firebase-admin';
+import * as line from '@line/bot-sdk';
+import { authenticateAdmin, writeAdminAuditLog, serializeDoc } from '../../lib/admin';
+import { isDateString, validateReservationInput, RESERVATION_STATUSES, ReservationInput } from '../../lib/validation';
+import { recordReservationEvent } from '../../lib/reservation-events';
+import { fillReleasedSlot } from '../../lib/release';
+import { removeFromLotteryOrder } from '../../lib/lottery-order';
+import { hasSlotStarted } from '../../lib/schedule';
+import { bandFromDoc } from '../../lib/bands';
+import 'dotenv/config';
+
+// ---------------------------------------------------------
+// 1. 設定・初期化
+// ---------------------------------------------------------
+const privateKey = process.env.FIREBASE_PRIVATE_KEY
+  ? process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n')
+  : undefined;
+
+if (!admin.apps.length) {
+  if (!privateKey) throw new Error('FIREBASE_PRIVATE_KEY is missing');
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: privateKey,
+    }),
+  });
+}
+const db = admin.firestore();
+
+const client = new line.Client({
+  channelAccessToken: process.env.LINE_CHANNEL_ACCESS_TOKEN!,
+});
+
+/**
+ * bandId が指定されていれば、バンドの存在を確認してバンド名をバンドの正式名称にする
+ * @returns 入力エラーのメッセージ（問題なければnull）
+ */
+async function applyBand(input: ReservationInput): Promise<string | null> {
+  if (input.bandId === undefined) return null;
+  const bandSnap = await db.collection('bands').doc(input.bandId).get();
+  if (!bandSnap.exists) return `Band not found: ${input.bandId}`;
+  input.bandName = bandFromDoc(bandSnap).name;
+  return null;
+}
+
+// ---------------------------------------------------------
+// 2. メイン処理
+// ---------------------------------------------------------
+// GET    /api/admin/reservations?date=YYYY-MM-DD&status=&userId=  一覧
+// GET    /api/admin/reservations?id=                             1件取得
+// POST   /api/admin/reservations                                 作成
+// PATCH  /api/admin/reservations?id=                             更新
+// DELETE /api/admin/reservations?id=                             削除
+//   確定した予約の削除・status の変更（released のみ）は辞退と同じく、抽選結果の順位表から外してキャンセル待ちを繰り上げる
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // セキュリティチェック
+  const actor = authenticateAdmin(req);
+  if (!actor) {
+    return res.status(401).json({ status: 'error', message: 'Unauthorized' });
+  }
+
+  const { id, date, status, userId } = req.query;
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        // 1件取得
+        if (typeof id === 'string') {
+          const snap = await db.collection('reservations').doc(id).get();
+          if (!snap.exists) {
+            return res.status(404).json({ status: 'error', message: `Reservation not found: ${id}` });
+          }
+          return res.status(200).json({ status: 'success', reservation: { id: snap.id, ...serializeDoc(snap.data()!) } });
+        }
+
+        // 一覧（日付は必須にして全件取得を避ける）
+        if (!isDateString(date)) {
+          return res.status(400).json({ status: 'error', message: 'date parameter is required. Use format: YYYY-MM-DD' });
+        }
+        if (status !== undefined && (typeof status !== 'string' || !RESERVATION_STATUSES.includes(status))) {
+          return res.status(400).json({ status: 'error', message: `status must be one of: ${RESERVATION_STATUSES.join(', ')}` });
+        }
+
+        const snapshot = await db.collection('reservations')
+          .where('date', '>=', `${date}T00:00`)
+          .where('date', '<=', `${date}T23:59`)
+          .get();
+
+        const reservations = snapshot.docs
+          .map((doc) => ({ id: doc.id, ...serializeDoc(doc.data()) }))
+          .filter((r: any) => (status === undefined || r.status === status)
+            && (typeof userId !== 'string' || r.userId === userId))
+          .sort((a: any, b: any) => a.date.localeCompare(b.date));
+
+        return res.status(200).json({ status: 'success', count: reservations.length, reservations });
+      }
+
+      case 'POST': {
+        const validation = validateReservationInput(req.body, false);
+        if (!validation.ok) {
+          return res.status(400).json({ status: 'error', errors: validation.errors });
+        }
+        const bandError = await applyBand(validation.value);
+        if (bandError) {
+          return res.status(400).json({ status: 'error', errors: [bandError] });
+        }
+
+        const ref = db.collection('reservations').doc();
+        const after = {
+          ...validation.value,
+          status: validation.value.status || 'pending',
+          createdAt: new Date(),
+          createdBy: `admin:${actor}`,
+        };
+
+        const batch = db.batch();
+        batch.create(ref, after);
+        recordReservationEvent(db, batch, {
+          reservationId: ref.id,
+          action: 'create',
+          actor: { type: 'admin', id: actor },
+          before: null,
+          after,
+        });
+        writeAdminAuditLog(db, batch, {
+          actor,
+          action: 'reservation.create',
+          target: `reservations/${ref.id}`,
+          before: null,
+          after,
+        });
+        await batch.commit();
+
+        return res.status(201).json({ status: 'success', id: ref.id });
+      }
+
+      case 'PATCH':
+      case 'DELETE': {
+        if (typeof id !== 'string' || !id) {
+          return res.status(400).json({ status: 'error', message: 'id parameter is required.' });
+        }
+
+        let updates: admin.firestore.DocumentData | null = null;
+        if (req.method === 'PATCH') {
+          const validation = validateReservationInput(req.body, true);
+          if (!validation.ok) {
+            return res.status(400).json({ status: 'error', errors: validation.errors });
+          }
+          const bandError = await applyBand(validation.value);
+          if (bandError) {
+            return res.status(400).json({ status: 'error', errors: [bandError] });
+          }
+          updates = validation.value;
+        }
+
+        const ref = db.collection('reservations').doc(id);
+        const releasedBy = `admin:${actor}`;
+        const result = await db.runTransaction(async (tx) => {
+          const snap = await tx.get(ref);
+          if (!snap.exists) {
+            return { code: 404, message: `Reservation not found: ${id}` };
+          }
+
+          // 確定した予約を外すと枠が空く（利用開始時刻を過ぎた枠は繰り上げない）
+          const before = snap.data()!;
+          const [datePart, timeSlot] = (before.date || '').split('T');
+          const leavesSlot = before.status === 'confirmed'
+            && (!updates || (updates.status !== undefined && updates.status !== 'confirmed'));
+          if (leavesSlot && updates && updates.status !== 'released') {
+            return { code: 400, message: 'A confirmed reservation can only be changed to released (or deleted).' };
+          }
+          const releases = leavesSlot && !hasSlotStarted(datePart, timeSlot);
+          // キャンセル待ちの予約の削除も、順位表からバンドを外す（枠は空かないため繰り上げはしない）
+          const leavesOrder = releases || (!updates && before.status === 'waitlisted');
+
+          // 1. 読み取り（トランザクションでは書き込みより前にすべて読む）
+          const resultSnap = leavesOrder ? await tx.get(db.collection('lottery_results').doc(datePart)) : null;
+
+          // 2. 書き込み
+          const changes = updates && updates.status === 'released' && leavesSlot
+            ? { ...updates, releasedAt: new Date(), releasedBy }
+            : updates;
+          if (changes) {
+            tx.update(ref, changes);
+          } else {
+            tx.delete(ref);
+          }
+          if (resultSnap) {
+            removeFromLotteryOrder(tx, resultSnap, before, releasedBy);
+          }
+          recordReservationEvent(db, tx, {
+            reservationId: id,
+            action: changes ? 'update' : 'delete',
+            actor: { type: 'admin', id: actor },
+            before,
+            after: changes ? { ...before, ...changes } : null,
+          });
+          writeAdminAuditLog(db, tx, {
+            actor,
+            action: changes ? 'reservation.update' : 'reservation.delete',
+            target: `reservations/${id}`,
+            before,
+            after: changes ? { ...before, ...changes } : null,
+          });
+          return { code: 200, message: '', released: releases ? before : null };
+        });
+
+        if (result.code !== 200) {
+          return res.status(result.code).json({ status: 'error', message: result.message });
+        }
+
+        // 空いた枠をキャンセル待ちの最上位に繰り上げて知らせる
+        const promoted = result.released ? await fillReleasedSlot(db, client, result.released) : null;
+        return res.status(200).json({ status: 'success', id, promoted: promoted?.docId ?? null });
+      }
+
+      default:
+        res.setHeader('Allow', 'GET, POST, PATCH, DELETE');
+        return res.status(405).json({ status: 'error', message: 'Method not allowed' });
+    }
+
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({ status: 'error', error: error.message });
+  }
+}
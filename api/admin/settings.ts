@@ -0,0 +1,106 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import * as admin from 'firebase-admin';
+import * as line from '@line/bot-sdk';
+import { authenticateAdmin } from '../../lib/admin';
+import { validateSettingsPatch } from '../../lib/validation';
+import { normalizeSettings, updateReservationSettings } from '../../lib/settings';
+import { upcomingClosedDates, cancelPendingReservationsOnClosedDate, closureCancelMessage } from '../../lib/closures';
+import 'dotenv/config';
+
+// ---------------------------------------------------------
+// 1. 設定・初期化
+// ---------------------------------------------------------
+const privateKey = process.env.FIREBASE_PRIVATE_KEY
+  ? process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n')
+  : undefined;
+
+if (!admin.apps.length) {
+  if (!privateKey) throw new Error('FIREBASE_PRIVATE_KEY is missing');
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: privateKey,
+    }),
+  });
+}
+const db = admin.firestore();
+
+const client = new line.Client({
+  channelAccessToken: process.env.LINE_CHANNEL_ACCESS_TOKEN!,
+});
+
+// ---------------------------------------------------------
+// 2. メイン処理
+// ---------------------------------------------------------
+// GET   /api/admin/settings  現在の設定（未設定項目はデフォルト値で補完）
+// PATCH /api/admin/settings  指定した項目のみ更新
+//   今日以降の休室日（closedDates）に抽選待ちの予約が残っていれば取り消して登録者にLINEで知らせる
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // セキュリティチェック
+  const actor = authenticateAdmin(req);
+  if (!actor) {
+    return res.status(401).json({ status: 'error', message: 'Unauthorized' });
+  }
+
+  const settingsRef = db.collection('settings').doc('reservation');
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const snap = await settingsRef.get();
+        return res.status(200).json({
+          status: 'success',
+          settings: normalizeSettings(snap.exists ? snap.data() : undefined),
+          raw: snap.exists ? snap.data() : null,
+        });
+      }
+
+      case 'PATCH': {
+        // version は更新のたびに1増える（If-Match ヘッダーで version を指定すると、違う場合は更新しない）
+        const ifMatch = req.headers['if-match'];
+        const expectedVersion = typeof ifMatch === 'string' && /^\d+$/.test(ifMatch) ? Number(ifMatch) : undefined;
+
+        const validation = validateSettingsPatch(req.body);
+        if (!validation.ok) {
+          return res.status(400).json({ status: 'error', errors: validation.errors });
+        }
+
+        const result = await updateReservationSettings(db, validation.value, { actor, expectedVersion });
+        if (!result.ok) {
+          return result.reason === 'invalid'
+            ? res.status(400).json({ status: 'error', errors: result.errors })
+            : res.status(409).json({ status: 'error', message: 'Settings were changed by someone else.', version: result.settings.version });
+        }
+
+        // 休室日に残っている抽選待ちの予約を取り消し、登録者ごとにまとめて知らせる
+        // 新しく追加した日に限らないため、前回の取り消しが途中で失敗していても残りを取り消せる
+        const cancelled: { [date: string]: string[] } = {};
+        for (const closed of upcomingClosedDates(result.settings)) {
+          const reservations = await cancelPendingReservationsOnClosedDate(db, closed, { type: 'admin', id: actor });
+          if (reservations.length === 0) continue;
+          cancelled[closed.date] = reservations.map((r) => r.id);
+
+          const byUser = new Map<string, admin.firestore.DocumentData[]>();
+          reservations.forEach(({ data }) => byUser.set(data.userId, [...(byUser.get(data.userId) || []), data]));
+          for (const [userId, userReservations] of byUser) {
+            await client.pushMessage(userId, {
+              type: 'text',
+              text: closureCancelMessage(closed, userReservations),
+            }).catch((err) => console.error(err)); // 通知の失敗で取り消しの結果を妨げない
+          }
+        }
+
+        return res.status(200).json({ status: 'success', updated: result.updated, version: result.settings.version, cancelled });
+      }
+
+      default:
+        res.setHeader('Allow', 'GET, PATCH');
+        return res.status(405).json({ status: 'error', message: 'Method not allowed' });
+    }
+
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({ status: 'error', error: error.message });
+  }
+}
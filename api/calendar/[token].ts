@@ -0,0 +1,105 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import * as admin from 'firebase-admin';
+import { loadReservationSettings } from '../../lib/settings';
+import { loadRooms, reservationRoomId } from '../../lib/rooms';
+import { loadUserBands } from '../../lib/bands';
+import { buildCalendar, findCalendarFeedUser, isGlobalCalendarToken, CalendarEvent } from '../../lib/calendar';
+import 'dotenv/config';
+
+// ---------------------------------------------------------
+// 1. 設定・初期化
+// ---------------------------------------------------------
+const privateKey = process.env.FIREBASE_PRIVATE_KEY
+  ? process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n')
+  : undefined;
+
+if (!admin.apps.length) {
+  if (!privateKey) throw new Error('FIREBASE_PRIVATE_KEY is missing');
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: privateKey,
+    }),
+  });
+}
+const db = admin.firestore();
+
+/**
+ * ユーザーの予約（自分の登録と、自分のバンドの登録）
+ */
+async function loadUserReservations(userId: string): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const snapshot = await db.collection('reservations')
+    .where('userId', '==', userId)
+    .get();
+
+  // 自分のバンドの登録（他のメンバーが登録したもの）も含める（in クエリは30件まで）
+  const bandIds = (await loadUserBands(db, userId)).map((band) => band.id);
+  const docsById = new Map(snapshot.docs.map((doc) => [doc.id, doc]));
+  for (let i = 0; i < bandIds.length; i += 30) {
+    const bandSnapshot = await db.collection('reservations')
+      .where('bandId', 'in', bandIds.slice(i, i + 30))
+      .get();
+    bandSnapshot.docs.forEach((doc) => docsById.set(doc.id, doc));
+  }
+  return Array.from(docsById.values());
+}
+
+// ---------------------------------------------------------
+// 2. メイン処理
+// ---------------------------------------------------------
+// GET /api/calendar/{token}.ics
+// token がユーザーのフィードのトークンなら、そのユーザーと所属バンドの確定した予約を、
+// CALENDAR_GLOBAL_TOKEN なら全バンドの確定した予約を iCalendar で返す
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return res.status(405).json({ status: 'error', message: 'Method not allowed' });
+  }
+
+  const token = typeof req.query.token === 'string' ? req.query.token.replace(/\.ics$/, '') : '';
+  if (!token) {
+    return res.status(404).json({ status: 'error', message: 'Not found' });
+  }
+
+  try {
+    const isGlobal = isGlobalCalendarToken(token);
+    const userId = isGlobal ? null : await findCalendarFeedUser(db, token);
+    if (!isGlobal && !userId) {
+      return res.status(404).json({ status: 'error', message: 'Not found' });
+    }
+
+    const docs = userId
+      ? await loadUserReservations(userId)
+      : (await db.collection('reservations').where('status', '==', 'confirmed').get()).docs;
+
+    const settings = await loadReservationSettings(db);
+    const rooms = await loadRooms(db, settings.timeSlots);
+    const roomNames = new Map(rooms.map((room) => [room.id, room.name]));
+
+    const events: CalendarEvent[] = docs
+      .filter((doc) => doc.data().status === 'confirmed' && typeof doc.data().date === 'string')
+      .sort((a, b) => a.data().date.localeCompare(b.data().date))
+      .map((doc) => {
+        const data = doc.data();
+        const roomId = reservationRoomId(data);
+        return {
+          uid: doc.id,
+          date: data.date,
+          summary: `🎸 ${data.bandName || '(バンド名なし)'}`,
+          location: roomNames.get(roomId) || roomId,
+          description: data.firstCome ? '確定（空き枠予約）' : '確定',
+        };
+      });
+
+    const calendar = buildCalendar(isGlobal ? '部室予約（全バンド）' : '部室予約', events);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="reservations.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    return res.status(200).send(calendar);
+
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({ status: 'error', error: error.message });
+  }
+}
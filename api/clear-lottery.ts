@@ -1,5 +1,6 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import * as admin from 'firebase-admin';
+import { recordReservationEvent } from '../lib/reservation-events';
 import 'dotenv/config';
 
 // ---------------------------------------------------------
@@ -58,35 +59,69 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       .where('lotteryDate', '==', date)
       .get();
 
-    const batch = db.batch();
+    // Firestoreのバッチは最大500件なので、予約1件分の書き込み（予約・変更履歴）が収まらなくなったら次のバッチにする
+    // 抽選結果（lottery_results）の削除は最後のバッチに入れ、途中で失敗しても再実行で残りをクリアできるようにする
+    const batches: admin.firestore.WriteBatch[] = [db.batch()];
+    let operationCount = 0;
+    const batchFor = (writes: number) => {
+      if (operationCount + writes > 500) {
+        batches.push(db.batch());
+        operationCount = 0;
+      }
+      operationCount += writes;
+      return batches[batches.length - 1];
+    };
     let clearedCount = 0;
 
     snapshot.forEach((doc) => {
       const ref = db.collection('reservations').doc(doc.id);
+      const batch = batchFor(2);
       // 抽選関連のフィールドを削除（FieldValue.delete()を使用）
       batch.update(ref, {
         lotteryRank: admin.firestore.FieldValue.delete(),
         lotteryTotal: admin.firestore.FieldValue.delete(),
         lotteryDate: admin.firestore.FieldValue.delete(),
       });
+      const { lotteryRank, lotteryTotal, lotteryDate, ...after } = doc.data();
+      recordReservationEvent(db, batch, {
+        reservationId: doc.id,
+        action: 'lottery_clear',
+        actor: { type: 'system', id: 'clear-lottery' },
+        before: doc.data(),
+        after,
+      });
       clearedCount++;
     });
 
     // -----------------------------------------------------
-    // 2. lottery_results コレクションから該当ドキュメントを削除
+    // 2. 公平性の重み計算用の抽選履歴を削除（lottery_history）
+    // -----------------------------------------------------
+    const historySnapshot = await db.collection('lottery_history')
+      .where('date', '==', date)
+      .get();
+
+    historySnapshot.forEach((doc) => {
+      batchFor(1).delete(doc.ref);
+    });
+    const historyCleared = historySnapshot.size;
+
+    // -----------------------------------------------------
+    // 3. lottery_results コレクションから該当ドキュメントを削除
     // -----------------------------------------------------
     const resultRef = db.collection('lottery_results').doc(date);
     const resultDoc = await resultRef.get();
     
     let resultDeleted = false;
     if (resultDoc.exists) {
-      batch.delete(resultRef);
+      batchFor(1).delete(resultRef);
       resultDeleted = true;
     }
 
-    // 3. バッチ実行
-    if (clearedCount > 0 || resultDeleted) {
-      await batch.commit();
+    // 4. バッチ実行（抽選結果の削除を含む最後のバッチが最後になるよう順にコミット）
+    if (clearedCount > 0 || resultDeleted || historyCleared > 0) {
+      for (const batch of batches) {
+        await batch.commit();
+      }
     }
 
     return res.status(200).json({
@@ -94,6 +129,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       date: date,
       reservationsCleared: clearedCount,
       lotteryResultDeleted: resultDeleted,
+      lotteryHistoryCleared: historyCleared,
       message: `Lottery results cleared for ${date}.`,
     });
 
@@ -1,5 +1,10 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import * as admin from 'firebase-admin';
+import { loadReservationSettings } from '../lib/settings';
+import { RESERVATION_EVENTS_RETENTION_DAYS } from '../lib/reservation-events';
+import { SLOT_OFFERS_RETENTION_DAYS } from '../lib/slot-offers';
+import { archiveAndDelete } from '../lib/archive';
+import { todayJST, addDays } from '../lib/schedule';
 import 'dotenv/config';
 
 // ---------------------------------------------------------
@@ -26,7 +31,7 @@ const db = admin.firestore();
 // ---------------------------------------------------------
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // セキュリティチェック
-  const { key, days } = req.query;
+  const { key, days, archive } = req.query;
   if (key !== process.env.CRON_SECRET) {
     return res.status(401).json({ status: 'error', message: 'Unauthorized' });
   }
@@ -34,20 +39,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     // 削除対象の日数（デフォルト: 7日前）
     const daysToKeep = days && typeof days === 'string' ? parseInt(days, 10) : 7;
+    // アーカイブモード: 古い予約・抽選結果は archive_* にコピーしてから削除する
+    const archiveMode = archive === 'true';
 
     // 基準日を計算（JST）
-    const now = new Date();
-    const jstOffset = 9 * 60 * 60 * 1000;
-    const nowJST = new Date(now.getTime() + jstOffset);
-    const cutoffDateJST = new Date(nowJST);
-    cutoffDateJST.setDate(cutoffDateJST.getDate() - daysToKeep);
-    
-    const cutoffDateStr = `${cutoffDateJST.getFullYear()}-${('0' + (cutoffDateJST.getMonth() + 1)).slice(-2)}-${('0' + cutoffDateJST.getDate()).slice(-2)}`;
+    const today = todayJST();
+    const cutoffDateStr = addDays(today, -daysToKeep);
 
-    console.log(`Cleaning up data older than: ${cutoffDateStr} (${daysToKeep} days ago)`);
+    console.log(`Cleaning up data older than: ${cutoffDateStr} (${daysToKeep} days ago)${archiveMode ? ' with archive' : ''}`);
 
     // ---------------------------------------------------------
-    // 1. 古い予約データを削除（reservations）
+    // 1. 古い予約データを削除（reservations、アーカイブモードでは archive_reservations に退避）
     // ---------------------------------------------------------
     const reservationsSnapshot = await db.collection('reservations')
       .where('date', '<', `${cutoffDateStr}T00:00`)
@@ -62,11 +64,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       let operationCount = 0;
 
       reservationsSnapshot.forEach((doc) => {
-        currentBatch.delete(doc.ref);
-        operationCount++;
+        if (archiveMode) {
+          archiveAndDelete(db, currentBatch, 'reservations', doc);
+          operationCount += 2;
+        } else {
+          currentBatch.delete(doc.ref);
+          operationCount++;
+        }
 
         // 500件ごとに新しいバッチを作成
-        if (operationCount === 500) {
+        if (operationCount >= 500) {
           batches.push(currentBatch);
           currentBatch = db.batch();
           operationCount = 0;
@@ -87,7 +94,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     // ---------------------------------------------------------
-    // 2. 古い抽選結果を削除（lottery_results）
+    // 2. 古い抽選結果を削除（lottery_results、アーカイブモードでは archive_lottery_results に退避）
     // ---------------------------------------------------------
     const lotteryResultsSnapshot = await db.collection('lottery_results').get();
 
@@ -101,12 +108,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       
       // 日付文字列を比較
       if (docId < cutoffDateStr) {
-        lotteryBatch.delete(doc.ref);
-        lotteryOperationCount++;
+        if (archiveMode) {
+          archiveAndDelete(db, lotteryBatch, 'lottery_results', doc);
+          lotteryOperationCount += 2;
+        } else {
+          lotteryBatch.delete(doc.ref);
+          lotteryOperationCount++;
+        }
         deletedLotteryResults++;
 
         // 500件ごとに新しいバッチを作成
-        if (lotteryOperationCount === 500) {
+        if (lotteryOperationCount >= 500) {
           lotteryBatches.push(lotteryBatch);
           lotteryBatch = db.batch();
           lotteryOperationCount = 0;
@@ -124,6 +136,57 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       await batch.commit();
     }
 
+    // 抽選シード（lottery_seeds）も同じ期間で削除
+    const seedsSnapshot = await db.collection('lottery_seeds').get();
+
+    let deletedLotterySeeds = 0;
+    const seedBatch = db.batch();
+
+    seedsSnapshot.forEach((doc) => {
+      // ドキュメントIDは YYYY-MM-DD 形式（1日1件なので500件を超えることはない）
+      if (doc.id < cutoffDateStr) {
+        seedBatch.delete(doc.ref);
+        deletedLotterySeeds++;
+      }
+    });
+
+    if (deletedLotterySeeds > 0) {
+      await seedBatch.commit();
+    }
+
+    // 抽選結果のLINE送信記録（result_notifications）も同じ期間で削除
+    const notificationsSnapshot = await db.collection('result_notifications')
+      .where('date', '<', cutoffDateStr)
+      .get();
+
+    let deletedResultNotifications = 0;
+    const notificationBatches: admin.firestore.WriteBatch[] = [];
+    let notificationBatch = db.batch();
+    let notificationOperationCount = 0;
+
+    notificationsSnapshot.forEach((doc) => {
+      notificationBatch.delete(doc.ref);
+      notificationOperationCount++;
+      deletedResultNotifications++;
+
+      // 500件ごとに新しいバッチを作成
+      if (notificationOperationCount === 500) {
+        notificationBatches.push(notificationBatch);
+        notificationBatch = db.batch();
+        notificationOperationCount = 0;
+      }
+    });
+
+    // 残りの操作があればバッチに追加
+    if (notificationOperationCount > 0) {
+      notificationBatches.push(notificationBatch);
+    }
+
+    // すべてのバッチを実行
+    for (const batch of notificationBatches) {
+      await batch.commit();
+    }
+
     // ---------------------------------------------------------
     // 3. 古いユーザー状態を削除（states）
     //    実行時より5分以上前の操作を含むものを削除
@@ -186,15 +249,176 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       await batch.commit();
     }
 
+    // ---------------------------------------------------------
+    // 4. 古いWebhookイベントの処理記録を削除（webhook_events）
+    //    ※ LINEの再送は短時間で行われるため、保持期間を過ぎたものは不要
+    // ---------------------------------------------------------
+    const eventCutoff = new Date(Date.now() - daysToKeep * 24 * 60 * 60 * 1000);
+    const webhookEventsSnapshot = await db.collection('webhook_events')
+      .where('receivedAt', '<', eventCutoff)
+      .get();
+
+    let deletedWebhookEvents = 0;
+    const eventBatches: admin.firestore.WriteBatch[] = [];
+    let eventBatch = db.batch();
+    let eventOperationCount = 0;
+
+    webhookEventsSnapshot.forEach((doc) => {
+      eventBatch.delete(doc.ref);
+      eventOperationCount++;
+      deletedWebhookEvents++;
+
+      // 500件ごとに新しいバッチを作成
+      if (eventOperationCount === 500) {
+        eventBatches.push(eventBatch);
+        eventBatch = db.batch();
+        eventOperationCount = 0;
+      }
+    });
+
+    // 残りの操作があればバッチに追加
+    if (eventOperationCount > 0) {
+      eventBatches.push(eventBatch);
+    }
+
+    // すべてのバッチを実行
+    for (const batch of eventBatches) {
+      await batch.commit();
+    }
+
+    // ---------------------------------------------------------
+    // 5. 古い抽選履歴を削除（lottery_history）
+    //    ※ 公平性の重み計算に使うため、予約データより長く fairness.historyDays 日間保持
+    // ---------------------------------------------------------
+    const settings = await loadReservationSettings(db);
+    const historyCutoffStr = addDays(today, -Math.max(settings.fairness.historyDays, daysToKeep));
+
+    const historySnapshot = await db.collection('lottery_history')
+      .where('date', '<', historyCutoffStr)
+      .get();
+
+    let deletedLotteryHistory = 0;
+    const historyBatches: admin.firestore.WriteBatch[] = [];
+    let historyBatch = db.batch();
+    let historyOperationCount = 0;
+
+    historySnapshot.forEach((doc) => {
+      historyBatch.delete(doc.ref);
+      historyOperationCount++;
+      deletedLotteryHistory++;
+
+      // 500件ごとに新しいバッチを作成
+      if (historyOperationCount === 500) {
+        historyBatches.push(historyBatch);
+        historyBatch = db.batch();
+        historyOperationCount = 0;
+      }
+    });
+
+    // 残りの操作があればバッチに追加
+    if (historyOperationCount > 0) {
+      historyBatches.push(historyBatch);
+    }
+
+    // すべてのバッチを実行
+    for (const batch of historyBatches) {
+      await batch.commit();
+    }
+
+    // ---------------------------------------------------------
+    // 6. 古い予約の変更履歴を削除（reservation_events）
+    //    ※ 問い合わせ対応に使うため、予約データより長く保持
+    // ---------------------------------------------------------
+    const reservationEventCutoff = new Date(
+      Date.now() - Math.max(RESERVATION_EVENTS_RETENTION_DAYS, daysToKeep) * 24 * 60 * 60 * 1000
+    );
+    const reservationEventsSnapshot = await db.collection('reservation_events')
+      .where('at', '<', reservationEventCutoff)
+      .get();
+
+    let deletedReservationEvents = 0;
+    const reservationEventBatches: admin.firestore.WriteBatch[] = [];
+    let reservationEventBatch = db.batch();
+    let reservationEventOperationCount = 0;
+
+    reservationEventsSnapshot.forEach((doc) => {
+      reservationEventBatch.delete(doc.ref);
+      reservationEventOperationCount++;
+      deletedReservationEvents++;
+
+      // 500件ごとに新しいバッチを作成
+      if (reservationEventOperationCount === 500) {
+        reservationEventBatches.push(reservationEventBatch);
+        reservationEventBatch = db.batch();
+        reservationEventOperationCount = 0;
+      }
+    });
+
+    // 残りの操作があればバッチに追加
+    if (reservationEventOperationCount > 0) {
+      reservationEventBatches.push(reservationEventBatch);
+    }
+
+    // すべてのバッチを実行
+    for (const batch of reservationEventBatches) {
+      await batch.commit();
+    }
+
+    // ---------------------------------------------------------
+    // 7. 古い譲渡・交換の申し込みを削除（slot_offers）
+    // ---------------------------------------------------------
+    const slotOfferCutoff = new Date(
+      Date.now() - Math.max(SLOT_OFFERS_RETENTION_DAYS, daysToKeep) * 24 * 60 * 60 * 1000
+    );
+    const slotOffersSnapshot = await db.collection('slot_offers')
+      .where('createdAt', '<', slotOfferCutoff)
+      .get();
+
+    let deletedSlotOffers = 0;
+    const slotOfferBatches: admin.firestore.WriteBatch[] = [];
+    let slotOfferBatch = db.batch();
+    let slotOfferOperationCount = 0;
+
+    slotOffersSnapshot.forEach((doc) => {
+      slotOfferBatch.delete(doc.ref);
+      slotOfferOperationCount++;
+      deletedSlotOffers++;
+
+      // 500件ごとに新しいバッチを作成
+      if (slotOfferOperationCount === 500) {
+        slotOfferBatches.push(slotOfferBatch);
+        slotOfferBatch = db.batch();
+        slotOfferOperationCount = 0;
+      }
+    });
+
+    // 残りの操作があればバッチに追加
+    if (slotOfferOperationCount > 0) {
+      slotOfferBatches.push(slotOfferBatch);
+    }
+
+    // すべてのバッチを実行
+    for (const batch of slotOfferBatches) {
+      await batch.commit();
+    }
+
     return res.status(200).json({
       status: 'success',
       message: 'Data cleanup completed.',
       cutoffDate: cutoffDateStr,
+      // アーカイブモードでは、削除した予約・抽選結果は archive_* に残っている
+      archived: archiveMode,
       deleted: {
         reservations: deletedReservations,
         lotteryResults: deletedLotteryResults,
+        lotterySeeds: deletedLotterySeeds,
+        resultNotifications: deletedResultNotifications,
         states: deletedStates,
-        total: deletedReservations + deletedLotteryResults + deletedStates
+        webhookEvents: deletedWebhookEvents,
+        lotteryHistory: deletedLotteryHistory,
+        reservationEvents: deletedReservationEvents,
+        slotOffers: deletedSlotOffers,
+        total: deletedReservations + deletedLotteryResults + deletedLotterySeeds + deletedResultNotifications + deletedStates + deletedWebhookEvents + deletedLotteryHistory + deletedReservationEvents + deletedSlotOffers
       }
     });
 
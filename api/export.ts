@@ -0,0 +1,88 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import * as admin from 'firebase-admin';
+import { authenticateAdmin } from '../lib/admin';
+import { isDateString } from '../lib/validation';
+import { EXPORTERS, EXPORT_TYPES, ExportType, MAX_EXPORT_DAYS, exportRecordToJson } from '../lib/export';
+import 'dotenv/config';
+
+// ---------------------------------------------------------
+// 1. 設定・初期化
+// ---------------------------------------------------------
+const privateKey = process.env.FIREBASE_PRIVATE_KEY
+  ? process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n')
+  : undefined;
+
+if (!admin.apps.length) {
+  if (!privateKey) throw new Error('FIREBASE_PRIVATE_KEY is missing');
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: privateKey,
+    }),
+  });
+}
+const db = admin.firestore();
+
+// ---------------------------------------------------------
+// 2. メイン処理
+// ---------------------------------------------------------
+// GET /api/export?from=YYYY-MM-DD&to=YYYY-MM-DD&format=json           予約と抽選結果
+// GET /api/export?from=YYYY-MM-DD&to=YYYY-MM-DD&format=csv&type=...  予約（reservations）または抽選結果（lottery_results）
+// 保持中のデータと、data-organize のアーカイブモードで退避したデータ（archive_*）の両方を返す
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // セキュリティチェック
+  const actor = authenticateAdmin(req);
+  if (!actor) {
+    return res.status(401).json({ status: 'error', message: 'Unauthorized' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ status: 'error', message: 'Method not allowed' });
+  }
+
+  const { from, to, type } = req.query;
+  const format = req.query.format ?? 'json';
+
+  if (!isDateString(from) || !isDateString(to)) {
+    return res.status(400).json({ status: 'error', message: 'from and to parameters are required. Use format: YYYY-MM-DD' });
+  }
+  if (from > to) {
+    return res.status(400).json({ status: 'error', message: 'from must be on or before to.' });
+  }
+  const days = (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000) + 1;
+  if (days > MAX_EXPORT_DAYS) {
+    return res.status(400).json({ status: 'error', message: `The range must be ${MAX_EXPORT_DAYS} days or less.` });
+  }
+  if (format !== 'json' && format !== 'csv') {
+    return res.status(400).json({ status: 'error', message: 'format must be one of: json, csv' });
+  }
+  if (type !== undefined && (typeof type !== 'string' || !EXPORT_TYPES.includes(type as ExportType))) {
+    return res.status(400).json({ status: 'error', message: `type must be one of: ${EXPORT_TYPES.join(', ')}` });
+  }
+  if (format === 'csv' && type === undefined) {
+    return res.status(400).json({ status: 'error', message: `type parameter is required for csv. Use one of: ${EXPORT_TYPES.join(', ')}` });
+  }
+
+  try {
+    if (format === 'csv') {
+      const exporter = EXPORTERS[type as ExportType];
+      const records = await exporter.load(db, from, to);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${type}_${from}_${to}.csv"`);
+      return res.status(200).send(exporter.toCsv(records));
+    }
+
+    const types = type === undefined ? EXPORT_TYPES : [type as ExportType];
+    const body: { [key: string]: unknown } = { status: 'success', from, to };
+    for (const exportType of types) {
+      const records = await EXPORTERS[exportType].load(db, from, to);
+      body[exportType] = records.map(exportRecordToJson);
+    }
+    return res.status(200).json(body);
+
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({ status: 'error', error: error.message });
+  }
+}
@@ -0,0 +1,97 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import * as admin from 'firebase-admin';
+import { loadReservationSettings } from '../lib/settings';
+import { isOpenDate, lotteryTargetDate } from '../lib/schedule';
+import { commitLotterySeed, LOTTERY_ALGORITHM_VERSION } from '../lib/lottery-seed';
+import { postToBand } from '../lib/band';
+import 'dotenv/config';
+
+// ---------------------------------------------------------
+// 1. 設定・初期化
+// ---------------------------------------------------------
+const privateKey = process.env.FIREBASE_PRIVATE_KEY
+  ? process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n')
+  : undefined;
+
+if (!admin.apps.length) {
+  if (!privateKey) throw new Error('FIREBASE_PRIVATE_KEY is missing');
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: privateKey,
+    }),
+  });
+}
+const db = admin.firestore();
+
+// ---------------------------------------------------------
+// 2. メイン処理
+// ---------------------------------------------------------
+// 抽選前（抽選集計時間より前）にシードのハッシュだけをBANDに公開する
+// シード本体は抽選後の結果通知（notify）で公開される
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // セキュリティチェック
+  const { key, force, date } = req.query;
+  if (key !== process.env.CRON_SECRET) {
+    return res.status(401).json({ status: 'error', message: 'Unauthorized' });
+  }
+
+  const forceExecute = force === 'true';
+
+  try {
+    const settings = await loadReservationSettings(db);
+
+    // 1. 対象の日付（設定の schedule.lotteryDaysAhead 日後）を計算
+    // ※ dateパラメータがあればそれを使用（テスト用）
+    let targetDateStr: string;
+
+    if (date && typeof date === 'string') {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({
+          status: 'error',
+          message: 'Invalid date format. Use YYYY-MM-DD.'
+        });
+      }
+      targetDateStr = date;
+    } else {
+      targetDateStr = lotteryTargetDate(settings);
+    }
+
+    // 2. 登録可能日かチェック（force=true の場合はスキップ）
+    if (!forceExecute && !isOpenDate(settings, targetDateStr)) {
+      return res.status(200).json({
+        status: 'skipped',
+        message: `${targetDateStr} is not an available day (weekday, closed date or special opening). Skipping commit.`
+      });
+    }
+
+    // 3. シードをコミット（既にコミット済みなら同じシードを使う）
+    const { seed, created } = await commitLotterySeed(db, targetDateStr);
+
+    // 4. 新しくコミットした場合のみBANDにハッシュを投稿（再実行時の重複投稿を防ぐ）
+    if (created) {
+      const displayDate = targetDateStr.replace(/-/g, '/').slice(5);
+      let message = `🔐 【抽選シードの事前公開】＜${displayDate}＞\n\n`;
+      message += `本日${settings.schedule.lotteryTime}の抽選に使うシードのハッシュ値です。\n`;
+      message += `SHA-256: ${seed.seedHash}\n\n`;
+      message += `抽選結果の投稿でシードを公開します。\n`;
+      message += `公開されたシードのSHA-256がこの値と一致すれば、抽選前にシードが決まっていたことを確認できます。\n`;
+      message += `（アルゴリズム: ${LOTTERY_ALGORITHM_VERSION}）`;
+
+      await postToBand(message, false);
+    }
+
+    return res.status(200).json({
+      status: 'success',
+      targetDate: targetDateStr,
+      seedHash: seed.seedHash,
+      committedAt: seed.committedAt,
+      posted: created,
+    });
+
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({ status: 'error', error: error.message });
+  }
+}
@@ -0,0 +1,150 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import * as admin from 'firebase-admin';
+import { drawSlotOrder, drawnOrderOf, LotteryInputEntry } from '../lib/lottery-draw';
+import { hashSeed, LOTTERY_ALGORITHM_VERSION } from '../lib/lottery-seed';
+import { parseResultKey } from '../lib/rooms';
+import { resolveMemberConflicts, MemberConflictPair } from '../lib/lottery-conflicts';
+import 'dotenv/config';
+
+// ---------------------------------------------------------
+// 1. 設定・初期化
+// ---------------------------------------------------------
+const privateKey = process.env.FIREBASE_PRIVATE_KEY
+  ? process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n')
+  : undefined;
+
+if (!admin.apps.length) {
+  if (!privateKey) throw new Error('FIREBASE_PRIVATE_KEY is missing');
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: privateKey,
+    }),
+  });
+}
+const db = admin.firestore();
+
+// ---------------------------------------------------------
+// 2. メイン処理
+// ---------------------------------------------------------
+// 保存された入力（シード・各枠の応募者と重み）から順位を再計算し、公開された結果と一致するか確認する
+// 誰でも検証できるよう認証は不要（抽選後の結果のみ対象）
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const { date } = req.query;
+
+  // 日付パラメータのチェック
+  if (!date || typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return res.status(400).json({
+      status: 'error',
+      message: 'Date parameter is required. Use format: YYYY-MM-DD'
+    });
+  }
+
+  try {
+    const resultDoc = await db.collection('lottery_results').doc(date).get();
+
+    if (!resultDoc.exists) {
+      return res.status(404).json({
+        status: 'error',
+        message: `No lottery results found for ${date}.`
+      });
+    }
+
+    const data = resultDoc.data()!;
+    if (!data.seed || !data.algorithmVersion) {
+      return res.status(200).json({
+        status: 'unverifiable',
+        message: 'This lottery was drawn without a recorded seed.'
+      });
+    }
+
+    if (data.algorithmVersion !== LOTTERY_ALGORITHM_VERSION) {
+      return res.status(200).json({
+        status: 'unverifiable',
+        message: `Unsupported algorithm version: ${data.algorithmVersion}`
+      });
+    }
+
+    // 1. シードが事前公開されたハッシュと一致するか
+    const seedHashMatches = hashSeed(data.seed) === data.seedHash;
+
+    // 2. 枠ごとに順位を再計算して比較
+    const results = data.results || {};
+    const slots = Object.keys(results).sort().map((slotKey) => {
+      const { roomId, timeSlot } = parseResultKey(slotKey, results[slotKey]);
+      const entries: LotteryInputEntry[] = results[slotKey].entries || [];
+      // 管理者が順位を手動変更した枠・枠の譲渡や交換・辞退があった枠は、抽選で決まった元の順位と照合する
+      const manualOverride = results[slotKey].manualOverride || null;
+      const recorded: string[] = drawnOrderOf(results[slotKey]);
+      const recomputedEntries = drawSlotOrder(entries, data.seed, slotKey);
+      const recomputed = recomputedEntries.map((entry) => entry.bandName);
+      const matches = recomputed.length === recorded.length
+        && recomputed.every((bandName, index) => bandName === recorded[index]);
+
+      return {
+        recomputedEntries,
+        capacity: typeof results[slotKey].capacity === 'number' ? results[slotKey].capacity : null,
+        slotKey,
+        roomId,
+        timeSlot,
+        matches,
+        recorded,
+        recomputed,
+        entries,
+        manuallyOverridden: manualOverride !== null,
+        transfers: results[slotKey].transfers || [],
+        releases: results[slotKey].releases || [],
+        currentOrder: results[slotKey].order || [],
+      };
+    });
+
+    // 3. メンバーの競合解決を、保存された競合ペアと再計算した順位から再現して比較
+    const memberConflicts: MemberConflictPair[] = data.memberConflicts || [];
+    const recomputedLosses = resolveMemberConflicts(
+      slots.map((slot) => ({
+        slotKey: slot.slotKey,
+        label: slot.slotKey,
+        capacity: slot.capacity,
+        order: slot.recomputedEntries.map((entry) => ({ docId: entry.docId, bandName: entry.bandName })),
+      })),
+      memberConflicts,
+      data.seed
+    );
+    const lossKey = (loss: { docId: string; lostTo: { docId: string } }) => `${loss.docId}>${loss.lostTo.docId}`;
+    const conflictSlots = slots.map((slot) => {
+      const recorded: string[] = (results[slot.slotKey].conflicts || []).map(lossKey).sort();
+      const recomputed = (recomputedLosses.get(slot.slotKey) || []).map(lossKey).sort();
+      return {
+        slotKey: slot.slotKey,
+        matches: recorded.length === recomputed.length && recorded.every((key, index) => key === recomputed[index]),
+        conflicts: results[slot.slotKey].conflicts || [],
+      };
+    });
+    const conflictsMatch = conflictSlots.every((slot) => slot.matches);
+
+    const verified = seedHashMatches && slots.every((slot) => slot.matches) && conflictsMatch;
+
+    return res.status(200).json({
+      status: verified ? 'verified' : 'mismatch',
+      date,
+      algorithmVersion: data.algorithmVersion,
+      lotteryMode: data.lotteryMode,
+      seed: data.seed,
+      seedHash: data.seedHash,
+      seedHashMatches,
+      seedCommittedAt: data.seedCommittedAt?.toDate?.() ?? null,
+      seedCommittedInAdvance: data.seedCommittedInAdvance ?? false,
+      slots: slots.map(({ recomputedEntries, capacity, ...slot }) => slot),
+      memberConflicts: {
+        pairs: memberConflicts,
+        matches: conflictsMatch,
+        slots: conflictSlots.filter((slot) => slot.conflicts.length > 0 || !slot.matches),
+      },
+    });
+
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({ status: 'error', error: error.message });
+  }
+}
@@ -1,5 +1,14 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import * as admin from 'firebase-admin';
+import { loadReservationSettings, slotCapacity } from '../lib/settings';
+import { drawSlotOrder, computeFairnessWeight, LotteryInputEntry } from '../lib/lottery-draw';
+import { bandHistoryKey, legacyBandHistoryKey, lotteryHistoryRef, loadLotteryHistory } from '../lib/lottery-history';
+import { commitLotterySeed, LOTTERY_ALGORITHM_VERSION } from '../lib/lottery-seed';
+import { loadRooms, roomsForDate, reservationRoomId, resultKey } from '../lib/rooms';
+import { slotView, timeSlotsOfRoom } from '../lib/slots';
+import { isOpenDate, closedDateOf, lotteryTargetDate, dayOfWeek, addDays } from '../lib/schedule';
+import { recordReservationEvent } from '../lib/reservation-events';
+import { findMemberConflicts, resolveMemberConflicts, ConflictSlot } from '../lib/lottery-conflicts';
 import 'dotenv/config';
 
 // ---------------------------------------------------------
@@ -21,51 +30,6 @@ if (!admin.apps.length) {
 }
 const db = admin.firestore();
 
-// 配列をシャッフルする関数
-function shuffleArray<T>(array: T[]): T[] {
-  for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [array[i], array[j]] = [array[j], array[i]];
-  }
-  return array;
-}
-
-// Firestoreから設定を取得
-async function getConfig(): Promise<{
-  availableDays: number[];
-  timeSlots: { label: string; value: string }[];
-}> {
-  const configDoc = await db.collection('settings').doc('reservation').get();
-
-  if (configDoc.exists) {
-    const data = configDoc.data()!;
-    return {
-      availableDays: data.availableDays || [3, 4, 6],
-      timeSlots: data.timeSlots || [
-        { label: '9:00~10:00', value: '09:00-10:00' },
-        { label: '10:00~12:00', value: '10:00-12:00' },
-        { label: '12:00~14:00', value: '12:00-14:00' },
-        { label: '14:00~16:00', value: '14:00-16:00' },
-        { label: '16:00~18:00', value: '16:00-18:00' },
-        { label: '18:00~20:00', value: '18:00-20:00' },
-      ],
-    };
-  }
-
-  // デフォルト値
-  return {
-    availableDays: [3, 4, 6],
-    timeSlots: [
-      { label: '9:00~10:00', value: '09:00-10:00' },
-      { label: '10:00~12:00', value: '10:00-12:00' },
-      { label: '12:00~14:00', value: '12:00-14:00' },
-      { label: '14:00~16:00', value: '14:00-16:00' },
-      { label: '16:00~18:00', value: '16:00-18:00' },
-      { label: '18:00~20:00', value: '18:00-20:00' },
-    ],
-  };
-}
-
 // ---------------------------------------------------------
 // 2. メイン処理
 // ---------------------------------------------------------
@@ -76,19 +40,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(401).json({ status: 'error', message: 'Unauthorized' });
   }
 
-  // force=true の場合は翌日チェックをスキップ
+  // force=true の場合は登録可能日のチェックをスキップ
   const forceExecute = force === 'true';
 
   try {
-    // -----------------------------------------------------
-    // ★ 日付計算ロジック (ここが重要)
-    // -----------------------------------------------------
-    // VercelはUTC(世界標準時)なので、JST(日本時間)に変換して計算する
-    const now = new Date();
-    const jstOffset = 9 * 60 * 60 * 1000;
-    const nowJST = new Date(now.getTime() + jstOffset);
+    const settings = await loadReservationSettings(db);
 
-    let targetDateJST: Date;
     let targetDateStr: string;
 
     // force=true で date パラメータが指定されている場合、その日付を使用
@@ -101,32 +58,27 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           message: 'Invalid date format. Use YYYY-MM-DD.' 
         });
       }
-      targetDateJST = new Date(y, m - 1, d);
       targetDateStr = date;
     } else {
-      // 通常は翌日を計算
-      targetDateJST = new Date(nowJST);
-      targetDateJST.setDate(targetDateJST.getDate() + 1);
-      targetDateStr = `${targetDateJST.getFullYear()}-${('0' + (targetDateJST.getMonth() + 1)).slice(-2)}-${('0' + targetDateJST.getDate()).slice(-2)}`;
+      // 通常は設定（schedule.lotteryDaysAhead）で決まる抽選対象日（JSTで計算）
+      targetDateStr = lotteryTargetDate(settings);
     }
 
-    // 翌日が登録可能日かチェック（force=true の場合はスキップ）
-    if (!forceExecute) {
-      const config = await getConfig();
-      const targetDayIndex = targetDateJST.getDay();
-      
-      if (!config.availableDays.includes(targetDayIndex)) {
-        return res.status(200).json({ 
-          status: 'skipped', 
-          message: `Tomorrow (dayIndex: ${targetDayIndex}) is not an available day. Skipping lottery.` 
-        });
-      }
+    // 対象日が登録可能日（休室日・臨時開室日を含めて判定）かチェック（force=true の場合はスキップ）
+    if (!forceExecute && !isOpenDate(settings, targetDateStr)) {
+      const closed = closedDateOf(settings, targetDateStr);
+      return res.status(200).json({ 
+        status: 'skipped', 
+        message: closed
+          ? `${targetDateStr} is closed (${closed.reason}). Skipping lottery.`
+          : `${targetDateStr} (dayIndex: ${dayOfWeek(targetDateStr)}) is not an available day. Skipping lottery.` 
+      });
     }
 
     console.log(`Running lottery for target date: ${targetDateStr}`);
 
     // -----------------------------------------------------
-    // 1. 翌日の「pending」予約だけを取得
+    // 1. 対象日の「pending」予約だけを取得
     // -----------------------------------------------------
     // date文字列は "2023-12-21T10:00-12:00" のような形式なので文字列比較で範囲検索
     const snapshot = await db.collection('reservations')
@@ -143,38 +95,138 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     // -----------------------------------------------------
-    // 2. 時間帯ごとにグループ分け
+    // 2. 部屋・時間帯ごとにグループ分け
     // -----------------------------------------------------
-    // { "10:00-12:00": [予約A, 予約B...], "14:00-16:00": [予約C...] }
-    const groupedByTimeSlot: { [timeSlot: string]: FirebaseFirestore.QueryDocumentSnapshot[] } = {};
+    // { "10:00-12:00": [予約A, 予約B...], "studio2@14:00-16:00": [予約C...] }
+    const groupedByTimeSlot: { [slotKey: string]: FirebaseFirestore.QueryDocumentSnapshot[] } = {};
+    const slotInfo: { [slotKey: string]: { roomId: string; timeSlot: string } } = {};
 
     snapshot.forEach((doc) => {
       const data = doc.data();
       const [datePart, timePart] = data.date.split('T'); // datePartはtargetDateStrと同じはず
+      const roomId = reservationRoomId(data);
+      const slotKey = resultKey(roomId, timePart);
 
-      if (!groupedByTimeSlot[timePart]) {
-        groupedByTimeSlot[timePart] = [];
+      if (!groupedByTimeSlot[slotKey]) {
+        groupedByTimeSlot[slotKey] = [];
+        slotInfo[slotKey] = { roomId, timeSlot: timePart };
       }
-      groupedByTimeSlot[timePart].push(doc);
+      groupedByTimeSlot[slotKey].push(doc);
     });
 
+    // 結果に部屋名を残すため部屋一覧を取得（臨時開室日の時間枠を反映）
+    const rooms = roomsForDate(await loadRooms(db, settings.timeSlots), settings, targetDateStr);
+    const roomNames = new Map(rooms.map((room) => [room.id, room.name]));
+    const roomsById = new Map(rooms.map((room) => [room.id, room]));
+
+    // -----------------------------------------------------
+    // 3. 公平性モードの場合は過去の抽選履歴から重みを計算
+    // -----------------------------------------------------
+    const isFairMode = settings.lotteryMode === 'fair';
+    const bandKeyOf = (doc: FirebaseFirestore.QueryDocumentSnapshot) => bandHistoryKey(doc.data());
+
+    const weights = new Map<string, number>(); // docId -> 重み
+    if (isFairMode) {
+      const histories = await loadLotteryHistory(
+        db,
+        snapshot.docs.flatMap((doc) => [bandKeyOf(doc), legacyBandHistoryKey(doc.data())]),
+        addDays(targetDateStr, -settings.fairness.historyDays),
+        targetDateStr // 再抽選時に同じ日の結果を含めない
+      );
+      snapshot.forEach((doc) => {
+        // 以前のキー（バンド名）で保存された履歴も合わせる
+        const records = [
+          ...(histories.get(bandKeyOf(doc)) || []),
+          ...(histories.get(legacyBandHistoryKey(doc.data())) || []),
+        ];
+        weights.set(doc.id, computeFairnessWeight(records, settings.fairness));
+      });
+    }
+
+    // -----------------------------------------------------
+    // 3.5 メンバーが重なる予約のペアを探す（時間が重なる枠に同じ人が入らないように）
+    // -----------------------------------------------------
+    const bandIds = Array.from(new Set(snapshot.docs.map((doc) => doc.data().bandId).filter(Boolean)));
+    const bandSnaps = bandIds.length > 0
+      ? await db.getAll(...bandIds.map((bandId) => db.collection('bands').doc(bandId)))
+      : [];
+    const bandMembers = new Map<string, string[]>(
+      bandSnaps.filter((snap) => snap.exists).map((snap) => [snap.id, snap.data()!.memberIds || []])
+    );
+    const memberConflicts = findMemberConflicts(snapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        docId: doc.id,
+        timeSlot: data.date.split('T')[1],
+        // 登録者本人もメンバーとして扱う（同じ人が別のバンドで重なる枠に登録した場合も競合）
+        memberIds: Array.from(new Set([data.userId, ...(bandMembers.get(data.bandId) || [])].filter(Boolean))),
+      };
+    }));
+
+    // -----------------------------------------------------
+    // 4. シードを取得（事前にハッシュを公開済みのシードを使う）
+    // -----------------------------------------------------
+    // lottery-commit で事前にコミットされていない場合はここで作成する（事前公開なしとして記録）
+    const { seed: committedSeed, created: seedCreatedNow } = await commitLotterySeed(db, targetDateStr);
+    if (seedCreatedNow) {
+      console.warn(`Seed for ${targetDateStr} was not committed in advance.`);
+    }
+
     // -----------------------------------------------------
-    // 3. 抽選(順位決め)と結果保存
+    // 5. 抽選(順位決め)と結果保存
     // -----------------------------------------------------
-    const batch = db.batch();
+    // Firestoreのバッチは最大500件なので、予約1件分の書き込み（予約・変更履歴・抽選履歴）が収まらなくなったら次のバッチにする
+    // 抽選結果（lottery_results）は最後のバッチに入れ、すべての予約に順位を記録してから保存する
+    const batches: admin.firestore.WriteBatch[] = [db.batch()];
+    let operationCount = 0;
+    const batchFor = (writes: number) => {
+      if (operationCount + writes > 500) {
+        batches.push(db.batch());
+        operationCount = 0;
+      }
+      operationCount += writes;
+      return batches[batches.length - 1];
+    };
     let processedCount = 0;
 
     // 結果保存用のデータ構造
+    // シード・アルゴリズムのバージョン・各枠の入力(entries)があれば、lottery-verify で同じ順位を再計算できる
     const dailyResultData: any = {
       updatedAt: new Date(),
       targetDate: targetDateStr,
-      results: {} // "10:00-12:00": { count: 3, order: [...] }
+      lotteryMode: settings.lotteryMode,
+      settingsVersion: settings.version, // 抽選に使った設定の version
+      algorithmVersion: LOTTERY_ALGORITHM_VERSION,
+      seed: committedSeed.seed,
+      seedHash: committedSeed.seedHash,
+      seedCommittedAt: committedSeed.committedAt,
+      seedCommittedInAdvance: !seedCreatedNow,
+      results: {}, // "10:00-12:00": { count: 3, order: [...], entries: [...], conflicts: [...] }
+      memberConflicts, // メンバーが重なる予約のペア（競合解決の入力）
     };
+    if (isFairMode) {
+      dailyResultData.fairness = settings.fairness;
+    }
 
-    for (const [timeSlot, docs] of Object.entries(groupedByTimeSlot)) {
-      
-      // ★ シャッフル実行
-      const shuffledDocs = shuffleArray([...docs]);
+    // 競合解決用に各枠の抽選順を残す
+    const conflictSlots: ConflictSlot[] = [];
+
+    for (const [slotKey, docs] of Object.entries(groupedByTimeSlot)) {
+      const { roomId, timeSlot } = slotInfo[slotKey];
+
+      // 抽選の入力（uniformモードでは全員の重みが1）
+      const entries: LotteryInputEntry[] = docs
+        .map((doc) => ({
+          docId: doc.id,
+          bandName: doc.data().bandName || 'バンド名なし',
+          weight: weights.get(doc.id) ?? 1,
+        }))
+        .sort((a, b) => (a.docId < b.docId ? -1 : a.docId > b.docId ? 1 : 0));
+
+      // ★ シード付きで順位決め
+      const docsById = new Map(docs.map((doc) => [doc.id, doc]));
+      const shuffledDocs = drawSlotOrder(entries, committedSeed.seed, slotKey)
+        .map((entry) => docsById.get(entry.docId)!);
       
       const rankedList: string[] = [];
 
@@ -185,10 +237,30 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         
         // 予約データに抽選結果を記録（ステータスは変更しない）
         const ref = db.collection('reservations').doc(doc.id);
-        batch.update(ref, { 
+        const batch = batchFor(3);
+        const lotteryFields = {
           lotteryRank: rank,
           lotteryTotal: docs.length,
           lotteryDate: targetDateStr // いつ抽選されたかも記録
+        };
+        batch.update(ref, lotteryFields);
+        recordReservationEvent(db, batch, {
+          reservationId: doc.id,
+          action: 'lottery_draw',
+          actor: { type: 'system', id: 'lottery' },
+          before: data,
+          after: { ...data, ...lotteryFields },
+        });
+
+        // 公平性の重み計算用に履歴を残す（data-organizeの7日間より長く保持）
+        batch.set(lotteryHistoryRef(db, targetDateStr, doc.id), {
+          bandKey: bandKeyOf(doc),
+          bandName,
+          date: targetDateStr,
+          roomId,
+          timeSlot,
+          rank,
+          total: docs.length,
         });
 
         rankedList.push(bandName);
@@ -196,24 +268,54 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
 
       // 集計結果データを作成
-      dailyResultData.results[timeSlot] = {
+      // 定員（上位N件が確定、残りはキャンセル待ち。nullなら全員確定）
+      const slotDef = roomsById.get(roomId)?.timeSlots.find((slot) => slot.value === timeSlot)
+        ?? settings.timeSlots.find((slot) => slot.value === timeSlot);
+
+      const capacity = slotCapacity(slotDef, settings);
+      // 時間枠のラベルも残す（後で設定から削除されても、結果の表示に使う）
+      const { label: timeLabel } = slotView(timeSlotsOfRoom(rooms, roomId, settings.timeSlots), timeSlot);
+      dailyResultData.results[slotKey] = {
+        roomId,
+        roomName: roomNames.get(roomId) || roomId,
+        timeSlot,
+        timeLabel,
+        capacity,
         count: docs.length,
-        order: rankedList
+        order: rankedList,
+        entries,
+        conflicts: [], // 再抽選時に前回の結果が残らないよう、競合がなくても上書きする
       };
+
+      conflictSlots.push({
+        slotKey,
+        label: rooms.length > 1 ? `${roomNames.get(roomId) || roomId} ${timeLabel}` : timeLabel,
+        capacity,
+        order: shuffledDocs.map((doc) => ({ docId: doc.id, bandName: doc.data().bandName || 'バンド名なし' })),
+      });
+    }
+
+    // メンバーが重なる予約の競合を順位で解決し、譲った側とその理由を結果に残す
+    const conflictLosses = resolveMemberConflicts(conflictSlots, memberConflicts, committedSeed.seed);
+    for (const [slotKey, losses] of conflictLosses) {
+      dailyResultData.results[slotKey].conflicts = losses;
     }
 
     // ★ "lottery_results" に保存 (IDは日付文字列)
     const resultRef = db.collection('lottery_results').doc(targetDateStr);
-    batch.set(resultRef, dailyResultData, { merge: true });
+    batchFor(1).set(resultRef, dailyResultData, { merge: true });
 
-    // 4. 書き込み実行
-    await batch.commit();
+    // 6. 書き込み実行（抽選結果を含む最後のバッチが最後になるよう順にコミット）
+    for (const batch of batches) {
+      await batch.commit();
+    }
 
     return res.status(200).json({
       status: 'success',
       targetDate: targetDateStr,
       processed: processedCount,
-      message: 'Lottery completed for tomorrow.',
+      memberConflicts: memberConflicts.length,
+      message: `Lottery completed for ${targetDateStr}.`,
     });
 
   } catch (error: any) {
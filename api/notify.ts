@@ -1,7 +1,13 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import * as admin from 'firebase-admin';
-import axios from 'axios'; // BAND APIを叩くために必要
+import * as line from '@line/bot-sdk';
 import { updateReservationStatus } from '../lib/update-reservation-status';
+import { postToBand } from '../lib/band';
+import { loadReservationSettings, TimeSlot } from '../lib/settings';
+import { lotteryTargetDate } from '../lib/schedule';
+import { loadRooms, roomsForDate, parseResultKey } from '../lib/rooms';
+import { slotView, sortBySlot, timeSlotsOfRoom } from '../lib/slots';
+import { pushLotteryResults } from '../lib/result-push';
 import 'dotenv/config';
 
 // ---------------------------------------------------------
@@ -23,6 +29,10 @@ if (!admin.apps.length) {
 }
 const db = admin.firestore();
 
+const client = new line.Client({
+  channelAccessToken: process.env.LINE_CHANNEL_ACCESS_TOKEN!,
+});
+
 // ---------------------------------------------------------
 // 2. メイン処理
 // ---------------------------------------------------------
@@ -34,23 +44,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    // 1. 通知対象の日付（明日）を計算
+    const settings = await loadReservationSettings(db);
+
+    // 1. 通知対象の日付（設定の schedule.lotteryDaysAhead 日後）を計算
     // ※ dateパラメータがあればそれを使用（テスト用）
     let targetDateStr: string;
 
     if (date && typeof date === 'string') {
       targetDateStr = date;
     } else {
-      const now = new Date();
-      const jstOffset = 9 * 60 * 60 * 1000;
-      const nowJST = new Date(now.getTime() + jstOffset);
-      const targetDateJST = new Date(nowJST);
-      targetDateJST.setDate(targetDateJST.getDate() + 1); // 翌日
-      
-      const y = targetDateJST.getFullYear();
-      const m = ('0' + (targetDateJST.getMonth() + 1)).slice(-2);
-      const d = ('0' + targetDateJST.getDate()).slice(-2);
-      targetDateStr = `${y}-${m}-${d}`;
+      targetDateStr = lotteryTargetDate(settings);
     }
 
     console.log(`Checking lottery results for: ${targetDateStr}`);
@@ -73,33 +76,81 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(200).json({ status: 'skipped', message: 'No entries found.' });
     }
 
-    // 3. 抽選された予約の状態を更新（status: 'pending' → 'confirmed'）
-    const updatedCount = await updateReservationStatus(targetDateStr, db);
+    // 3. 抽選された予約の状態を更新（status: 'pending' → 'confirmed' / 'waitlisted'）
+    const rooms = roomsForDate(await loadRooms(db, settings.timeSlots), settings, targetDateStr);
+    const updatedCount = await updateReservationStatus(targetDateStr, db, rooms, settings.timeSlots);
+
+    // 4. 登録者本人にLINEで結果を送る（送信済みのユーザーには再送しない）
+    const lineNotifications = await pushLotteryResults(db, client, targetDateStr, rooms, settings.timeSlots);
 
-    // 4. 投稿メッセージを作成
-    const timeSlots = Object.keys(results);
+    // 5. 投稿メッセージを作成
     const displayDate = targetDateStr.replace(/-/g, '/').slice(5); // 12/21
     const weekDays = ['日', '月', '火', '水', '木', '金', '土'];
     const dateObj = new Date(targetDateStr);
     const wd = weekDays[dateObj.getDay()];
 
     let message = `📢 【部屋取り抽選結果】＜${displayDate}(${wd})＞\n\n`;
-    
-    // 時間帯リストをソート（既に取得済み）
-    const sortedTimeSlots = timeSlots.sort();
 
-    let hasContent = false;
+    // 部屋ごとに時間帯をまとめる
+    const slotsByRoom = new Map<string, { roomName: string; timeSlots: TimeSlot[]; slots: { timeSlot: string; timeLabel: string; bands: string[]; capacity: number | null; conflictRanks: Set<number> }[] }>();
 
-    for (const timeSlot of sortedTimeSlots) {
-      const slotData = results[timeSlot];
+    for (const slotKey of Object.keys(results)) {
+      const slotData = results[slotKey];
+      const { roomId, timeSlot } = parseResultKey(slotKey, slotData);
       const bands: string[] = slotData.order || [];
-      
-      if (bands.length > 0) {
+      if (bands.length === 0) continue;
+
+      if (!slotsByRoom.has(roomId)) {
+        const roomName = rooms.find((room) => room.id === roomId)?.name || slotData.roomName || roomId;
+        slotsByRoom.set(roomId, { roomName, timeSlots: timeSlotsOfRoom(rooms, roomId, settings.timeSlots), slots: [] });
+      }
+      const roomResults = slotsByRoom.get(roomId)!;
+      // 設定から削除された時間枠は抽選時に記録したラベルで表示
+      const { label: timeLabel } = slotView(roomResults.timeSlots, timeSlot, slotData.timeLabel);
+      const capacity = typeof slotData.capacity === 'number' ? slotData.capacity : null;
+      // メンバーの競合で当選を譲った順位
+      const conflictRanks = new Set<number>((slotData.conflicts || []).map((loss: any) => loss.rank));
+      roomResults.slots.push({ timeSlot, timeLabel, bands, capacity, conflictRanks });
+    }
+
+    // 部屋の表示順（現在の部屋一覧にない部屋は最後）
+    const roomOrder = [
+      ...rooms.map((room) => room.id),
+      ...Array.from(slotsByRoom.keys()).filter((roomId) => !rooms.some((room) => room.id === roomId)),
+    ];
+    const showRoomName = rooms.length > 1 || slotsByRoom.size > 1;
+
+    let hasContent = false;
+
+    for (const roomId of roomOrder) {
+      const roomResults = slotsByRoom.get(roomId);
+      if (!roomResults) continue;
+      const { roomName, timeSlots, slots } = roomResults;
+
+      if (showRoomName) {
+        message += `🏠 ${roomName}\n`;
+      }
+
+      // 時間枠の設定順に並べる
+      for (const { timeLabel, bands, capacity, conflictRanks } of sortBySlot(timeSlots, slots, (slot) => slot.timeSlot)) {
         hasContent = true;
-        message += `【${timeSlot}】\n`;
-        bands.forEach((bandName, index) => {
-          message += `${index + 1}. ${bandName}\n`;
+        message += `【${timeLabel}】\n`;
+
+        // 競合で譲ったバンドを除いて定員までが当選、残りはキャンセル待ち（順位は抽選の順位のまま表示）
+        const ranked = bands.map((bandName, index) => ({ bandName, rank: index + 1, conflict: conflictRanks.has(index + 1) }));
+        const eligible = ranked.filter((entry) => !entry.conflict);
+        const winners = capacity === null ? eligible : eligible.slice(0, capacity);
+        const waitlisted = ranked.filter((entry) => !winners.includes(entry));
+
+        winners.forEach(({ bandName, rank }) => {
+          message += `${rank}. ${bandName}\n`;
         });
+        if (waitlisted.length > 0) {
+          message += `― キャンセル待ち ―\n`;
+          waitlisted.forEach(({ bandName, rank, conflict }) => {
+            message += `${rank}. ${bandName}${conflict ? '（メンバー重複）' : ''}\n`;
+          });
+        }
         message += `\n`;
       }
     }
@@ -111,34 +162,21 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     message += `------------------\n`;
     message += `※詳細はLINE ANIT部屋取りシステム【全登録一覧】からも確認できます。`;
 
-    // 5. BAND APIに投稿
-    const bandAccessToken = process.env.BAND_ACCESS_TOKEN;
-    const bandKey = process.env.BAND_KEY;
-
-    if (!bandAccessToken || !bandKey) {
-      throw new Error('BAND API credentials are missing.');
+    // シードを公開（事前公開したハッシュと照合できる）
+    if (data?.seed) {
+      message += `\n\n🔑 抽選シード: ${data.seed}\n`;
+      message += `SHA-256: ${data.seedHash}\n`;
+      message += `検証: https://${req.headers.host}/api/lottery-verify?date=${targetDateStr}`;
     }
 
-    // BAND API: 投稿作成 (v2.2)
-    // 公式ドキュメント: https://developers.band.us/develop/guide/api/write_post.html
-    const response = await axios.post('https://openapi.band.us/v2.2/band/post/create', null, {
-      params: {
-        access_token: bandAccessToken,
-        band_key: bandKey,
-        content: message,
-        do_push: true // プッシュ通知を送る
-      }
-    });
-
-    // レスポンスコードの確認 (result_code: 1 = 成功)
-    if (response.data?.result_code !== 1) {
-      throw new Error(`BAND API returned error: ${JSON.stringify(response.data)}`);
-    }
+    // 6. BAND APIに投稿（プッシュ通知を送る）
+    await postToBand(message, true);
 
     return res.status(200).json({
       status: 'success',
       message: 'Posted to BAND successfully.',
       updatedReservations: updatedCount,
+      lineNotifications,
       content: message
     });
 
@@ -0,0 +1,204 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import * as admin from 'firebase-admin';
+import * as line from '@line/bot-sdk';
+import { loadReservationSettings, RegistrationLimits } from '../lib/settings';
+import { loadRooms, roomsForDate } from '../lib/rooms';
+import { availableDateList, isLotteryWindow, dayOfWeek } from '../lib/schedule';
+import { standingRequestFromDoc, describeStandingRequest, StandingRequest } from '../lib/standing-requests';
+import { checkRegistrationRules } from '../lib/registration-rules';
+import { recordReservationEvent } from '../lib/reservation-events';
+import 'dotenv/config';
+
+// ---------------------------------------------------------
+// 1. 設定・初期化
+// ---------------------------------------------------------
+const privateKey = process.env.FIREBASE_PRIVATE_KEY
+  ? process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n')
+  : undefined;
+
+if (!admin.apps.length) {
+  if (!privateKey) throw new Error('FIREBASE_PRIVATE_KEY is missing');
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: privateKey,
+    }),
+  });
+}
+const db = admin.firestore();
+
+const client = new line.Client({
+  channelAccessToken: process.env.LINE_CHANNEL_ACCESS_TOKEN!,
+});
+
+// bandName は予約に使ったバンドの現在の名前（毎週登録に保存した名前ではなく bands/{id}.name）
+type GenerateOutcome =
+  | { result: 'created'; bandName: string }
+  | { result: 'skipped'; bandName: string; message: string }
+  | { result: 'paused'; message: string }
+  | { result: 'done' }; // 既に処理済み・停止・解除された
+
+/**
+ * 毎週登録から1日分の予約を作る
+ * 毎週登録の状態確認・バンドのメンバー確認・重複と上限の確認・予約の作成を1つのトランザクションで行う
+ * 登録できなかった日付も lastGeneratedDate を進め、同じ日付を繰り返し処理しない
+ * （作成された予約をユーザーが削除した場合も、同じ日付には作り直さない）
+ */
+async function generateReservation(
+  ref: admin.firestore.DocumentReference,
+  datePart: string,
+  limits: RegistrationLimits
+): Promise<GenerateOutcome> {
+  return db.runTransaction(async (tx): Promise<GenerateOutcome> => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) return { result: 'done' };
+    const request = standingRequestFromDoc(snap);
+    if (request.status !== 'active' || (request.lastGeneratedDate && request.lastGeneratedDate >= datePart)) {
+      return { result: 'done' };
+    }
+
+    // バンドを抜けた・バンドが削除された場合は一時停止する
+    const bandSnap = await tx.get(db.collection('bands').doc(request.bandId));
+    if (!bandSnap.exists || !(bandSnap.data()!.memberIds || []).includes(request.userId)) {
+      const message = `「${request.bandName}」のメンバーではなくなったため、毎週登録（${describeStandingRequest(request)}）を一時停止しました。`;
+      tx.update(ref, { status: 'paused', updatedAt: new Date() });
+      return { result: 'paused', message };
+    }
+    const bandName: string = bandSnap.data()!.name;
+    const date = `${datePart}T${request.timeSlot}`;
+
+    const violation = await checkRegistrationRules(db, tx, {
+      userId: request.userId,
+      bandName,
+      bandId: request.bandId,
+      date,
+    }, limits);
+    if (violation) {
+      tx.update(ref, {
+        lastGeneratedDate: datePart,
+        lastSkipped: { date: datePart, message: violation.message },
+        updatedAt: new Date(),
+      });
+      return { result: 'skipped', bandName, message: violation.message };
+    }
+
+    const reservation = {
+      userId: request.userId,
+      bandId: request.bandId,
+      bandName,
+      date,
+      roomId: request.roomId,
+      status: 'pending',
+      standingRequestId: request.id,
+      createdAt: new Date(),
+    };
+    const reservationRef = db.collection('reservations').doc();
+    tx.create(reservationRef, reservation);
+    recordReservationEvent(db, tx, {
+      reservationId: reservationRef.id,
+      action: 'create',
+      actor: { type: 'system', id: 'recurring' },
+      before: null,
+      after: reservation,
+    });
+    tx.update(ref, { lastGeneratedDate: datePart, lastSkipped: null, updatedAt: new Date() });
+    return { result: 'created', bandName };
+  });
+}
+
+// ---------------------------------------------------------
+// 2. メイン処理
+// ---------------------------------------------------------
+// 有効な毎週登録（standing_requests）から、登録可能な日付のうち曜日が一致する日の予約を pending で作成し、
+// 結果をユーザーごとにまとめてLINEで知らせる
+// 抽選後（設定の schedule.lotteryTime 以降）に毎日Cronで実行する想定（対象は新規登録と同じく availableDateList の日付）
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // セキュリティチェック
+  const { key } = req.query;
+  if (key !== process.env.CRON_SECRET) {
+    return res.status(401).json({ status: 'error', message: 'Unauthorized' });
+  }
+
+  try {
+    const settings = await loadReservationSettings(db);
+
+    // 抽選集計時間中は抽選の対象日の予約を増やさない
+    if (isLotteryWindow(settings)) {
+      return res.status(200).json({ status: 'skipped', message: 'Lottery in progress' });
+    }
+
+    const dates = availableDateList(settings).map((d) => d.value);
+    const rooms = await loadRooms(db, settings.timeSlots);
+
+    const snapshot = await db.collection('standing_requests')
+      .where('status', '==', 'active')
+      .get();
+
+    let createdCount = 0;
+    let skippedCount = 0;
+    let pausedCount = 0;
+    const notices = new Map<string, string[]>(); // userId -> 通知する行
+    const addNotice = (request: StandingRequest, text: string) => {
+      notices.set(request.userId, [...(notices.get(request.userId) || []), text]);
+    };
+
+    for (const doc of snapshot.docs) {
+      const request = standingRequestFromDoc(doc);
+      const targetDates = dates.filter((datePart) =>
+        dayOfWeek(datePart) === request.dayOfWeek
+        && (!request.lastGeneratedDate || datePart > request.lastGeneratedDate)
+      );
+      for (const datePart of targetDates) {
+        // 部屋や時間枠がなくなった場合（臨時開室日で時間枠が違う場合も）は作らない（設定が戻れば再び作る）
+        const room = roomsForDate(rooms, settings, datePart).find((r) => r.id === request.roomId);
+        if (!room || !room.timeSlots.some((slot) => slot.value === request.timeSlot)) {
+          skippedCount++;
+          continue;
+        }
+
+        const displayDate = datePart.replace(/-/g, '/').slice(5);
+        const outcome = await generateReservation(doc.ref, datePart, settings.limits);
+
+        if (outcome.result === 'created') {
+          createdCount++;
+          addNotice(request, `✅ ${outcome.bandName} ${displayDate} ${request.timeSlot}（${rooms.length > 1 ? `${room.name}・` : ''}抽選待ち）`);
+        } else if (outcome.result === 'skipped') {
+          skippedCount++;
+          addNotice(request, `⚠️ ${outcome.bandName} ${displayDate} ${request.timeSlot} は登録できませんでした\n${outcome.message}`);
+        } else if (outcome.result === 'paused') {
+          pausedCount++;
+          addNotice(request, `⏸️ ${outcome.message}`);
+          break;
+        }
+      }
+    }
+
+    let notifiedCount = 0;
+    for (const [userId, lines] of notices) {
+      try {
+        await client.pushMessage(userId, {
+          type: 'text',
+          text: `🔁 毎週登録の自動登録\n\n${lines.join('\n')}\n\n毎週登録の確認・停止は「毎週登録」と送ってください。`,
+        });
+        notifiedCount++;
+      } catch (err) {
+        console.error(err);
+      }
+    }
+
+    return res.status(200).json({
+      status: 'success',
+      dates,
+      requests: snapshot.size,
+      created: createdCount,
+      skipped: skippedCount,
+      paused: pausedCount,
+      notified: notifiedCount,
+    });
+
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({ status: 'error', error: error.message });
+  }
+}
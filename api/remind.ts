@@ -0,0 +1,136 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import * as admin from 'firebase-admin';
+import * as line from '@line/bot-sdk';
+import { loadReservationSettings } from '../lib/settings';
+import { loadRooms, reservationRoomId } from '../lib/rooms';
+import { todayJST, minutesNowJST } from '../lib/schedule';
+import 'dotenv/config';
+
+// ---------------------------------------------------------
+// 1. 設定・初期化
+// ---------------------------------------------------------
+const privateKey = process.env.FIREBASE_PRIVATE_KEY
+  ? process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n')
+  : undefined;
+
+if (!admin.apps.length) {
+  if (!privateKey) throw new Error('FIREBASE_PRIVATE_KEY is missing');
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: privateKey,
+    }),
+  });
+}
+const db = admin.firestore();
+
+const client = new line.Client({
+  channelAccessToken: process.env.LINE_CHANNEL_ACCESS_TOKEN!,
+});
+
+// リマインダーの送信権を確保する（送信済みならfalse）
+async function claimReminder(ref: admin.firestore.DocumentReference): Promise<boolean> {
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) return false;
+
+    const data = snap.data()!;
+    if (data.status !== 'confirmed' || data.remindedAt) return false;
+
+    tx.update(ref, { remindedAt: new Date() });
+    return true;
+  });
+}
+
+// ---------------------------------------------------------
+// 2. メイン処理
+// ---------------------------------------------------------
+// 確定した枠の開始 reminderMinutes 分前に、辞退ボタン付きのリマインダーをLINEで送る
+// 数分おきにCronで実行する想定（送信済みの予約には remindedAt を記録して再送しない）
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // セキュリティチェック
+  const { key } = req.query;
+  if (key !== process.env.CRON_SECRET) {
+    return res.status(401).json({ status: 'error', message: 'Unauthorized' });
+  }
+
+  try {
+    // 1. 現在時刻（JST）
+    const now = new Date();
+    const todayStr = todayJST(now);
+    const nowMinutes = minutesNowJST(now);
+
+    const settings = await loadReservationSettings(db);
+    const reminderMinutes = settings.reminderMinutes;
+
+    // 2. 今日の確定済みの予約を取得
+    const snapshot = await db.collection('reservations')
+      .where('status', '==', 'confirmed')
+      .where('date', '>=', `${todayStr}T00:00`)
+      .where('date', '<=', `${todayStr}T23:59`)
+      .get();
+
+    const rooms = await loadRooms(db, settings.timeSlots);
+    const roomNames = rooms.length > 1 ? new Map(rooms.map((room) => [room.id, room.name])) : null;
+
+    let sentCount = 0;
+    let failedCount = 0;
+
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      if (data.remindedAt || !data.userId) continue;
+
+      // 3. 開始までの残り時間が reminderMinutes 分以内の枠だけ（開始後は送らない）
+      const timePart: string = data.date.split('T')[1]; // "14:00-16:00"
+      const [startH, startM] = timePart.split('-')[0].split(':').map(Number);
+      const minutesUntilStart = startH * 60 + startM - nowMinutes;
+      if (minutesUntilStart <= 0 || minutesUntilStart > reminderMinutes) continue;
+
+      if (!(await claimReminder(doc.ref))) continue;
+
+      const bandName = data.bandName || '(バンド名なし)';
+      const displayDate = todayStr.replace(/-/g, '/').slice(5);
+      const roomLine = roomNames
+        ? `\n部屋: ${roomNames.get(reservationRoomId(data)) || reservationRoomId(data)}`
+        : '';
+
+      try {
+        await client.pushMessage(data.userId, {
+          type: 'text',
+          text: `⏰ まもなく利用時間です（あと${minutesUntilStart}分）\n\nバンド名: ${bandName}\n日時: ${displayDate} ${timePart}${roomLine}\n\n来られない場合は下のボタンから枠を辞退してください。キャンセル待ちのバンドに繰り上がります。`,
+          quickReply: {
+            items: [
+              {
+                type: 'action',
+                action: {
+                  type: 'postback',
+                  label: '🙅 辞退する',
+                  data: `action=release_slot&docId=${doc.id}`,
+                },
+              },
+            ],
+          },
+        });
+        sentCount++;
+      } catch (err) {
+        console.error(err);
+        // 次回の実行で再送できるように記録を戻す
+        await doc.ref.update({ remindedAt: admin.firestore.FieldValue.delete() });
+        failedCount++;
+      }
+    }
+
+    return res.status(200).json({
+      status: 'success',
+      date: todayStr,
+      reminderMinutes,
+      sent: sentCount,
+      failed: failedCount,
+    });
+
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({ status: 'error', error: error.message });
+  }
+}
@@ -0,0 +1,77 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import * as admin from 'firebase-admin';
+import { isDateString } from '../lib/validation';
+import { loadReservationsForExport, loadLotteryResultsForExport } from '../lib/export';
+import { computeUsageStats, renderStatsHtml, DEFAULT_STATS_DAYS, MAX_STATS_DAYS } from '../lib/stats';
+import { loadReservationSettings } from '../lib/settings';
+import { loadRooms } from '../lib/rooms';
+import { todayJST, addDays } from '../lib/schedule';
+import 'dotenv/config';
+
+// ---------------------------------------------------------
+// 1. 設定・初期化
+// ---------------------------------------------------------
+const privateKey = process.env.FIREBASE_PRIVATE_KEY
+  ? process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n')
+  : undefined;
+
+if (!admin.apps.length) {
+  if (!privateKey) throw new Error('FIREBASE_PRIVATE_KEY is missing');
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: privateKey,
+    }),
+  });
+}
+const db = admin.firestore();
+
+// ---------------------------------------------------------
+// 2. メイン処理
+// ---------------------------------------------------------
+// GET /api/stats?from=YYYY-MM-DD&to=YYYY-MM-DD&format=json|html
+// 枠ごとの応募状況（定員超過の回数・倍率）と、バンドごとの当選率・最下位の回数を返す
+// 抽選の公平性を誰でも確認できるよう、lottery-verify と同じく認証は不要（LINEのユーザーIDは含めない）
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const { from: fromParam, to: toParam } = req.query;
+  const format = req.query.format ?? 'json';
+
+  // 期間（デフォルト: 今日（JST）までの30日間）
+  const to = toParam === undefined ? todayJST() : toParam;
+  const from = fromParam === undefined && isDateString(to) ? addDays(to, -(DEFAULT_STATS_DAYS - 1)) : fromParam;
+
+  if (!isDateString(from) || !isDateString(to)) {
+    return res.status(400).json({ status: 'error', message: 'from and to must be in format: YYYY-MM-DD' });
+  }
+  if (from > to) {
+    return res.status(400).json({ status: 'error', message: 'from must be on or before to.' });
+  }
+  if (addDays(from, MAX_STATS_DAYS - 1) < to) {
+    return res.status(400).json({ status: 'error', message: `The range must be ${MAX_STATS_DAYS} days or less.` });
+  }
+  if (format !== 'json' && format !== 'html') {
+    return res.status(400).json({ status: 'error', message: 'format must be one of: json, html' });
+  }
+
+  try {
+    const [reservations, lotteryResults] = await Promise.all([
+      loadReservationsForExport(db, from, to),
+      loadLotteryResultsForExport(db, from, to),
+    ]);
+    const stats = computeUsageStats(from, to, reservations, lotteryResults);
+
+    if (format === 'html') {
+      const settings = await loadReservationSettings(db);
+      const rooms = await loadRooms(db, settings.timeSlots);
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      return res.status(200).send(renderStatsHtml(stats, new Map(rooms.map((room) => [room.id, room.name]))));
+    }
+
+    return res.status(200).json({ status: 'success', ...stats });
+
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({ status: 'error', error: error.message });
+  }
+}
@@ -1,6 +1,9 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import * as admin from 'firebase-admin';
 import { updateReservationStatus } from '../lib/update-reservation-status';
+import { loadReservationSettings } from '../lib/settings';
+import { lotteryTargetDate } from '../lib/schedule';
+import { loadRooms, roomsForDate } from '../lib/rooms';
 import 'dotenv/config';
 
 // ---------------------------------------------------------
@@ -33,28 +36,22 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
+    const settings = await loadReservationSettings(db);
+
     // 1. 対象の日付を決定
     let targetDateStr: string;
 
     if (date && typeof date === 'string') {
       targetDateStr = date;
     } else {
-      const now = new Date();
-      const jstOffset = 9 * 60 * 60 * 1000;
-      const nowJST = new Date(now.getTime() + jstOffset);
-      const targetDateJST = new Date(nowJST);
-      targetDateJST.setDate(targetDateJST.getDate() + 1); // 翌日
-      
-      const y = targetDateJST.getFullYear();
-      const m = ('0' + (targetDateJST.getMonth() + 1)).slice(-2);
-      const d = ('0' + targetDateJST.getDate()).slice(-2);
-      targetDateStr = `${y}-${m}-${d}`;
+      targetDateStr = lotteryTargetDate(settings);
     }
 
     console.log(`Updating reservation status for: ${targetDateStr}`);
 
     // 2. 抽選結果をreservationsに反映
-    const updatedCount = await updateReservationStatus(targetDateStr, db);
+    const rooms = roomsForDate(await loadRooms(db, settings.timeSlots), settings, targetDateStr);
+    const updatedCount = await updateReservationStatus(targetDateStr, db, rooms, settings.timeSlots);
 
     if (updatedCount === 0) {
       return res.status(200).json({ 
@@ -1,6 +1,53 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import * as line from '@line/bot-sdk';
 import * as admin from 'firebase-admin';
+import {
+  authorizeReservation,
+  updateOwnedReservation,
+  deleteOwnedReservation,
+  DELETABLE_STATUSES,
+} from '../lib/reservation-access';
+import { loadRooms, roomsForDate, reservationRoomId, DEFAULT_ROOM_ID, Room } from '../lib/rooms';
+import { recordReservationEvent, formatReservationEvent } from '../lib/reservation-events';
+import { checkRegistrationRules } from '../lib/registration-rules';
+import { loadUserBands, resolveBandForUser, getMemberBand, joinBandByInviteCode, findBandByName, bandFromDoc, normalizeBandName, Band } from '../lib/bands';
+import {
+  getCachedReservationSettings,
+  loadReservationSettings,
+  updateReservationSettings,
+  findOverlappingSlot,
+  timeSlotLabel,
+  ReservationSettings,
+  MAX_TIME_SLOTS,
+} from '../lib/settings';
+import {
+  availableDateList,
+  isLotteryWindow,
+  lotteryWindowLabel,
+  isOpenDate,
+  closedDateOf,
+  weekDayLabel,
+  hasSlotStarted,
+  todayJST,
+  addDays,
+  DateOption,
+} from '../lib/schedule';
+import {
+  loadUserStandingRequests,
+  createStandingRequest,
+  setStandingRequestStatus,
+  deleteStandingRequest,
+  describeStandingRequest,
+} from '../lib/standing-requests';
+import { findEmptySlots, claimEmptySlot } from '../lib/empty-slots';
+import { createSlotOffer, acceptSlotOffer, declineSlotOffer, describeSlotOffer, SlotOffer, SlotOfferType } from '../lib/slot-offers';
+import { postToBand } from '../lib/band';
+import { releaseReservation, fillReleasedSlot } from '../lib/release';
+import { getOrCreateCalendarToken, reissueCalendarToken, calendarFeedUrl } from '../lib/calendar';
+import { loadBandReservations, computeBandStats, isDrawnReservation, formatPercent } from '../lib/stats';
+import { isTimeRange } from '../lib/validation';
+import { slotView, sortBySlot, timeSlotsOfRoom } from '../lib/slots';
+import { handleEventOnce } from '../lib/webhook-events';
 import 'dotenv/config';
 
 // ---------------------------------------------------------
@@ -22,11 +69,16 @@ if (!admin.apps.length) {
 }
 const db = admin.firestore();
 
-const config = {
+const lineConfig = {
   channelAccessToken: process.env.LINE_CHANNEL_ACCESS_TOKEN!,
   channelSecret: process.env.LINE_CHANNEL_SECRET!,
 };
-const client = new line.Client(config);
+const client = new line.Client(lineConfig);
+
+// 署名検証には生のリクエストボディが必要なため、Vercelの自動パースを無効化
+export const config = {
+  api: { bodyParser: false },
+};
 
 // ---------------------------------------------------------
 // 2. メイン処理
@@ -37,8 +89,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const events: line.WebhookEvent[] = req.body.events;
-    const results = await Promise.all(events.map((event) => handleEvent(event)));
+    // 署名検証（x-line-signature と生ボディのHMACを照合）
+    const rawBody = await readRawBody(req);
+    const signature = req.headers['x-line-signature'];
+    if (
+      typeof signature !== 'string' ||
+      !line.validateSignature(rawBody, lineConfig.channelSecret, signature)
+    ) {
+      return res.status(401).json({ status: 'error', message: 'Invalid signature' });
+    }
+
+    const body = JSON.parse(rawBody.toString('utf8'));
+    const events: line.WebhookEvent[] = body.events || [];
+    const results = await Promise.all(events.map((event) => handleEventOnce(db, event, handleEvent)));
     return res.status(200).json({ status: 'success', results });
   } catch (error: any) {
     console.error(error);
@@ -46,6 +109,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 }
 
+// リクエストボディを加工せずに読み取る
+async function readRawBody(req: VercelRequest): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
 // ---------------------------------------------------------
 // 3. イベント分岐
 // ---------------------------------------------------------
@@ -68,17 +140,34 @@ const TRIGGER_WORDS = {
   CANCEL: ['キャンセル', 'やめる', '終了'],
   VIEW_ALL: ['全登録を見たい', '全予約', '一覧'],
   VIEW_MY: ['自分の登録を見たい', '自分の予約', 'マイ予約'],
+  HISTORY: ['履歴', '変更履歴'],
+  BANDS: ['バンド', 'マイバンド'],
+  JOIN: ['参加'], // 「参加 招待コード」
+  WEEKLY: ['毎週登録', '毎週'],
+  EMPTY_SLOTS: ['空き枠予約', '空き枠'],
+  CALENDAR: ['カレンダー', 'カレンダー連携'],
+  STATS: ['統計', '抽選成績'],
+  SETTINGS: ['設定', '予約設定'], // 管理者のみ
 };
 
+// 「履歴」で表示する件数
+const HISTORY_DISPLAY_COUNT = 10;
+
+// 「統計」で集計する日数と、バンドごとに表示する直近の抽選の件数
+const STATS_DAYS = 90;
+const STATS_RECENT_COUNT = 5;
+
 // 共通メッセージ
 const MESSAGES = {
   ERROR: 'エラーが発生しました。もう一度お試しください。',
   SESSION_EXPIRED: '⏰ 5分間経過したため、操作をキャンセルしました。\nもう一度お試しください。',
-  LOTTERY_TIME: '⚠️ 現在は20:50〜21:00の抽選集計時間のため、操作はできません。21:00以降にお試しください。',
   CAROUSEL_EXPIRED: '⏰ このボタンは有効期限切れです。',
   CAROUSEL_OUTDATED: '⚠️ このカルーセルは既に操作済みです。',
   CAROUSEL_REFRESH: '「自分の登録を見たい」と送って最新の一覧を取得してください。',
-  NO_AVAILABLE_DATES: '現在、予約可能な枠がありません。（直近の水・木・土のみ予約可能です）',
+  NO_AVAILABLE_DATES: '現在、予約可能な枠がありません。（登録可能な曜日・日付のみ予約可能です）',
+  NOT_BAND_MEMBER: '⚠️ このバンドのメンバーではありません。\nもう一度「登録したい」と送ってください。',
+  NOT_SETTINGS_ADMIN: '⚠️ 設定の変更は管理者のみ利用できます。',
+  SETTINGS_CONFLICT: '⚠️ 他の管理者が設定を変更しました。最新の設定を表示します。\n\n',
 };
 
 const SESSION_TIMEOUT_MINUTES = 5;
@@ -189,83 +278,60 @@ async function checkButtonAndGetErrorReply(
 // クイックリプライ状態の一元管理
 // ---------------------------------------------------------
 
-// 設定キャッシュ（パフォーマンス向上のため）
-let configCache: {
-  availableDays: number[];
-  timeSlots: { label: string; value: string }[];
-  lastFetched: number;
-} | null = null;
-
-const CONFIG_CACHE_TTL = 5 * 60 * 1000; // 5分間キャッシュ
+// 設定を取得（キャッシュ付き、変更は version で検知して読み直す）
+async function getConfig(): Promise<ReservationSettings> {
+  return getCachedReservationSettings(db);
+}
 
-// Firestoreから設定を取得（キャッシュ付き）
-async function getConfig(): Promise<{
-  availableDays: number[];
-  timeSlots: { label: string; value: string }[];
-}> {
-  const now = Date.now();
+// 時間枠を取得するヘルパー関数
+async function getTimeSlots(): Promise<{ label: string; value: string }[]> {
+  const config = await getConfig();
+  return config.timeSlots;
+}
 
-  // キャッシュが有効ならそれを返す
-  if (configCache && (now - configCache.lastFetched) < CONFIG_CACHE_TTL) {
-    return {
-      availableDays: configCache.availableDays,
-      timeSlots: configCache.timeSlots,
-    };
-  }
+// 部屋一覧キャッシュ（5分間、設定の version が変わったら読み直す）
+const ROOMS_CACHE_TTL = 5 * 60 * 1000;
+let roomsCache: { rooms: Room[]; lastFetched: number; settingsVersion: number } | null = null;
 
-  // Firestoreから取得
-  const configDoc = await db.collection('settings').doc('reservation').get();
-
-  if (configDoc.exists) {
-    const data = configDoc.data()!;
-    configCache = {
-      availableDays: data.availableDays || [3, 4, 6],
-      timeSlots: data.timeSlots || [
-        { label: '9:00~10:00', value: '09:00-10:00' },
-        { label: '10:00~12:00', value: '10:00-12:00' },
-        { label: '12:00~14:00', value: '12:00-14:00' },
-        { label: '14:00~16:00', value: '14:00-16:00' },
-        { label: '16:00~18:00', value: '16:00-18:00' },
-        { label: '18:00~20:00', value: '18:00-20:00' },
-      ],
-      lastFetched: now,
-    };
-  } else {
-    // 設定がない場合はデフォルト値を使用（初回はFirestoreに保存）
-    const defaultConfig = {
-      availableDays: [3, 4, 6], // 水・木・土
-      timeSlots: [
-        { label: '9:00~10:00', value: '09:00-10:00' },
-        { label: '10:00~12:00', value: '10:00-12:00' },
-        { label: '12:00~14:00', value: '12:00-14:00' },
-        { label: '14:00~16:00', value: '14:00-16:00' },
-        { label: '16:00~18:00', value: '16:00-18:00' },
-        { label: '18:00~20:00', value: '18:00-20:00' },
-      ],
-    };
-    await db.collection('settings').doc('reservation').set(defaultConfig);
-    configCache = {
-      ...defaultConfig,
-      lastFetched: now,
-    };
+// 部屋一覧を取得するヘルパー関数（部屋ごとの時間枠が未設定なら共通の時間枠を使う）
+// datePart を指定すると、臨時開室日の時間枠を反映する
+async function getRooms(datePart?: string): Promise<Room[]> {
+  const now = Date.now();
+  const config = await getConfig();
+  if (!roomsCache || (now - roomsCache.lastFetched) >= ROOMS_CACHE_TTL || roomsCache.settingsVersion !== config.version) {
+    roomsCache = { rooms: await loadRooms(db, config.timeSlots), lastFetched: now, settingsVersion: config.version };
   }
-
-  return {
-    availableDays: configCache.availableDays,
-    timeSlots: configCache.timeSlots,
-  };
+  return datePart ? roomsForDate(roomsCache.rooms, config, datePart) : roomsCache.rooms;
 }
 
-// 時間枠を取得するヘルパー関数
-async function getTimeSlots(): Promise<{ label: string; value: string }[]> {
+// 日付選択に添える休室日・臨時開室日のお知らせ（選択肢の期間内のもの。なければ空文字）
+async function getDateOverrideNotes(availableDates: DateOption[]): Promise<string> {
   const config = await getConfig();
-  return config.timeSlots;
+  const first = availableDates[0].value;
+  const last = availableDates[availableDates.length - 1].value;
+  const display = (datePart: string) => datePart.replace(/-/g, '/').slice(5);
+
+  const lines = [
+    ...config.closedDates
+      .filter((closed) => closed.date >= first && closed.date <= last)
+      .map((closed) => ({ date: closed.date, text: `🚫 ${display(closed.date)} は休室日です（${closed.reason}）` })),
+    ...config.specialOpenings
+      .filter((opening) => availableDates.some((d) => d.value === opening.date))
+      .map((opening) => ({ date: opening.date, text: `✨ ${display(opening.date)} は臨時開室日です${opening.reason ? `（${opening.reason}）` : ''}` })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  return lines.length > 0 ? `${lines.map((l) => l.text).join('\n')}\n\n` : '';
 }
 
-// 登録可能な曜日を取得するヘルパー関数
-async function getAvailableDays(): Promise<number[]> {
+// 登録できない日（休室日・登録可能日以外）ならその旨のメッセージ、登録できる日ならnull
+async function getClosedDateMessage(datePart: string): Promise<string | null> {
   const config = await getConfig();
-  return config.availableDays;
+  if (isOpenDate(config, datePart)) return null;
+  const closed = closedDateOf(config, datePart);
+  const displayDate = datePart.replace(/-/g, '/').slice(5);
+  return closed
+    ? `⚠️ ${displayDate} は休室日（${closed.reason}）のため予約できません。`
+    : `⚠️ ${displayDate} は予約できない日です。`;
 }
 
 // 進行中の操作があれば、クイックリプライを再表示するメッセージを作成
@@ -344,6 +410,39 @@ async function handleTextEvent(event: line.MessageEvent) {
     return handleViewMyReservations(event, userId);
   }
 
+  if (TRIGGER_WORDS.HISTORY.includes(userText)) {
+    return handleViewHistory(event, userId);
+  }
+
+  if (TRIGGER_WORDS.BANDS.includes(userText)) {
+    return handleViewBands(event, userId);
+  }
+
+  if (TRIGGER_WORDS.WEEKLY.includes(userText)) {
+    return handleViewStandingRequests(event, userId);
+  }
+
+  if (TRIGGER_WORDS.EMPTY_SLOTS.includes(userText)) {
+    return handleEmptySlotRequest(event, userId);
+  }
+
+  if (TRIGGER_WORDS.CALENDAR.includes(userText)) {
+    return handleCalendarRequest(event, userId);
+  }
+
+  if (TRIGGER_WORDS.STATS.includes(userText)) {
+    return handleViewStats(event, userId);
+  }
+
+  if (TRIGGER_WORDS.SETTINGS.includes(userText)) {
+    return handleSettingsRequest(event, userId);
+  }
+
+  const [command, inviteCode] = userText.trim().split(/\s+/);
+  if (TRIGGER_WORDS.JOIN.includes(command) && inviteCode) {
+    return handleJoinBand(event, userId, inviteCode);
+  }
+
   // それ以外（状態なし＆予約語でもない）
   return Promise.resolve(null);
 }
@@ -358,6 +457,11 @@ async function handleCancelRequest(event: line.MessageEvent, userId: string) {
     editSelectedDate: admin.firestore.FieldValue.delete(),
     deletingDocId: admin.firestore.FieldValue.delete(),
     deletingBandName: admin.firestore.FieldValue.delete(),
+    releasingDocId: admin.firestore.FieldValue.delete(),
+    releasingBandName: admin.firestore.FieldValue.delete(),
+    offeringDocId: admin.firestore.FieldValue.delete(),
+    offerType: admin.firestore.FieldValue.delete(),
+    settingsVersion: admin.firestore.FieldValue.delete(),
     pendingQuickReply: admin.firestore.FieldValue.delete(),
     quickReplyStartTime: admin.firestore.FieldValue.delete(),
   }, { merge: true });
@@ -408,140 +512,100 @@ async function handleViewAllRequest(event: line.MessageEvent, userId: string) {
   });
 }
 
-// 自分の登録表示の処理
-async function handleViewMyReservations(event: line.MessageEvent | line.PostbackEvent, userId: string, page: number = 0, originalTs?: number) {
+// カレンダー連携: 自分と自分のバンドの確定した予約の iCalendar フィードのURLを返す
+async function handleCalendarRequest(event: line.MessageEvent, userId: string) {
   try {
-    // インデックスなしでも動くようにorderByを削除し、クライアント側でソート
-    const snapshot = await db.collection('reservations')
-      .where('userId', '==', userId)
-      .get();
-
-    if (snapshot.empty) {
-      return client.replyMessage(event.replyToken, {
-        type: 'text',
-        text: '📝 あなたの登録はまだありません。',
-      });
-    }
-
-    // 今日の日付を取得（JST）
-    const now = new Date();
-    const jstOffset = 9 * 60 * 60 * 1000;
-    const nowJST = new Date(now.getTime() + jstOffset);
-    const todayStr = `${nowJST.getUTCFullYear()}-${('0' + (nowJST.getUTCMonth() + 1)).slice(-2)}-${('0' + nowJST.getUTCDate()).slice(-2)}`;
-
-    // 今日以降の予約のみフィルタリングして日付でソート
-    const sortedDocs = snapshot.docs
-      .filter((doc) => {
-        const date = doc.data().date || '';
-        const datePart = date.split('T')[0]; // "2023-12-20"
-        return datePart >= todayStr;
-      })
-      .sort((a, b) => {
-        const dateA = a.data().date || '';
-        const dateB = b.data().date || '';
-        return dateA.localeCompare(dateB);
-      });
+    const token = await getOrCreateCalendarToken(db, userId);
+    return client.replyMessage(event.replyToken, calendarFeedMessage(token));
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
 
-    if (sortedDocs.length === 0) {
-      return client.replyMessage(event.replyToken, {
-        type: 'text',
-        text: '📝 あなたの登録はまだありません。',
-      });
-    }
+// カレンダー連携: URLを再発行する（古いURLは使えなくなる）
+async function handleReissueCalendar(event: line.PostbackEvent) {
+  const userId = event.source.userId!;
+  try {
+    const token = await reissueCalendarToken(db, userId);
+    return client.replyMessage(event.replyToken, calendarFeedMessage(token, '🔄 カレンダーのURLを再発行しました。以前のURLは使えなくなります。\n\n'));
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
 
-    const totalCount = sortedDocs.length;
-    const startIndex = page * 9; // 9件ずつ表示（さらに表示ボタン用に1枠確保）
-    const endIndex = Math.min(startIndex + 9, totalCount);
-    const hasMore = endIndex < totalCount;
+// カレンダーのフィードのURLを知らせるメッセージ
+function calendarFeedMessage(token: string, prefix: string = ''): line.Message {
+  const url = calendarFeedUrl(token);
+  if (!url) {
+    return {
+      type: 'text',
+      text: '⚠️ カレンダー連携は現在利用できません。（管理者がURLを設定していません）',
+    };
+  }
+  return {
+    type: 'text',
+    text: `${prefix}📆 あなたとバンドの確定した予約のカレンダー\n${url}\n\nGoogleカレンダーなどの「URLで追加」に貼り付けると、確定した枠が自動で表示されます。\n※ URLを知っている人は誰でも予定を見られます。他の人に知られた場合は再発行してください。`,
+    quickReply: {
+      items: [
+        {
+          type: 'action',
+          action: {
+            type: 'postback',
+            label: '🔄 URLを再発行',
+            data: 'action=calendar_reissue',
+          },
+        },
+      ],
+    },
+  };
+}
 
-    // 該当ページのデータがない場合
-    if (startIndex >= totalCount) {
+// 統計: 自分のバンドの抽選成績（当選率・最下位の回数・直近の結果）
+async function handleViewStats(event: line.MessageEvent, userId: string) {
+  try {
+    const bands = await loadUserBands(db, userId);
+    if (bands.length === 0) {
       return client.replyMessage(event.replyToken, {
         type: 'text',
-        text: 'これ以上の登録はありません。',
+        text: '参加しているバンドがありません。\n「登録したい」からバンドを作成するか、「参加 招待コード」でバンドに参加してください。',
       });
     }
 
-    // カルーセル生成時刻（元のタイムスタンプがあればそれを使用）
-    const carouselCreatedAt = originalTs ?? Date.now();
-    const isLottery = await isLotteryTime();
-
-    // カルーセルのカラムを作成（最大9件 + さらに表示で合計10件以内）
-    const columns: line.TemplateColumn[] = sortedDocs.slice(startIndex, endIndex).map((doc) => {
-      const data = doc.data();
-      const docId = doc.id;
-      const bandName = data.bandName || '(バンド名なし)';
-      const dateTime = data.date; // "2023-12-20T09:00-10:00"
-      const [datePart, timePart] = dateTime.split('T');
-      const displayDate = datePart.replace(/-/g, '/').slice(5); // "12/20"
-      const status = data.status === 'confirmed' ? '✅確定' : '⏳抽選待ち';
-      const isConfirmed = data.status === 'confirmed';
-
-      // 抽選時間中または抽選済みはボタンなし（閲覧専用）
-      const actions: line.Action[] = isLottery
-        ? [
-          { type: 'postback' as const, label: '─', data: 'action=noop' },
-          { type: 'postback' as const, label: '🔒 抽選中', data: 'action=noop' },
-          { type: 'postback' as const, label: '─', data: 'action=noop' },
-        ]
-        : isConfirmed
-          ? [
-            { type: 'postback' as const, label: '─', data: 'action=noop' },
-            { type: 'postback' as const, label: '🔒 抽選済み', data: 'action=noop' },
-            { type: 'postback' as const, label: '─', data: 'action=noop' },
-          ]
-          : [
-            {
-              type: 'postback' as const,
-              label: '✏️ バンド名を編集',
-              data: `action=edit_reservation&docId=${docId}&ts=${carouselCreatedAt}`,
-            },
-            {
-              type: 'postback' as const,
-              label: '📅 日時を編集',
-              data: `action=edit_datetime&docId=${docId}&ts=${carouselCreatedAt}`,
-            },
-            {
-              type: 'postback' as const,
-              label: '🗑️ 削除する',
-              data: `action=confirm_delete&docId=${docId}&band=${encodeURIComponent(bandName)}&ts=${carouselCreatedAt}`,
-            },
-          ];
-
-      return {
-        title: bandName.slice(0, 40), // タイトルは40文字まで
-        text: `📅 ${displayDate} ${timePart}\n${status}`,
-        actions: actions,
-      };
+    const from = addDays(todayJST(), -STATS_DAYS);
+    const reservations = await loadBandReservations(db, bands.map((band) => band.id), from);
+    const statsByBand = new Map(computeBandStats(reservations).map((stats) => [stats.bandKey, stats]));
+
+    const sections = bands.map((band) => {
+      const stats = statsByBand.get(band.id);
+      if (!stats) return `🎸 ${band.name}\nまだ抽選の記録はありません。`;
+
+      const recent = reservations
+        .filter((r) => r.bandId === band.id && isDrawnReservation(r))
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .slice(0, STATS_RECENT_COUNT)
+        .map((r) => {
+          const status = r.status === 'confirmed' ? '✅' : r.status === 'released' ? '🙅' : '🕒';
+          return `・${formatSlot(r.date)} ${r.lotteryRank}/${r.lotteryTotal}位 ${status}`;
+        });
+
+      return [
+        `🎸 ${band.name}`,
+        `応募 ${stats.entries}回 / 当選 ${stats.wins}回（${formatPercent(stats.winRate)}）/ 最下位 ${stats.lastPlaces}回`,
+        ...recent,
+      ].join('\n');
     });
 
-    // まだ残りがある場合は「さらに表示」カラムを追加（抽選時間中も有効）
-    if (hasMore) {
-      const remainingCount = totalCount - endIndex;
-      columns.push({
-        title: `さらに表示 (${remainingCount}件)`,
-        text: `残り${remainingCount}件の登録があります`,
-        actions: [
-          {
-            type: 'postback' as const,
-            label: '➡️ 次を見る',
-            data: `action=view_my_more&page=${page + 1}&ts=${carouselCreatedAt}`,
-          },
-          { type: 'postback' as const, label: '─', data: 'action=noop' },
-          { type: 'postback' as const, label: '─', data: 'action=noop' },
-        ],
-      });
-    }
-
-    const pageInfo = totalCount > 9 ? ` (${startIndex + 1}-${endIndex}/${totalCount}件)` : '';
-
     return client.replyMessage(event.replyToken, {
-      type: 'template',
-      altText: `あなたの登録一覧${pageInfo}`,
-      template: {
-        type: 'carousel',
-        columns: columns,
-      },
+      type: 'text',
+      text: `📊 あなたのバンドの抽選成績（直近${STATS_DAYS}日）\n\n${sections.join('\n\n')}\n\n✅確定 🕒キャンセル待ち 🙅辞退\n※ 保存されている予約の記録から集計しています`,
     });
   } catch (err) {
     console.error(err);
@@ -552,335 +616,2584 @@ async function handleViewMyReservations(event: line.MessageEvent | line.Postback
   }
 }
 
-// 登録リクエストの処理
-async function handleRegisterRequest(event: line.MessageEvent, userId: string) {
-  if (await isLotteryTime()) {
+// 設定（管理者のみ）: 登録可能な曜日と時間枠の変更
+async function handleSettingsRequest(event: line.MessageEvent, userId: string) {
+  try {
+    const access = await loadSettingsForAdmin(userId, null);
+    return client.replyMessage(event.replyToken, access.ok ? settingsMenuMessage(access.settings) : access.message);
+  } catch (err) {
+    console.error(err);
     return client.replyMessage(event.replyToken, {
       type: 'text',
-      text: '⚠️ 現在は20:50〜21:00の抽選集計時間のため、予約操作はできません。21:00以降にお試しください。',
+      text: MESSAGES.ERROR,
     });
   }
-
-  await db.collection('states').doc(userId).set({
-    status: 'WAITING_BAND_NAME',
-    createdAt: new Date(),
-    lastButtonPressTs: Date.now(),
-  });
-
-  return client.replyMessage(event.replyToken, {
-    type: 'text',
-    text: '登録する【バンド名】を入力してください。\n(中断する場合は「キャンセル」と送ってください)',
-  });
 }
 
-// その他の入力処理（状態に応じた処理）
-// stateSnapを引数で受け取ることで、重複したDB読み取りを避ける
-async function handleOtherInput(
-  event: line.MessageEvent,
+// 設定の操作の共通チェック（管理者か、メニューを表示したときから設定が変わっていないか）
+// 権限の確認と表示には、キャッシュではなく最新の設定を使う
+async function loadSettingsForAdmin(
   userId: string,
-  userText: string,
-  stateSnap?: FirebaseFirestore.DocumentSnapshot
-) {
-  // stateSnapが渡されていない場合は取得
-  if (!stateSnap) {
-    stateSnap = await db.collection('states').doc(userId).get();
+  expectedVersion: string | number | null
+): Promise<{ ok: true; settings: ReservationSettings } | { ok: false; message: line.Message }> {
+  const settings = await loadReservationSettings(db);
+  if (!settings.adminUserIds.includes(userId)) {
+    return { ok: false, message: { type: 'text', text: MESSAGES.NOT_SETTINGS_ADMIN } };
   }
-
-  if (!stateSnap.exists) {
-    return Promise.resolve(null);
+  if (expectedVersion !== null && Number(expectedVersion) !== settings.version) {
+    return { ok: false, message: settingsMenuMessage(settings, MESSAGES.SETTINGS_CONFLICT) };
   }
+  return { ok: true, settings };
+}
 
-  const stateData = stateSnap.data();
-
-  // タイムアウトチェック
-  if (stateData && stateData.createdAt) {
-    const createdAt = stateData.createdAt.toDate().getTime();
-    if (isSessionExpired(createdAt)) {
-      // 特定フィールドのみ削除（lastViewMyCarouselTs、lastViewMyMorePage、lastButtonPressTsは保持）
-      await db.collection('states').doc(userId).set({
-        status: admin.firestore.FieldValue.delete(),
-        createdAt: admin.firestore.FieldValue.delete(),
-        editingDocId: admin.firestore.FieldValue.delete(),
-        editSelectedDate: admin.firestore.FieldValue.delete(),
-        deletingDocId: admin.firestore.FieldValue.delete(),
-        deletingBandName: admin.firestore.FieldValue.delete(),
-        pendingQuickReply: admin.firestore.FieldValue.delete(),
-        quickReplyStartTime: admin.firestore.FieldValue.delete(),
-      }, { merge: true });
-      return client.replyMessage(event.replyToken, {
-        type: 'text',
-        text: '⏰ 5分間経過したため、登録をキャンセルしました。\nもう一度「登録したい」と送ってください。',
-      });
+// 設定の変更結果を返信する（他の管理者と同時に変更した場合は最新の設定を表示する）
+async function replySettingsUpdate(
+  event: line.MessageEvent | line.PostbackEvent,
+  userId: string,
+  updates: { [key: string]: any },
+  expectedVersion: number | undefined,
+  successText: string
+) {
+  const result = await updateReservationSettings(db, updates, { actor: `line:${userId}`, expectedVersion });
+  if (!result.ok) {
+    if (result.reason === 'conflict') {
+      return client.replyMessage(event.replyToken, settingsMenuMessage(result.settings, MESSAGES.SETTINGS_CONFLICT));
     }
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: `⚠️ 設定を保存できませんでした。\n${result.errors.join('\n')}`,
+    });
   }
+  return client.replyMessage(event.replyToken, settingsMenuMessage(result.settings, `${successText}\n\n`));
+}
 
-  // 予約語が入力された場合の警告（テキスト入力待ち状態で）
-  const isReservedWord = [
-    ...TRIGGER_WORDS.REGISTER,
-    ...TRIGGER_WORDS.VIEW_ALL,
-    ...TRIGGER_WORDS.VIEW_MY,
-  ].includes(userText);
+// 現在の設定と変更ボタン（クイックリプライ）
+// ボタンには表示した時点の version を持たせ、押したときに変わっていれば変更しない
+function settingsMenuMessage(settings: ReservationSettings, prefix: string = ''): line.Message {
+  const days = [...settings.availableDays].sort((a, b) => a - b).map((d) => weekDayLabel(d)).join('・') || 'なし';
+  const slots = settings.timeSlots.map((slot) => `・${slot.label}`).join('\n');
+  const v = settings.version;
 
-  // バンド名入力待ちの場合
-  if (stateData && stateData.status === 'WAITING_BAND_NAME') {
-    // 予約語が入力された場合は警告
-    if (isReservedWord) {
-      return client.replyMessage(event.replyToken, {
-        type: 'text',
-        text: `⚠️「${userText}」は予約語のため、バンド名として使用できません。\n\n別のバンド名を入力してください。\n(中断する場合は「キャンセル」と送ってください)`,
-      });
+  const dayItems: line.QuickReplyItem[] = [0, 1, 2, 3, 4, 5, 6].map((day) => ({
+    type: 'action',
+    action: {
+      type: 'postback',
+      label: `${settings.availableDays.includes(day) ? '✅' : '⬜'}${weekDayLabel(day)}曜`,
+      data: `action=settings_day&day=${day}&v=${v}`,
+    },
+  }));
+
+  return {
+    type: 'text',
+    text: `${prefix}⚙️ 予約設定（version ${v}）\n\n📅 登録可能な曜日: ${days}\n⏰ 時間枠:\n${slots}\n\n曜日のボタンを押すと、登録可能な曜日を切り替えます。\n※ 変更前に登録された予約はそのまま残ります`,
+    quickReply: {
+      items: [
+        ...dayItems,
+        { type: 'action', action: { type: 'postback', label: '➕ 時間枠を追加', data: `action=settings_add_slot&v=${v}` } },
+        { type: 'action', action: { type: 'postback', label: '➖ 時間枠を削除', data: `action=settings_remove_menu&v=${v}` } },
+        { type: 'action', action: { type: 'postback', label: '🔄 全体に反映', data: 'action=settings_reload' } },
+      ],
+    },
+  };
+}
+
+// 設定: 曜日の切り替え
+async function handleSettingsToggleDay(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const userId = event.source.userId!;
+  const day = Number(params.get('day'));
+
+  try {
+    const access = await loadSettingsForAdmin(userId, params.get('v'));
+    if (!access.ok) {
+      return client.replyMessage(event.replyToken, access.message);
+    }
+    const { settings } = access;
+
+    const enabled = settings.availableDays.includes(day);
+    const availableDays = enabled
+      ? settings.availableDays.filter((d) => d !== day)
+      : [...settings.availableDays, day].sort((a, b) => a - b);
+    if (availableDays.length === 0) {
+      return client.replyMessage(event.replyToken, settingsMenuMessage(settings, '⚠️ 登録可能な曜日を0日にはできません。\n\n'));
     }
 
-    const bandName = userText;
-    const startTime = stateData.createdAt.toDate().getTime(); // 開始時刻を取得
+    return replySettingsUpdate(event, userId, { availableDays }, settings.version,
+      enabled ? `✅ ${weekDayLabel(day)}曜を登録可能な曜日から外しました。` : `✅ ${weekDayLabel(day)}曜を登録可能にしました。`);
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// 設定: 時間枠の追加（時間の入力を待つ）
+async function handleSettingsAddSlot(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const userId = event.source.userId!;
+
+  try {
+    const access = await loadSettingsForAdmin(userId, params.get('v'));
+    if (!access.ok) {
+      return client.replyMessage(event.replyToken, access.message);
+    }
+    if (access.settings.timeSlots.length >= MAX_TIME_SLOTS) {
+      return client.replyMessage(event.replyToken, settingsMenuMessage(access.settings, `⚠️ 時間枠は${MAX_TIME_SLOTS}個までです。\n追加する前に不要な時間枠を削除してください。\n\n`));
+    }
+
+    await db.collection('states').doc(userId).set({
+      status: 'WAITING_SETTINGS_SLOT',
+      settingsVersion: access.settings.version,
+      createdAt: new Date(),
+    }, { merge: true });
+
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: '追加する時間枠を「18:00-20:00」の形式で入力してください。\n(中断する場合は「キャンセル」と送ってください)',
+    });
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// 設定: 入力された時間枠を追加する
+async function handleSettingsSlotInput(event: line.MessageEvent, userId: string, userText: string, expectedVersion: number) {
+  const value = userText.trim().replace(/[~〜～]/g, '-');
+  if (!isTimeRange(value)) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: '⚠️ 時間枠は「18:00-20:00」の形式で入力してください（開始は終了より前）。\n(中断する場合は「キャンセル」と送ってください)',
+    });
+  }
 
-    const availableDates = await getAvailableDateList();
+  try {
+    const access = await loadSettingsForAdmin(userId, expectedVersion);
+    if (!access.ok) {
+      await clearSettingsState(userId);
+      return client.replyMessage(event.replyToken, access.message);
+    }
+    const { settings } = access;
 
-    if (availableDates.length === 0) {
+    const overlapping = findOverlappingSlot(settings.timeSlots, value);
+    if (overlapping) {
       return client.replyMessage(event.replyToken, {
         type: 'text',
-        text: MESSAGES.NO_AVAILABLE_DATES,
+        text: `⚠️ 既存の時間枠「${overlapping.label}」と重なっています。\n別の時間を入力してください。\n(中断する場合は「キャンセル」と送ってください)`,
       });
     }
 
-    // 開始時刻をpostbackデータに埋め込む
-    const quickReplyItems: line.QuickReplyItem[] = availableDates.map((d) => ({
+    await clearSettingsState(userId);
+    const timeSlots = [...settings.timeSlots, { label: timeSlotLabel(value), value }]
+      .sort((a, b) => a.value.localeCompare(b.value));
+    return replySettingsUpdate(event, userId, { timeSlots }, settings.version, `✅ 時間枠「${timeSlotLabel(value)}」を追加しました。`);
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// 時間枠の入力待ちの状態の特定フィールドのみ削除
+async function clearSettingsState(userId: string) {
+  await db.collection('states').doc(userId).set({
+    status: admin.firestore.FieldValue.delete(),
+    settingsVersion: admin.firestore.FieldValue.delete(),
+    createdAt: admin.firestore.FieldValue.delete(),
+  }, { merge: true });
+}
+
+// 設定: 削除する時間枠の選択
+async function handleSettingsRemoveMenu(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const userId = event.source.userId!;
+
+  try {
+    const access = await loadSettingsForAdmin(userId, params.get('v'));
+    if (!access.ok) {
+      return client.replyMessage(event.replyToken, access.message);
+    }
+    const { settings } = access;
+
+    if (settings.timeSlots.length <= 1) {
+      return client.replyMessage(event.replyToken, settingsMenuMessage(settings, '⚠️ 時間枠が1つのため削除できません。\n\n'));
+    }
+
+    // クイックリプライは13個まで
+    const items: line.QuickReplyItem[] = settings.timeSlots.slice(0, 13).map((slot) => ({
       type: 'action',
       action: {
         type: 'postback',
-        label: d.label,
-        data: `action=select_date&date=${d.value}&band=${encodeURIComponent(bandName)}&start=${startTime}`,
+        label: slot.label.slice(0, 20),
+        data: `action=settings_remove_slot&value=${slot.value}&v=${settings.version}`,
       },
     }));
 
-    // 状態を更新（lastButtonPressTsは保持、クイックリプライ情報を保存）
-    await db.collection('states').doc(userId).set({
-      status: admin.firestore.FieldValue.delete(),
-      createdAt: admin.firestore.FieldValue.delete(),
-      pendingQuickReply: quickReplyItems,
-      quickReplyStartTime: startTime,
-    }, { merge: true });
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: '削除する時間枠を選択してください👇\n※ この時間枠に登録済みの予約はそのまま残ります',
+      quickReply: { items },
+    });
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// 設定: 時間枠の削除
+async function handleSettingsRemoveSlot(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const userId = event.source.userId!;
+  const value = params.get('value');
+
+  try {
+    const access = await loadSettingsForAdmin(userId, params.get('v'));
+    if (!access.ok) {
+      return client.replyMessage(event.replyToken, access.message);
+    }
+    const { settings } = access;
+
+    const removed = settings.timeSlots.find((slot) => slot.value === value);
+    if (!removed || settings.timeSlots.length <= 1) {
+      return client.replyMessage(event.replyToken, settingsMenuMessage(settings, '⚠️ この時間枠は削除できません。\n\n'));
+    }
+
+    const timeSlots = settings.timeSlots.filter((slot) => slot.value !== value);
+    return replySettingsUpdate(event, userId, { timeSlots }, settings.version, `✅ 時間枠「${removed.label}」を削除しました。`);
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// 設定: version だけを上げて、すべてのインスタンスのキャッシュを読み直させる（Firestoreを直接編集した後など）
+async function handleSettingsReload(event: line.PostbackEvent) {
+  const userId = event.source.userId!;
+
+  try {
+    const access = await loadSettingsForAdmin(userId, null);
+    if (!access.ok) {
+      return client.replyMessage(event.replyToken, access.message);
+    }
+    return replySettingsUpdate(event, userId, {}, undefined, '🔄 最新の設定をすべての処理に反映するようにしました。（反映まで最大15秒ほどかかります）');
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// 変更履歴の表示（自分と自分のバンドの登録に対する操作を新しい順に）
+async function handleViewHistory(event: line.MessageEvent, userId: string) {
+  try {
+    // インデックスなしでも動くようにorderByを使わず、クライアント側でソート
+    const snapshot = await db.collection('reservation_events')
+      .where('userId', '==', userId)
+      .get();
+
+    // 自分のバンドの登録に対する操作も含める（in クエリは30件まで）
+    const bandIds = (await loadUserBands(db, userId)).map((band) => band.id);
+    const eventsById = new Map(snapshot.docs.map((doc) => [doc.id, doc.data()]));
+    for (let i = 0; i < bandIds.length; i += 30) {
+      const bandSnapshot = await db.collection('reservation_events')
+        .where('bandId', 'in', bandIds.slice(i, i + 30))
+        .get();
+      bandSnapshot.docs.forEach((doc) => eventsById.set(doc.id, doc.data()));
+    }
+
+    if (eventsById.size === 0) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: '変更履歴はありません。',
+      });
+    }
+
+    const events = Array.from(eventsById.values())
+      .sort((a, b) => b.at.toMillis() - a.at.toMillis())
+      .slice(0, HISTORY_DISPLAY_COUNT);
+
+    const lines = events.map((e) => `・${formatReservationEvent(e, userId)}`);
+    const moreNote = eventsById.size > HISTORY_DISPLAY_COUNT
+      ? `\n\n※ 直近${HISTORY_DISPLAY_COUNT}件を表示しています（全${eventsById.size}件）`
+      : '';
+
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: `📜 あなたとバンドの登録の変更履歴\n\n${lines.join('\n')}${moreNote}`,
+    });
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// 自分の登録表示の処理
+async function handleViewMyReservations(event: line.MessageEvent | line.PostbackEvent, userId: string, page: number = 0, originalTs?: number) {
+  try {
+    // インデックスなしでも動くようにorderByを削除し、クライアント側でソート
+    const snapshot = await db.collection('reservations')
+      .where('userId', '==', userId)
+      .get();
+
+    // 自分のバンドの登録（他のメンバーが登録したもの）も含める（in クエリは30件まで）
+    const bandIds = (await loadUserBands(db, userId)).map((band) => band.id);
+    const docsById = new Map(snapshot.docs.map((doc) => [doc.id, doc]));
+    for (let i = 0; i < bandIds.length; i += 30) {
+      const bandSnapshot = await db.collection('reservations')
+        .where('bandId', 'in', bandIds.slice(i, i + 30))
+        .get();
+      bandSnapshot.docs.forEach((doc) => docsById.set(doc.id, doc));
+    }
+    const allDocs = Array.from(docsById.values());
+
+    if (allDocs.length === 0) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: '📝 あなたの登録はまだありません。',
+      });
+    }
+
+    // 今日の日付を取得（JST）
+    const todayStr = todayJST();
+
+    // 今日以降の予約のみフィルタリングして日付でソート（辞退した枠は除く）
+    const sortedDocs = allDocs
+      .filter((doc) => {
+        if (doc.data().status === 'released') return false;
+        const date = doc.data().date || '';
+        const datePart = date.split('T')[0]; // "2023-12-20"
+        return datePart >= todayStr;
+      })
+      .sort((a, b) => {
+        const dateA = a.data().date || '';
+        const dateB = b.data().date || '';
+        return dateA.localeCompare(dateB);
+      });
+
+    if (sortedDocs.length === 0) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: '📝 あなたの登録はまだありません。',
+      });
+    }
+
+    const totalCount = sortedDocs.length;
+    const startIndex = page * 9; // 9件ずつ表示（さらに表示ボタン用に1枠確保）
+    const endIndex = Math.min(startIndex + 9, totalCount);
+    const hasMore = endIndex < totalCount;
+
+    // 該当ページのデータがない場合
+    if (startIndex >= totalCount) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: 'これ以上の登録はありません。',
+      });
+    }
+
+    // カルーセル生成時刻（元のタイムスタンプがあればそれを使用）
+    const carouselCreatedAt = originalTs ?? Date.now();
+    const isLottery = await isLotteryTime();
+
+    // 部屋が複数ある場合は部屋名も表示
+    const rooms = await getRooms();
+    const roomNames = new Map(rooms.map((room) => [room.id, room.name]));
+    const config = await getConfig();
+
+    // カルーセルのカラムを作成（最大9件 + さらに表示で合計10件以内）
+    const columns: line.TemplateColumn[] = sortedDocs.slice(startIndex, endIndex).map((doc) => {
+      const data = doc.data();
+      const docId = doc.id;
+      const bandName = data.bandName || '(バンド名なし)';
+      const dateTime = data.date; // "2023-12-20T09:00-10:00"
+      const [datePart, timePart] = dateTime.split('T');
+      const displayDate = datePart.replace(/-/g, '/').slice(5); // "12/20"
+      const timeLabel = slotView(timeSlotsOfRoom(roomsForDate(rooms, config, datePart), reservationRoomId(data), config.timeSlots), timePart).label;
+      const status = data.status === 'confirmed'
+        ? '✅確定'
+        : data.status === 'waitlisted'
+          ? '🕒キャンセル待ち'
+          : '⏳抽選待ち';
+      const isConfirmed = data.status === 'confirmed' || data.status === 'waitlisted';
+      const roomLine = rooms.length > 1 ? `\n🏠 ${roomNames.get(reservationRoomId(data)) || reservationRoomId(data)}` : '';
+      const memberLine = data.userId !== userId ? '\n👥 メンバーの登録' : '';
+
+      // 抽選時間中または抽選済みはボタンなし（閲覧専用）
+      const actions: line.Action[] = isLottery
+        ? [
+          { type: 'postback' as const, label: '─', data: 'action=noop' },
+          { type: 'postback' as const, label: '🔒 抽選中', data: 'action=noop' },
+          { type: 'postback' as const, label: '─', data: 'action=noop' },
+        ]
+        : data.status === 'confirmed'
+          ? [
+            // 確定した枠は他のバンドに譲る・他のバンドの確定枠と交換する・辞退してキャンセル待ちに繰り上げる
+            {
+              type: 'postback' as const,
+              label: '🎁 他のバンドに譲る',
+              data: `action=offer_slot&type=transfer&docId=${docId}&ts=${carouselCreatedAt}`,
+            },
+            {
+              type: 'postback' as const,
+              label: '🔁 枠を交換する',
+              data: `action=offer_slot&type=swap&docId=${docId}&ts=${carouselCreatedAt}`,
+            },
+            {
+              type: 'postback' as const,
+              label: '🙅 辞退する',
+              data: `action=confirm_release&docId=${docId}&ts=${carouselCreatedAt}`,
+            },
+          ]
+        : isConfirmed
+          ? [
+            { type: 'postback' as const, label: '🔒 抽選済み', data: 'action=noop' },
+            {
+              type: 'postback' as const,
+              label: '🗑️ 削除する',
+              data: `action=confirm_delete&docId=${docId}&band=${encodeURIComponent(bandName)}&ts=${carouselCreatedAt}`,
+            },
+            { type: 'postback' as const, label: '─', data: 'action=noop' },
+          ]
+          : [
+            {
+              type: 'postback' as const,
+              label: '✏️ バンド名を編集',
+              data: `action=edit_reservation&docId=${docId}&ts=${carouselCreatedAt}`,
+            },
+            {
+              type: 'postback' as const,
+              label: '📅 日時を編集',
+              data: `action=edit_datetime&docId=${docId}&ts=${carouselCreatedAt}`,
+            },
+            {
+              type: 'postback' as const,
+              label: '🗑️ 削除する',
+              data: `action=confirm_delete&docId=${docId}&band=${encodeURIComponent(bandName)}&ts=${carouselCreatedAt}`,
+            },
+          ];
+
+      return {
+        title: bandName.slice(0, 40), // タイトルは40文字まで
+        text: `📅 ${displayDate} ${timeLabel}${roomLine}\n${status}${memberLine}`,
+        actions: actions,
+      };
+    });
+
+    // まだ残りがある場合は「さらに表示」カラムを追加（抽選時間中も有効）
+    if (hasMore) {
+      const remainingCount = totalCount - endIndex;
+      columns.push({
+        title: `さらに表示 (${remainingCount}件)`,
+        text: `残り${remainingCount}件の登録があります`,
+        actions: [
+          {
+            type: 'postback' as const,
+            label: '➡️ 次を見る',
+            data: `action=view_my_more&page=${page + 1}&ts=${carouselCreatedAt}`,
+          },
+          { type: 'postback' as const, label: '─', data: 'action=noop' },
+          { type: 'postback' as const, label: '─', data: 'action=noop' },
+        ],
+      });
+    }
+
+    const pageInfo = totalCount > 9 ? ` (${startIndex + 1}-${endIndex}/${totalCount}件)` : '';
+
+    return client.replyMessage(event.replyToken, {
+      type: 'template',
+      altText: `あなたの登録一覧${pageInfo}`,
+      template: {
+        type: 'carousel',
+        columns: columns,
+      },
+    });
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// 登録リクエストの処理
+async function handleRegisterRequest(event: line.MessageEvent, userId: string) {
+  if (await isLotteryTime()) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: await lotteryTimeMessage('予約操作'),
+    });
+  }
+
+  const startTime = Date.now();
+  const bands = await loadUserBands(db, userId);
+
+  // 自分のバンドはクイックリプライで選べるようにする（クイックリプライは13件まで）
+  const quickReplyItems: line.QuickReplyItem[] = bands.slice(0, 13).map((band) => ({
+    type: 'action',
+    action: {
+      type: 'postback',
+      label: band.name.slice(0, 20), // ラベルは20文字まで
+      data: `action=select_band&bandId=${band.id}&start=${startTime}`,
+    },
+  }));
+
+  await db.collection('states').doc(userId).set({
+    status: 'WAITING_BAND_NAME',
+    createdAt: new Date(startTime),
+    lastButtonPressTs: startTime,
+    ...(quickReplyItems.length > 0 ? { pendingQuickReply: quickReplyItems, quickReplyStartTime: startTime } : {}),
+  });
+
+  if (quickReplyItems.length === 0) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: '登録する【バンド名】を入力してください。\n(中断する場合は「キャンセル」と送ってください)',
+    });
+  }
+
+  return client.replyMessage(event.replyToken, {
+    type: 'text',
+    text: '登録するバンドを選んでください👇\n新しいバンドの場合は【バンド名】を入力してください。\n(中断する場合は「キャンセル」と送ってください)',
+    quickReply: {
+      items: quickReplyItems,
+    },
+  });
+}
+
+// 空き枠予約：抽選で応募がなかった枠を一覧にして、選んだ枠をその場で確定にする
+async function handleEmptySlotRequest(event: line.MessageEvent, userId: string) {
+  if (await isLotteryTime()) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: await lotteryTimeMessage(),
+    });
+  }
+
+  try {
+    const bands = await loadUserBands(db, userId);
+    if (bands.length === 0) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: '🎸 参加しているバンドがありません。\n「登録したい」からバンド名を入力して作成するか、「参加 招待コード」でバンドに参加してください。',
+      });
+    }
+
+    const rooms = await getRooms();
+    const config = await getConfig();
+    const slots = await findEmptySlots(db, config, rooms);
+    if (slots.length === 0) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: `🈳 現在予約できる空き枠はありません。\n空き枠予約は、${config.schedule.lotteryTime}の抽選で応募がなかった枠を、抽選後から利用開始まで先着順で予約できます。`,
+      });
+    }
+
+    const startTime = Date.now();
+    const roomNames = new Map(rooms.map((room) => [room.id, room.name]));
+    // クイックリプライは13件まで（日付・時間の早い順）
+    const quickReplyItems: line.QuickReplyItem[] = slots.slice(0, 13).map((slot) => {
+      const [, month, day] = slot.date.split('-').map(Number);
+      const dateLabel = `${month}/${day}`;
+      const roomLabel = rooms.length > 1 ? `${roomNames.get(slot.roomId) || slot.roomId} ` : '';
+      return {
+        type: 'action',
+        action: {
+          type: 'postback',
+          label: `${dateLabel} ${roomLabel}${slot.timeLabel}`.slice(0, 20), // ラベルは20文字まで
+          data: `action=claim_slot&date=${slot.date}&room=${encodeURIComponent(slot.roomId)}&time=${slot.timeSlot}&start=${startTime}`,
+        },
+      };
+    });
+
+    await db.collection('states').doc(userId).set({
+      pendingQuickReply: quickReplyItems,
+      quickReplyStartTime: startTime,
+    }, { merge: true });
+
+    const moreNote = slots.length > 13 ? `\n※ 早い順に13件を表示しています（全${slots.length}件）` : '';
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: `🈳 抽選で応募がなかった空き枠です。\n選んだ枠はその場で確定します（先着順）👇${moreNote}\n(中断する場合は「キャンセル」と送ってください)`,
+      quickReply: {
+        items: quickReplyItems,
+      },
+    });
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// 登録するバンドが決まったら日付を聞く
+async function replyDateSelect(
+  event: line.MessageEvent | line.PostbackEvent,
+  userId: string,
+  band: Band,
+  startTime: number,
+  headline: string
+) {
+  const availableDates = await getAvailableDateList();
+
+  if (availableDates.length === 0) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.NO_AVAILABLE_DATES,
+    });
+  }
+
+  // 開始時刻をpostbackデータに埋め込む
+  const quickReplyItems: line.QuickReplyItem[] = availableDates.map((d) => ({
+    type: 'action',
+    action: {
+      type: 'postback',
+      label: d.label,
+      data: `action=select_date&date=${d.value}&bandId=${band.id}&start=${startTime}`,
+    },
+  }));
+
+  // 状態を更新（lastButtonPressTsは保持、クイックリプライ情報を保存）
+  await db.collection('states').doc(userId).set({
+    status: admin.firestore.FieldValue.delete(),
+    createdAt: admin.firestore.FieldValue.delete(),
+    pendingQuickReply: quickReplyItems,
+    quickReplyStartTime: startTime,
+  }, { merge: true });
+
+  const notes = await getDateOverrideNotes(availableDates);
+
+  return client.replyMessage(event.replyToken, {
+    type: 'text',
+    text: `${headline}\n${notes}予約する日付を選択してください👇`,
+    quickReply: {
+      items: quickReplyItems,
+    },
+  });
+}
+
+// 自分のバンドの一覧（招待コード付き）
+async function handleViewBands(event: line.MessageEvent, userId: string) {
+  try {
+    const bands = await loadUserBands(db, userId);
+    if (bands.length === 0) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: '🎸 参加しているバンドはまだありません。\n「登録したい」からバンド名を入力すると作成されます。\n他の人のバンドに参加するには「参加 招待コード」と送ってください。',
+      });
+    }
+
+    const lines = bands.map((band) => `・${band.name}（メンバー${band.memberIds.length}人）\n　招待コード: ${band.inviteCode}`);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: `🎸 あなたのバンド\n\n${lines.join('\n')}\n\nメンバーに招待コードを伝えて「参加 招待コード」と送ってもらうと、バンドの登録を一緒に確認・編集できます。`,
+    });
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// 招待コードでバンドに参加
+async function handleJoinBand(event: line.MessageEvent, userId: string, inviteCode: string) {
+  try {
+    const joined = await joinBandByInviteCode(db, inviteCode, userId);
+    if (!joined.ok) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: joined.message,
+      });
+    }
+
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: joined.alreadyMember
+        ? `既に「${joined.band.name}」のメンバーです。`
+        : `✅「${joined.band.name}」に参加しました。\n「登録したい」からこのバンドで登録できます。`,
+    });
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// 毎週登録の一覧（一時停止・再開・解除ボタン付き）
+async function handleViewStandingRequests(event: line.MessageEvent | line.PostbackEvent, userId: string, headline: string = '') {
+  try {
+    const requests = await loadUserStandingRequests(db, userId);
+    if (requests.length === 0) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: `${headline}🔁 毎週登録はありません。\n「登録したい」から予約したあと、「🔁 毎週この枠で登録」を押すと、毎週同じ枠が自動で登録されます。`,
+      });
+    }
+
+    // 部屋が複数ある場合は部屋名も表示
+    const rooms = await getRooms();
+    const roomNames = new Map(rooms.map((room) => [room.id, room.name]));
+
+    const columns: line.TemplateColumn[] = requests.map((request) => {
+      const isActive = request.status === 'active';
+      const roomLine = rooms.length > 1 ? `\n🏠 ${roomNames.get(request.roomId) || request.roomId}` : '';
+      const skippedLine = request.lastSkipped
+        ? `\n⚠️ ${request.lastSkipped.date.replace(/-/g, '/').slice(5)} は登録できませんでした`
+        : '';
+      return {
+        title: request.bandName.slice(0, 40), // タイトルは40文字まで
+        text: `🔁 ${describeStandingRequest(request)}${roomLine}\n${isActive ? '▶️ 有効' : '⏸️ 一時停止中'}${skippedLine}`.slice(0, 60), // 本文は60文字まで
+        actions: [
+          isActive
+            ? { type: 'postback' as const, label: '⏸️ 一時停止', data: `action=weekly_pause&id=${request.id}` }
+            : { type: 'postback' as const, label: '▶️ 再開', data: `action=weekly_resume&id=${request.id}` },
+          { type: 'postback' as const, label: '🗑️ 解除する', data: `action=weekly_delete&id=${request.id}` },
+        ],
+      };
+    });
+
+    const messages: line.Message[] = [
+      {
+        type: 'template',
+        altText: 'あなたの毎週登録',
+        template: {
+          type: 'carousel',
+          columns: columns,
+        },
+      },
+    ];
+    if (headline) {
+      messages.unshift({ type: 'text', text: headline.trim() });
+    }
+    return client.replyMessage(event.replyToken, messages);
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// その他の入力処理（状態に応じた処理）
+// stateSnapを引数で受け取ることで、重複したDB読み取りを避ける
+async function handleOtherInput(
+  event: line.MessageEvent,
+  userId: string,
+  userText: string,
+  stateSnap?: FirebaseFirestore.DocumentSnapshot
+) {
+  // stateSnapが渡されていない場合は取得
+  if (!stateSnap) {
+    stateSnap = await db.collection('states').doc(userId).get();
+  }
+
+  if (!stateSnap.exists) {
+    return Promise.resolve(null);
+  }
+
+  const stateData = stateSnap.data();
+
+  // タイムアウトチェック
+  if (stateData && stateData.createdAt) {
+    const createdAt = stateData.createdAt.toDate().getTime();
+    if (isSessionExpired(createdAt)) {
+      // 特定フィールドのみ削除（lastViewMyCarouselTs、lastViewMyMorePage、lastButtonPressTsは保持）
+      await db.collection('states').doc(userId).set({
+        status: admin.firestore.FieldValue.delete(),
+        createdAt: admin.firestore.FieldValue.delete(),
+        editingDocId: admin.firestore.FieldValue.delete(),
+        editSelectedDate: admin.firestore.FieldValue.delete(),
+        deletingDocId: admin.firestore.FieldValue.delete(),
+        deletingBandName: admin.firestore.FieldValue.delete(),
+        releasingDocId: admin.firestore.FieldValue.delete(),
+        releasingBandName: admin.firestore.FieldValue.delete(),
+        offeringDocId: admin.firestore.FieldValue.delete(),
+        offerType: admin.firestore.FieldValue.delete(),
+        settingsVersion: admin.firestore.FieldValue.delete(),
+        pendingQuickReply: admin.firestore.FieldValue.delete(),
+        quickReplyStartTime: admin.firestore.FieldValue.delete(),
+      }, { merge: true });
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: '⏰ 5分間経過したため、登録をキャンセルしました。\nもう一度「登録したい」と送ってください。',
+      });
+    }
+  }
+
+  // 予約語が入力された場合の警告（テキスト入力待ち状態で）
+  const isReservedWord = [
+    ...TRIGGER_WORDS.REGISTER,
+    ...TRIGGER_WORDS.VIEW_ALL,
+    ...TRIGGER_WORDS.VIEW_MY,
+    ...TRIGGER_WORDS.HISTORY,
+    ...TRIGGER_WORDS.BANDS,
+    ...TRIGGER_WORDS.JOIN,
+    ...TRIGGER_WORDS.WEEKLY,
+    ...TRIGGER_WORDS.EMPTY_SLOTS,
+    ...TRIGGER_WORDS.CALENDAR,
+    ...TRIGGER_WORDS.STATS,
+    ...TRIGGER_WORDS.SETTINGS,
+  ].includes(userText);
+
+  // バンド名入力待ちの場合
+  if (stateData && stateData.status === 'WAITING_BAND_NAME') {
+    // 予約語が入力された場合は警告
+    if (isReservedWord) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: `⚠️「${userText}」は予約語のため、バンド名として使用できません。\n\n別のバンド名を入力してください。\n(中断する場合は「キャンセル」と送ってください)`,
+      });
+    }
+
+    const startTime = stateData.createdAt.toDate().getTime(); // 開始時刻を取得
+
+    // 「参加 招待コード」ならバンドに参加して、そのバンドで登録を進める
+    const [command, inviteCode] = userText.trim().split(/\s+/);
+    if (TRIGGER_WORDS.JOIN.includes(command) && inviteCode) {
+      const joined = await joinBandByInviteCode(db, inviteCode, userId);
+      if (!joined.ok) {
+        return client.replyMessage(event.replyToken, {
+          type: 'text',
+          text: joined.message,
+        });
+      }
+      return replyDateSelect(event, userId, joined.band, startTime, `✅「${joined.band.name}」に参加しました。\n「${joined.band.name}」で登録を進めます。`);
+    }
+
+    // バンド名を登録済みのバンドに照合（表記ゆれは同じバンドとみなす、なければ新規作成）
+    const resolved = await resolveBandForUser(db, userText, userId);
+    if (!resolved.ok) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: resolved.message,
+      });
+    }
+
+    const headline = resolved.created
+      ? `🎸 新しいバンド「${resolved.band.name}」を作成しました。\n「バンド」と送ると、メンバーを招待するためのコードを確認できます。\n\n「${resolved.band.name}」で登録を進めます。`
+      : `「${resolved.band.name}」で登録を進めます。`;
+    return replyDateSelect(event, userId, resolved.band, startTime, headline);
+  }
+
+  // バンド名編集中の場合
+  if (stateData && stateData.status === 'EDITING_BAND_NAME') {
+    // 予約語が入力された場合は警告
+    if (isReservedWord) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: `⚠️「${userText}」は予約語のため、バンド名として使用できません。\n\n別のバンド名を入力してください。\n(中断する場合は「キャンセル」と送ってください)`,
+      });
+    }
+
+    const docId = stateData.editingDocId;
+
+    // 変更先は自分が参加しているバンドに限る（編集ではバンドを新しく作らない）
+    const bands = await loadUserBands(db, userId);
+    const nameKey = normalizeBandName(userText);
+    const band = bands.find((b) => b.nameKey === nameKey);
+    if (!band) {
+      const bandList = bands.length > 0
+        ? `参加しているバンド:\n${bands.map((b) => `・${b.name}`).join('\n')}\n\n`
+        : '';
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: `⚠️「${userText}」はあなたが参加しているバンドではありません。\n\n${bandList}参加しているバンドの名前を入力してください。\n新しいバンドは「登録したい」から作成し、他のバンドには「参加 招待コード」で参加できます。\n(中断する場合は「キャンセル」と送ってください)`,
+      });
+    }
+    const newBandName = band.name;
+
+    // 状態の特定フィールドのみ削除（lastButtonPressTsは保持して元のカルーセルのボタンを無効に保つ）
+    await db.collection('states').doc(userId).set({
+      status: admin.firestore.FieldValue.delete(),
+      editingDocId: admin.firestore.FieldValue.delete(),
+      createdAt: admin.firestore.FieldValue.delete(),
+    }, { merge: true });
+
+    try {
+      const { limits } = await getConfig();
+      const access = await updateOwnedReservation(db, docId, userId, {
+        bandName: newBandName,
+        bandId: band.id,
+      }, async (tx, updated) => {
+        const violation = await checkRegistrationRules(db, tx, {
+          userId,
+          bandName: updated.bandName,
+          bandId: updated.bandId,
+          date: updated.date,
+        }, limits, docId);
+        return violation ? violation.message : null;
+      });
+      if (!access.ok) {
+        return client.replyMessage(event.replyToken, {
+          type: 'text',
+          text: access.message,
+        });
+      }
+
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: `✅ バンド名を「${newBandName}」に更新しました。`,
+      });
+    } catch (err) {
+      console.error(err);
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: MESSAGES.ERROR,
+      });
+    }
+  }
+
+  // 譲渡・交換の相手のバンド名入力待ちの場合
+  if (stateData && stateData.status === 'WAITING_OFFER_BAND') {
+    if (isReservedWord) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: `⚠️「${userText}」は予約語のため、バンド名として使用できません。\n\n相手のバンド名を入力してください。\n(中断する場合は「キャンセル」と送ってください)`,
+      });
+    }
+    return handleOfferBandInput(event, userId, userText, stateData.offeringDocId, stateData.offerType);
+  }
+
+  // 設定で追加する時間枠の入力待ちの場合
+  if (stateData && stateData.status === 'WAITING_SETTINGS_SLOT') {
+    return handleSettingsSlotInput(event, userId, userText, stateData.settingsVersion);
+  }
+
+  // 譲渡・交換の確認ダイアログ待ちの場合
+  if (stateData && stateData.status === 'WAITING_OFFER_CONFIRM') {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: '⚠️ 譲渡・交換の申し込みを確認中です。\n\n確認ダイアログで「申し込む」または「やめる」を選択してください。\n(中断する場合は「キャンセル」と送ってください)',
+    });
+  }
+
+  // 辞退確認ダイアログ待ちの場合
+  if (stateData && stateData.status === 'WAITING_RELEASE_CONFIRM') {
+    const bandName = stateData.releasingBandName || '';
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: `⚠️「${bandName}」の辞退確認中です。\n\n確認ダイアログで「はい、辞退する」または「いいえ」を選択してください。\n(中断する場合は「キャンセル」と送ってください)`,
+    });
+  }
+
+  // 削除確認ダイアログ待ちの場合
+  if (stateData && stateData.status === 'WAITING_DELETE_CONFIRM') {
+    const bandName = stateData.deletingBandName || '';
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: `⚠️「${bandName}」の削除確認中です。\n\n確認ダイアログで「はい、削除する」または「いいえ」を選択してください。\n(中断する場合は「キャンセル」と送ってください)`,
+    });
+  }
+
+  // クイックリプライが必要な状態の場合 → 共通関数で再表示
+  const ongoingReply = await getOngoingOperationReply(userId, { isInvalidButton: false, isReservedWord });
+  if (ongoingReply) {
+    return client.replyMessage(event.replyToken, ongoingReply);
+  }
+
+  return Promise.resolve(null);
+}
+
+// ---------------------------------------------------------
+// 5. ボタン操作への返信 (バンド名を持ち回る)
+// ---------------------------------------------------------
+async function handlePostbackEvent(event: line.PostbackEvent) {
+  const data = event.postback.data;
+
+  // パターンA0: 自分のバンドが選ばれたら → 「日付」を聞く
+  if (data.startsWith('action=select_band')) {
+    return handleSelectBand(event, data);
+  }
+
+  // パターンA: 日付が選ばれたら → 「時間」を聞く
+  if (data.startsWith('action=select_date')) {
+    return handleSelectDate(event, data);
+  }
+
+  // パターンA2: 部屋が選ばれたら → 「時間」を聞く
+  if (data.startsWith('action=select_room')) {
+    return handleSelectRoom(event, data);
+  }
+
+  // パターンB: 時間も選ばれて、最終確定したとき
+  if (data.startsWith('action=finalize')) {
+    return handleFinalize(event, data);
+  }
+
+  // パターンB2: 複数選択で時間を選択・選択解除したとき
+  if (data.startsWith('action=toggle_slot')) {
+    return handleToggleSlot(event, data);
+  }
+
+  // パターンB3: 複数選択した時間をまとめて確定したとき
+  if (data.startsWith('action=confirm_slots')) {
+    return handleConfirmSlots(event, data);
+  }
+
+  // パターンB4: 空き枠予約（枠・バンドの選択後に即確定）
+  if (data.startsWith('action=claim_slot')) {
+    return handleClaimSlot(event, data);
+  }
+
+  // パターンC: 全登録表示（日付選択後）
+  if (data.startsWith('action=view_reservations')) {
+    return handleViewReservations(event, data);
+  }
+
+  // パターンD: 予約編集
+  if (data.startsWith('action=edit_reservation')) {
+    return handleEditReservation(event, data);
+  }
+
+  // パターンE: 削除確認
+  if (data.startsWith('action=confirm_delete')) {
+    return handleConfirmDelete(event, data);
+  }
+
+  // カレンダー連携のURL再発行
+  if (data.startsWith('action=calendar_reissue')) {
+    return handleReissueCalendar(event);
+  }
+
+  // 設定（管理者のみ）
+  if (data.startsWith('action=settings_day')) {
+    return handleSettingsToggleDay(event, data);
+  }
+  if (data.startsWith('action=settings_add_slot')) {
+    return handleSettingsAddSlot(event, data);
+  }
+  if (data.startsWith('action=settings_remove_menu')) {
+    return handleSettingsRemoveMenu(event, data);
+  }
+  if (data.startsWith('action=settings_remove_slot')) {
+    return handleSettingsRemoveSlot(event, data);
+  }
+  if (data.startsWith('action=settings_reload')) {
+    return handleSettingsReload(event);
+  }
+
+  // パターンE2: リマインダーからの辞退
+  if (data.startsWith('action=release_slot')) {
+    return handleReleaseSlot(event, data);
+  }
+
+  // パターンE3: 確定枠の辞退確認（カルーセルから）
+  if (data.startsWith('action=confirm_release')) {
+    return handleConfirmRelease(event, data);
+  }
+
+  // パターンE4: 辞退実行
+  if (data.startsWith('action=release_reservation')) {
+    return handleReleaseReservation(event, data);
+  }
+
+  // パターンE5: 辞退キャンセル
+  if (data.startsWith('action=cancel_release')) {
+    return handleCancelRelease(event, data);
+  }
+
+  // パターンF: 削除実行
+  if (data.startsWith('action=delete_reservation')) {
+    return handleDeleteReservation(event, data);
+  }
+
+  // パターンF2: 削除キャンセル
+  if (data.startsWith('action=cancel_delete')) {
+    return handleCancelDelete(event, data);
+  }
+
+  // パターンG: バンド名更新確定
+  if (data.startsWith('action=update_band_name')) {
+    return handleUpdateBandName(event, data);
+  }
+
+  // パターンH: 自分の登録をさらに表示
+  if (data.startsWith('action=view_my_more')) {
+    return handleViewMyMore(event, data);
+  }
+
+  // パターンI: 日時編集開始
+  if (data.startsWith('action=edit_datetime')) {
+    return handleEditDateTime(event, data);
+  }
+
+  // パターンJ: 日時編集 - 日付選択後
+  if (data.startsWith('action=edit_select_date')) {
+    return handleEditSelectDate(event, data);
+  }
+
+  // パターンK: 日時編集 - 時間選択後（確定）
+  if (data.startsWith('action=edit_finalize')) {
+    return handleEditFinalize(event, data);
+  }
+
+  // パターンM: 確定した枠の譲渡・交換の開始（相手のバンド名を聞く）
+  if (data.startsWith('action=offer_slot')) {
+    return handleOfferSlot(event, data);
+  }
+
+  // パターンM2: 交換する相手の枠が選ばれたら → 確認ダイアログ
+  if (data.startsWith('action=select_swap_target')) {
+    return handleSelectSwapTarget(event, data);
+  }
+
+  // パターンM3: 申し込みの確定・中止
+  if (data.startsWith('action=create_offer')) {
+    return handleCreateOffer(event, data);
+  }
+  if (data.startsWith('action=abort_offer')) {
+    return handleAbortOffer(event, data);
+  }
+
+  // パターンM4: 申し込みを受けたバンドの回答（受け入れる・断る）
+  if (data.startsWith('action=respond_offer')) {
+    return handleRespondOffer(event, data);
+  }
+
+  // パターンL: 毎週登録の作成（予約完了時のボタン）
+  if (data.startsWith('action=weekly_create')) {
+    return handleCreateStandingRequest(event, data);
+  }
+
+  // パターンL2: 毎週登録の一時停止・再開・解除
+  if (data.startsWith('action=weekly_pause') || data.startsWith('action=weekly_resume') || data.startsWith('action=weekly_delete')) {
+    return handleUpdateStandingRequest(event, data);
+  }
+}
+
+// パターンA: 日付選択 → 部屋選択（部屋が複数ある場合）または時間選択を促す
+async function handleSelectBand(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const startTime = params.get('start');
+  const userId = event.source.userId!;
+
+  // タイムアウトチェック
+  if (startTime && isSessionExpired(Number(startTime))) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: '⏰ 5分間経過したため、登録をキャンセルしました。\nもう一度「登録したい」と送ってください。',
+    });
+  }
+
+  const band = await getMemberBand(db, params.get('bandId'), userId);
+  if (!band) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.NOT_BAND_MEMBER,
+    });
+  }
+
+  return replyDateSelect(event, userId, band, Number(startTime), `「${band.name}」で登録を進めます。`);
+}
+
+async function handleSelectDate(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const selectedDate = params.get('date');
+  const bandId = params.get('bandId');
+  const startTime = params.get('start');
+
+  // タイムアウトチェック
+  if (startTime && isSessionExpired(Number(startTime))) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: '⏰ 5分間経過したため、登録をキャンセルしました。\nもう一度「登録したい」と送ってください。',
+    });
+  }
+
+  const dateObj = new Date(selectedDate!);
+  const dateLabel = `${dateObj.getMonth() + 1}/${dateObj.getDate()}`;
+  const userId = event.source.userId!;
+
+  const rooms = await getRooms(selectedDate!);
+
+  // 部屋が1つだけなら部屋選択を省略
+  if (rooms.length === 1) {
+    return replyTimeSlotSelect(event, userId, selectedDate!, bandId!, startTime!, rooms[0], `📅 ${dateLabel} ですね。`);
+  }
+
+  // 部屋選択のクイックリプライ作成
+  const quickReplyItems: line.QuickReplyItem[] = rooms.map((room) => ({
+    type: 'action',
+    action: {
+      type: 'postback',
+      label: room.name.slice(0, 20), // ラベルは20文字まで
+      data: `action=select_room&date=${selectedDate}&room=${encodeURIComponent(room.id)}&bandId=${bandId}&start=${startTime}`,
+    },
+  }));
+
+  // 部屋選択のクイックリプライ情報を保存
+  await db.collection('states').doc(userId).set({
+    pendingQuickReply: quickReplyItems,
+    quickReplyStartTime: Number(startTime),
+  }, { merge: true });
+
+  return client.replyMessage(event.replyToken, {
+    type: 'text',
+    text: `📅 ${dateLabel} ですね。\n利用する部屋を選んでください👇`,
+    quickReply: {
+      items: quickReplyItems,
+    },
+  });
+}
+
+// パターンA2: 部屋選択 → 時間選択を促す
+async function handleSelectRoom(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const selectedDate = params.get('date');
+  const roomId = params.get('room');
+  const bandId = params.get('bandId');
+  const startTime = params.get('start');
+
+  // タイムアウトチェック
+  if (startTime && isSessionExpired(Number(startTime))) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: '⏰ 5分間経過したため、登録をキャンセルしました。\nもう一度「登録したい」と送ってください。',
+    });
+  }
+
+  const userId = event.source.userId!;
+  const rooms = await getRooms(selectedDate!);
+  const room = rooms.find((r) => r.id === roomId);
+
+  if (!room) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: '⚠️ この部屋は現在予約できません。\nもう一度「登録したい」と送ってください。',
+    });
+  }
+
+  return replyTimeSlotSelect(event, userId, selectedDate!, bandId!, startTime!, room, `🏠 ${room.name} ですね。`);
+}
+
+// 指定した部屋の時間枠を選ぶクイックリプライを返信する
+async function replyTimeSlotSelect(
+  event: line.PostbackEvent,
+  userId: string,
+  selectedDate: string,
+  bandId: string,
+  startTime: string,
+  room: Room,
+  headline: string
+) {
+  // クイックリプライ作成（13個までのため、時間枠は MAX_TIME_SLOTS 個までにして「複数選ぶ」の分を空ける）
+  const quickReplyItems: line.QuickReplyItem[] = room.timeSlots.slice(0, MAX_TIME_SLOTS).map((slot) => ({
+    type: 'action',
+    action: {
+      type: 'postback',
+      label: slot.label,
+      // 開始時刻も次のデータに引き継ぐ
+      data: `action=finalize&date=${selectedDate}&time=${slot.value}&room=${encodeURIComponent(room.id)}&bandId=${bandId}&start=${startTime}`,
+    },
+  }));
+
+  // 複数の時間をまとめて登録する場合は複数選択に切り替える
+  if (room.timeSlots.length > 1) {
+    quickReplyItems.push({
+      type: 'action',
+      action: {
+        type: 'postback',
+        label: '☑️ 複数選ぶ',
+        data: `action=toggle_slot&date=${selectedDate}&room=${encodeURIComponent(room.id)}&bandId=${bandId}&start=${startTime}&sel=`,
+      },
+    });
+  }
+
+  // 時間選択のクイックリプライ情報を保存
+  await db.collection('states').doc(userId).set({
+    pendingQuickReply: quickReplyItems,
+    quickReplyStartTime: Number(startTime),
+  }, { merge: true });
+
+  return client.replyMessage(event.replyToken, {
+    type: 'text',
+    text: `${headline}\n利用時間を選んでください👇`,
+    quickReply: {
+      items: quickReplyItems,
+    },
+  });
+}
+
+// パターンB: 時間選択 → 予約確定
+async function handleFinalize(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const selectedDate = params.get('date');
+  const selectedTime = params.get('time');
+  const roomId = params.get('room') || DEFAULT_ROOM_ID;
+  const bandId = params.get('bandId');
+  const startTime = params.get('start');
+
+  // タイムアウトチェック
+  if (startTime && isSessionExpired(Number(startTime))) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: '⏰ 5分間経過したため、登録をキャンセルしました。\nもう一度「登録したい」と送ってください。',
+    });
+  }
+
+  const finalDateTimeStr = `${selectedDate}T${selectedTime}`;
+  const displayStr = `${selectedDate?.replace(/-/g, '/').slice(5)} ${selectedTime}`;
+  const userId = event.source.userId;
+
+  try {
+    // 日付を選んだ後に休室日になった場合は登録しない
+    const closedMessage = await getClosedDateMessage(selectedDate!);
+    if (closedMessage) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: `${closedMessage}\nもう一度「登録したい」と送ってください。`,
+      });
+    }
+
+    // 部屋が複数ある場合は返信に部屋名を含める
+    const rooms = await getRooms(selectedDate!);
+    const room = rooms.find((r) => r.id === roomId);
+    if (!room) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: '⚠️ この部屋は現在予約できません。\nもう一度「登録したい」と送ってください。',
+      });
+    }
+    const roomLine = rooms.length > 1 ? `\n部屋: ${room.name}` : '';
+
+    // バンドのメンバーか確認（バンド名は登録済みの正式名称を使う）
+    const band = await getMemberBand(db, bandId, userId!);
+    if (!band) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: MESSAGES.NOT_BAND_MEMBER,
+      });
+    }
+    const bandName = band.name;
+
+    // Firestoreに保存（バンド名も追加！）
+    const reservation = {
+      userId: userId,
+      bandId: band.id,
+      bandName: bandName, // ★追加
+      date: finalDateTimeStr,
+      roomId: room.id,
+      status: 'pending',
+      createdAt: new Date(),
+    };
+    // 重複登録・登録数の上限を確認してから、同じトランザクションで保存する
+    const { limits } = await getConfig();
+    const reservationRef = db.collection('reservations').doc();
+    const violation = await db.runTransaction(async (tx) => {
+      const found = await checkRegistrationRules(db, tx, { userId: userId!, bandName, bandId: band.id, date: finalDateTimeStr }, limits);
+      if (found) return found;
+
+      tx.create(reservationRef, reservation);
+      recordReservationEvent(db, tx, {
+        reservationId: reservationRef.id,
+        action: 'create',
+        actor: { type: 'user', id: userId! },
+        before: null,
+        after: reservation,
+      });
+      return null;
+    });
+
+    if (violation) {
+      await db.collection('states').doc(userId!).set({
+        pendingQuickReply: admin.firestore.FieldValue.delete(),
+        quickReplyStartTime: admin.firestore.FieldValue.delete(),
+      }, { merge: true });
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: violation.message,
+      });
+    }
+
+    // 予約完了後、クイックリプライ情報を削除し、lastButtonPressTsを更新（登録が増えたので古いカルーセルを無効化）
+    await db.collection('states').doc(userId!).set({
+      pendingQuickReply: admin.firestore.FieldValue.delete(),
+      quickReplyStartTime: admin.firestore.FieldValue.delete(),
+      lastButtonPressTs: Date.now(),
+    }, { merge: true });
+
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: `✅ 予約を受け付けました\n\nバンド名: ${bandName}\n日時: ${displayStr}${roomLine}\n\n抽選結果をお待ちください。\n毎週同じ枠で登録する場合は下のボタンを押してください。`,
+      quickReply: {
+        items: [
+          {
+            type: 'action',
+            action: {
+              type: 'postback',
+              label: '🔁 毎週この枠で登録',
+              data: `action=weekly_create&docId=${reservationRef.id}`,
+            },
+          },
+        ],
+      },
+    });
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// 複数選択の選択状態（部屋の時間枠のインデックスをカンマ区切りにしたもの。postbackデータの300文字制限に収めるため）
+function parseSelectedSlots(sel: string | null, room: Room): number[] {
+  return Array.from(new Set((sel || '').split(',').filter((v) => v !== '').map(Number)))
+    .filter((i) => Number.isInteger(i) && i >= 0 && i < Math.min(room.timeSlots.length, MAX_TIME_SLOTS))
+    .sort((a, b) => a - b);
+}
+
+// 複数選択の時間枠のクイックリプライを返信する（選択中の枠に ✅、1件以上選ぶと確定ボタンを表示）
+async function replyMultiSlotSelect(
+  event: line.PostbackEvent,
+  userId: string,
+  selectedDate: string,
+  bandId: string,
+  startTime: string,
+  room: Room,
+  selected: number[],
+  headline: string
+) {
+  const baseData = `date=${selectedDate}&room=${encodeURIComponent(room.id)}&bandId=${bandId}&start=${startTime}`;
+  // クイックリプライは13個までのため、時間枠は MAX_TIME_SLOTS 個までにして「登録」の分を空ける
+  const quickReplyItems: line.QuickReplyItem[] = room.timeSlots.slice(0, MAX_TIME_SLOTS).map((slot, i) => ({
+    type: 'action',
+    action: {
+      type: 'postback',
+      label: `${selected.includes(i) ? '✅' : '⬜'} ${slot.label}`.slice(0, 20), // ラベルは20文字まで
+      data: `action=toggle_slot&${baseData}&sel=${selected.join(',')}&slot=${i}`,
+    },
+  }));
+
+  if (selected.length > 0) {
+    quickReplyItems.push({
+      type: 'action',
+      action: {
+        type: 'postback',
+        label: `📝 ${selected.length}件を登録`,
+        data: `action=confirm_slots&${baseData}&sel=${selected.join(',')}`,
+      },
+    });
+  }
+
+  // 複数選択のクイックリプライ情報を保存
+  await db.collection('states').doc(userId).set({
+    pendingQuickReply: quickReplyItems,
+    quickReplyStartTime: Number(startTime),
+  }, { merge: true });
+
+  const selectedLine = selected.length > 0
+    ? `選択中: ${selected.map((i) => room.timeSlots[i].label).join(', ')}`
+    : '利用する時間をすべて選んでください（複数可）';
+
+  return client.replyMessage(event.replyToken, {
+    type: 'text',
+    text: `${headline}${selectedLine}\n選び終わったら「登録」を押してください👇`,
+    quickReply: {
+      items: quickReplyItems,
+    },
+  });
+}
+
+// パターンB2: 複数選択 → 時間の選択・選択解除
+async function handleToggleSlot(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const selectedDate = params.get('date');
+  const roomId = params.get('room');
+  const bandId = params.get('bandId');
+  const startTime = params.get('start');
+  const slot = params.get('slot');
+
+  // タイムアウトチェック
+  if (startTime && isSessionExpired(Number(startTime))) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: '⏰ 5分間経過したため、登録をキャンセルしました。\nもう一度「登録したい」と送ってください。',
+    });
+  }
+
+  const userId = event.source.userId!;
+  const rooms = await getRooms(selectedDate!);
+  const room = rooms.find((r) => r.id === roomId);
+
+  if (!room) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: '⚠️ この部屋は現在予約できません。\nもう一度「登録したい」と送ってください。',
+    });
+  }
+
+  let selected = parseSelectedSlots(params.get('sel'), room);
+  if (slot !== null) {
+    const index = Number(slot);
+    selected = selected.includes(index)
+      ? selected.filter((i) => i !== index)
+      : parseSelectedSlots([...selected, index].join(','), room);
+  }
+
+  const dateObj = new Date(selectedDate!);
+  const headline = slot === null ? `📅 ${dateObj.getMonth() + 1}/${dateObj.getDate()} の時間を複数選べます。\n` : '';
+  return replyMultiSlotSelect(event, userId, selectedDate!, bandId!, startTime!, room, selected, headline);
+}
+
+// パターンB3: 複数選択した時間 → まとめて予約確定
+// 重複・上限のルールを1件ずつ確認し、登録できるものだけを1つのトランザクションでまとめて保存する
+async function handleConfirmSlots(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const selectedDate = params.get('date');
+  const roomId = params.get('room') || DEFAULT_ROOM_ID;
+  const bandId = params.get('bandId');
+  const startTime = params.get('start');
+
+  // タイムアウトチェック
+  if (startTime && isSessionExpired(Number(startTime))) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: '⏰ 5分間経過したため、登録をキャンセルしました。\nもう一度「登録したい」と送ってください。',
+    });
+  }
+
+  const userId = event.source.userId!;
+  const displayDate = selectedDate?.replace(/-/g, '/').slice(5);
+
+  try {
+    const closedMessage = await getClosedDateMessage(selectedDate!);
+    if (closedMessage) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: `${closedMessage}\nもう一度「登録したい」と送ってください。`,
+      });
+    }
+
+    const rooms = await getRooms(selectedDate!);
+    const room = rooms.find((r) => r.id === roomId);
+    if (!room) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: '⚠️ この部屋は現在予約できません。\nもう一度「登録したい」と送ってください。',
+      });
+    }
+    const roomLine = rooms.length > 1 ? `\n部屋: ${room.name}` : '';
+
+    // バンドのメンバーか確認（バンド名は登録済みの正式名称を使う）
+    const band = await getMemberBand(db, bandId, userId);
+    if (!band) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: MESSAGES.NOT_BAND_MEMBER,
+      });
+    }
+
+    const timeSlots = parseSelectedSlots(params.get('sel'), room).map((i) => room.timeSlots[i].value);
+    if (timeSlots.length === 0) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: '⚠️ 時間が選ばれていません。\nもう一度「登録したい」と送ってください。',
+      });
+    }
+
+    const { limits } = await getConfig();
+    const { created, skipped } = await db.runTransaction(async (tx) => {
+      const accepted: { date: string; ref: admin.firestore.DocumentReference }[] = [];
+      const rejected: { timeSlot: string; message: string }[] = [];
+
+      // 先に全件のルールを確認する（トランザクションでは読み取りを書き込みより前に行う）
+      for (const timeSlot of timeSlots) {
+        const date = `${selectedDate}T${timeSlot}`;
+        const pending = accepted.map((r) => ({ userId, bandName: band.name, bandId: band.id, date: r.date }));
+        const violation = await checkRegistrationRules(db, tx, { userId, bandName: band.name, bandId: band.id, date }, limits, undefined, pending);
+        if (violation) {
+          rejected.push({ timeSlot, message: violation.message });
+        } else {
+          accepted.push({ date, ref: db.collection('reservations').doc() });
+        }
+      }
+
+      for (const { date, ref } of accepted) {
+        const reservation = {
+          userId: userId,
+          bandId: band.id,
+          bandName: band.name,
+          date,
+          roomId: room.id,
+          status: 'pending',
+          createdAt: new Date(),
+        };
+        tx.create(ref, reservation);
+        recordReservationEvent(db, tx, {
+          reservationId: ref.id,
+          action: 'create',
+          actor: { type: 'user', id: userId },
+          before: null,
+          after: reservation,
+        });
+      }
+      return { created: accepted, skipped: rejected };
+    });
+
+    // クイックリプライ情報を削除し、登録が増えた場合はlastButtonPressTsを更新（古いカルーセルを無効化）
+    await db.collection('states').doc(userId).set({
+      pendingQuickReply: admin.firestore.FieldValue.delete(),
+      quickReplyStartTime: admin.firestore.FieldValue.delete(),
+      ...(created.length > 0 ? { lastButtonPressTs: Date.now() } : {}),
+    }, { merge: true });
+
+    const createdLines = created.map((r) => `・${displayDate} ${r.date.split('T')[1]}`);
+    const skippedLines = skipped.map((r) => `・${displayDate} ${r.timeSlot}\n${r.message}`);
+    const summary = created.length > 0
+      ? `✅ ${created.length}件の予約を受け付けました\n\nバンド名: ${band.name}${roomLine}\n${createdLines.join('\n')}\n\n抽選結果をお待ちください。`
+      : '⚠️ 予約できませんでした。';
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: skippedLines.length > 0
+        ? `${summary}\n\n― 登録できなかった時間 ―\n${skippedLines.join('\n')}`
+        : summary,
+    });
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// パターンB4: 空き枠予約 → バンド選択（複数のバンドに参加している場合）→ 確定
+async function handleClaimSlot(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const selectedDate = params.get('date');
+  const roomId = params.get('room') || DEFAULT_ROOM_ID;
+  const selectedTime = params.get('time');
+  const bandId = params.get('bandId');
+  const startTime = params.get('start');
+  const userId = event.source.userId!;
+
+  // タイムアウトチェック
+  if (startTime && isSessionExpired(Number(startTime))) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: '⏰ 5分間経過したため、操作をキャンセルしました。\nもう一度「空き枠予約」と送ってください。',
+    });
+  }
+
+  if (await isLotteryTime()) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: await lotteryTimeMessage(),
+    });
+  }
+
+  const displayStr = `${selectedDate?.replace(/-/g, '/').slice(5)} ${selectedTime}`;
+
+  try {
+    // バンドが選ばれていなければ選んでもらう（1つだけならそのバンド）
+    let band: Band | null;
+    if (bandId) {
+      band = await getMemberBand(db, bandId, userId);
+    } else {
+      const bands = await loadUserBands(db, userId);
+      if (bands.length > 1) {
+        const quickReplyItems: line.QuickReplyItem[] = bands.slice(0, 13).map((b) => ({
+          type: 'action',
+          action: {
+            type: 'postback',
+            label: b.name.slice(0, 20), // ラベルは20文字まで
+            data: `${data}&bandId=${b.id}`,
+          },
+        }));
+        await db.collection('states').doc(userId).set({
+          pendingQuickReply: quickReplyItems,
+          quickReplyStartTime: Number(startTime),
+        }, { merge: true });
+        return client.replyMessage(event.replyToken, {
+          type: 'text',
+          text: `🈳 ${displayStr} ですね。\n予約するバンドを選んでください👇`,
+          quickReply: {
+            items: quickReplyItems,
+          },
+        });
+      }
+      band = bands[0] || null;
+    }
+    if (!band) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: '⚠️ このバンドのメンバーではありません。\nもう一度「空き枠予約」と送ってください。',
+      });
+    }
+
+    const rooms = await getRooms();
+    const config = await getConfig();
+    const claimed = await claimEmptySlot(
+      db,
+      userId,
+      band,
+      { date: selectedDate!, roomId, timeSlot: selectedTime! },
+      { rules: config, rooms, limits: config.limits }
+    );
+
+    // クイックリプライ情報を削除し、予約が増えた場合はlastButtonPressTsを更新（古いカルーセルを無効化）
+    await db.collection('states').doc(userId).set({
+      pendingQuickReply: admin.firestore.FieldValue.delete(),
+      quickReplyStartTime: admin.firestore.FieldValue.delete(),
+      ...(claimed.ok ? { lastButtonPressTs: Date.now() } : {}),
+    }, { merge: true });
+
+    if (!claimed.ok) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: claimed.message,
+      });
+    }
+
+    const room = rooms.find((r) => r.id === roomId);
+    const roomLine = rooms.length > 1 ? `\n部屋: ${room?.name || roomId}` : '';
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: `✅ 空き枠を予約しました（確定）\n\nバンド名: ${band.name}\n日時: ${displayStr}${roomLine}\n\n来られなくなった場合は「自分の登録を見たい」から削除してください。`,
+    });
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// パターンC: 全登録表示（日付選択後）
+async function handleViewReservations(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const selectedDate = params.get('date'); // "2023-12-20"
+  const startTime = params.get('start');
+  const userId = event.source.userId!;
+
+  // タイムアウトチェック
+  if (startTime && isSessionExpired(Number(startTime))) {
+    // 特定フィールドのみ削除（lastViewMyCarouselTs、lastViewMyMorePage、lastButtonPressTsは保持）
+    await db.collection('states').doc(userId).set({
+      status: admin.firestore.FieldValue.delete(),
+      createdAt: admin.firestore.FieldValue.delete(),
+      pendingQuickReply: admin.firestore.FieldValue.delete(),
+      quickReplyStartTime: admin.firestore.FieldValue.delete(),
+    }, { merge: true });
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: '⏰ 5分間経過したため、操作をキャンセルしました。\nもう一度お試しください。',
+    });
+  }
+
+  // 状態を削除（lastViewMyCarouselTs、lastViewMyMorePage、lastButtonPressTsは保持）
+  await db.collection('states').doc(userId).set({
+    status: admin.firestore.FieldValue.delete(),
+    createdAt: admin.firestore.FieldValue.delete(),
+    pendingQuickReply: admin.firestore.FieldValue.delete(),
+    quickReplyStartTime: admin.firestore.FieldValue.delete(),
+  }, { merge: true });
+
+  try {
+    // 選択された日付の予約を取得（dateフィールドが "2023-12-20T" で始まるもの）
+    const snapshot = await db.collection('reservations')
+      .where('date', '>=', `${selectedDate}T00:00`)
+      .where('date', '<=', `${selectedDate}T23:59`)
+      .get();
+    // 辞退した枠は表示しない
+    const activeDocs = snapshot.docs.filter((doc) => doc.data().status !== 'released');
+
+    if (activeDocs.length === 0) {
+      const dateLabel = selectedDate?.replace(/-/g, '/').slice(5);
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: `📅 ${dateLabel} の登録はまだありません。`,
+      });
+    }
+
+    // 部屋・時間帯ごとに整理（抽選済みの場合は順番を保持）
+    const rooms = await getRooms(selectedDate!);
+    const config = await getConfig();
+    const reservationsByRoom: { [roomId: string]: { [key: string]: Array<{ bandName: string; status: string; order?: number; createdAt: any }> } } = {};
+
+    activeDocs.forEach((doc) => {
+      const data = doc.data();
+      const timeSlot = data.date.split('T')[1]; // "09:00-10:00"
+      const bandName = data.bandName || '(バンド名なし)';
+      const roomId = reservationRoomId(data);
+
+      if (!reservationsByRoom[roomId]) {
+        reservationsByRoom[roomId] = {};
+      }
+      const reservationsByTime = reservationsByRoom[roomId];
+      if (!reservationsByTime[timeSlot]) {
+        reservationsByTime[timeSlot] = [];
+      }
+      reservationsByTime[timeSlot].push({
+        bandName,
+        status: data.status,
+        order: data.order,
+        createdAt: data.createdAt,
+      });
+    });
+
+    // メッセージを組み立て
+    const dateLabel = selectedDate?.replace(/-/g, '/').slice(5);
+    let message = `📅 ${dateLabel} の登録状況\n${'─'.repeat(15)}\n`;
+
+    // 部屋の表示順（現在の部屋一覧にない部屋は最後）
+    const roomOrder = [
+      ...rooms.map((room) => room.id),
+      ...Object.keys(reservationsByRoom).filter((roomId) => !rooms.some((room) => room.id === roomId)),
+    ];
+    const showRoomName = rooms.length > 1 || Object.keys(reservationsByRoom).length > 1;
+
+    for (const roomId of roomOrder) {
+      const reservationsByTime = reservationsByRoom[roomId];
+      if (!reservationsByTime) continue;
+
+      if (showRoomName) {
+        const roomName = rooms.find((room) => room.id === roomId)?.name || roomId;
+        message += `\n🏠 ${roomName}\n`;
+      }
+
+      // 時間枠の設定順（設定から削除された枠の予約も後ろに表示）
+      const timeSlots = timeSlotsOfRoom(rooms, roomId, config.timeSlots);
+      for (const timeSlot of sortBySlot(timeSlots, Object.keys(reservationsByTime), (value) => value)) {
+        const reservations = reservationsByTime[timeSlot];
+        if (reservations && reservations.length > 0) {
+          message += `\n🕐 ${slotView(timeSlots, timeSlot).label}\n`;
+
+          // 抽選済みかどうかをチェック（全てconfirmed/waitlistedならソート）
+          const allConfirmed = reservations.every(r => r.status === 'confirmed' || r.status === 'waitlisted');
+
+          if (allConfirmed) {
+            // 抽選済み: orderがあるものを優先的にソート
+            const hasAnyOrder = reservations.some(r => r.order !== undefined);
+
+            if (hasAnyOrder) {
+              // orderがある場合: order順でソート（orderがないものは最後に配置）
+              const sorted = reservations.sort((a, b) => {
+                const orderA = a.order !== undefined ? a.order : 999;
+                const orderB = b.order !== undefined ? b.order : 999;
+                if (orderA !== orderB) return orderA - orderB;
+                // orderが同じ場合はcreatedAt順
+                const timeA = a.createdAt?.toMillis?.() || 0;
+                const timeB = b.createdAt?.toMillis?.() || 0;
+                return timeA - timeB;
+              });
+              sorted.forEach((r, index) => {
+                const waitlistMark = r.status === 'waitlisted' ? '（キャンセル待ち）' : '';
+                message += `  ${index + 1}. ${r.bandName}${waitlistMark}\n`;
+              });
+            } else {
+              // orderがない場合: createdAt順
+              const sorted = reservations.sort((a, b) => {
+                const timeA = a.createdAt?.toMillis?.() || 0;
+                const timeB = b.createdAt?.toMillis?.() || 0;
+                return timeA - timeB;
+              });
+              sorted.forEach((r, index) => {
+                const waitlistMark = r.status === 'waitlisted' ? '（キャンセル待ち）' : '';
+                message += `  ${index + 1}. ${r.bandName}${waitlistMark}\n`;
+              });
+            }
+          } else {
+            // 抽選前: 順番なしで表示
+            reservations.forEach((r) => {
+              message += `  ・${r.bandName}\n`;
+            });
+          }
+        }
+      }
+    }
+
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: message.trim(),
+    });
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// パターンD: 予約編集（バンド名入力待ち状態にする）
+async function handleEditReservation(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const ts = params.get('ts');
+  const userId = event.source.userId!;
+
+  // ボタンの有効性チェック
+  const errorReply = await checkButtonAndGetErrorReply(event, userId, ts);
+  if (errorReply) {
+    return client.replyMessage(event.replyToken, errorReply);
+  }
+
+  // 抽選時間チェック
+  if (await isLotteryTime()) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: await lotteryTimeMessage(),
+    });
+  }
+
+  const docId = params.get('docId');
+
+  // 操作権限チェック
+  const access = await authorizeReservation(db, docId, userId);
+  if (!access.ok) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: access.message,
+    });
+  }
+
+  // 編集対象のドキュメントIDを状態に保存（lastButtonPressTsも一緒に保存）
+  await db.collection('states').doc(userId).set({
+    status: 'EDITING_BAND_NAME',
+    editingDocId: docId,
+    createdAt: new Date(),
+    lastButtonPressTs: Date.now(),
+  });
+
+  return client.replyMessage(event.replyToken, {
+    type: 'text',
+    text: '変更先の【バンド名】を入力してください（参加しているバンドのみ）。\n(中断する場合は「キャンセル」と送ってください)',
+  });
+}
+
+// パターンE: 削除確認
+async function handleConfirmDelete(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const ts = params.get('ts');
+  const userId = event.source.userId!;
+
+  // ボタンの有効性チェック（recordPress: trueで他のボタンを無効化）
+  const errorReply = await checkButtonAndGetErrorReply(event, userId, ts, { recordPress: true });
+  if (errorReply) {
+    return client.replyMessage(event.replyToken, errorReply);
+  }
+
+  const docId = params.get('docId');
+  const bandName = decodeURIComponent(params.get('band') || '');
+
+  // 操作権限チェック（抽選後の確定・キャンセル待ちも削除可能）
+  const access = await authorizeReservation(db, docId, userId, DELETABLE_STATUSES);
+  if (!access.ok) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: access.message,
+    });
+  }
+
+  return replyDeleteConfirm(event, userId, docId!, bandName, access.data.status);
+}
+
+// 削除確認ダイアログを返信する
+async function replyDeleteConfirm(
+  event: line.PostbackEvent,
+  userId: string,
+  docId: string,
+  bandName: string,
+  reservationStatus: string
+) {
+  // 確定済みの枠は辞退として取り消し、キャンセル待ちのバンドが繰り上がる
+  const confirmText = reservationStatus === 'confirmed'
+    ? `「${bandName}」の確定済みの登録を取り消しますか？\n(辞退として記録され、キャンセル待ちのバンドが繰り上がります)`
+    : `「${bandName}」の登録を削除しますか？`;
+
+  const confirmTs = Date.now() + 10; // 確認ダイアログ生成時刻（lastButtonPressTsより確実に大きくするため+10ms）
+
+  // 確認ダイアログ待ち状態を保存（lastButtonPressTsは上書きしない）
+  await db.collection('states').doc(userId).set({
+    status: 'WAITING_DELETE_CONFIRM',
+    deletingDocId: docId,
+    deletingBandName: bandName,
+    createdAt: new Date(),
+  }, { merge: true });
+
+  return client.replyMessage(event.replyToken, {
+    type: 'template',
+    altText: '削除確認',
+    template: {
+      type: 'confirm',
+      text: confirmText,
+      actions: [
+        {
+          type: 'postback',
+          label: 'はい、削除する',
+          data: `action=delete_reservation&docId=${docId}&ts=${confirmTs}`,
+        },
+        {
+          type: 'postback',
+          label: 'いいえ',
+          data: `action=cancel_delete&ts=${confirmTs}`,
+        },
+      ],
+    },
+  });
+}
+
+// パターンE2: リマインダーの「辞退する」ボタン → 辞退確認
+async function handleReleaseSlot(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const docId = params.get('docId');
+  const userId = event.source.userId!;
+
+  // 確定済みの予約のみ辞退できる
+  const access = await authorizeReservation(db, docId, userId, ['confirmed']);
+  if (!access.ok) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: access.message,
+    });
+  }
+
+  // 他のカルーセルのボタンを無効化
+  await recordButtonPress(userId);
+
+  return replyReleaseConfirm(event, userId, docId!, access.data);
+}
+
+// パターンE3: カルーセルの「辞退する」ボタン → 辞退確認
+async function handleConfirmRelease(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const ts = params.get('ts');
+  const userId = event.source.userId!;
+
+  // ボタンの有効性チェック（recordPress: trueで他のボタンを無効化）
+  const errorReply = await checkButtonAndGetErrorReply(event, userId, ts, { recordPress: true });
+  if (errorReply) {
+    return client.replyMessage(event.replyToken, errorReply);
+  }
+
+  const docId = params.get('docId');
+
+  // 確定済みの予約のみ辞退できる
+  const access = await authorizeReservation(db, docId, userId, ['confirmed']);
+  if (!access.ok) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: access.message,
+    });
+  }
+
+  return replyReleaseConfirm(event, userId, docId!, access.data);
+}
+
+// 辞退確認ダイアログを返信する
+async function replyReleaseConfirm(
+  event: line.PostbackEvent,
+  userId: string,
+  docId: string,
+  reservation: admin.firestore.DocumentData
+) {
+  const bandName = reservation.bandName || '(バンド名なし)';
+  const confirmTs = Date.now() + 10; // 確認ダイアログ生成時刻（lastButtonPressTsより確実に大きくするため+10ms）
+
+  // 確認ダイアログ待ち状態を保存（lastButtonPressTsは上書きしない）
+  await db.collection('states').doc(userId).set({
+    status: 'WAITING_RELEASE_CONFIRM',
+    releasingDocId: docId,
+    releasingBandName: bandName,
+    createdAt: new Date(),
+  }, { merge: true });
+
+  return client.replyMessage(event.replyToken, {
+    type: 'template',
+    altText: '辞退確認',
+    template: {
+      type: 'confirm',
+      text: `「${bandName}」の ${formatSlot(reservation.date)} の確定枠を辞退しますか？\n(キャンセル待ちのバンドが繰り上がります)`,
+      actions: [
+        {
+          type: 'postback',
+          label: 'はい、辞退する',
+          data: `action=release_reservation&docId=${docId}&ts=${confirmTs}`,
+        },
+        {
+          type: 'postback',
+          label: 'いいえ',
+          data: `action=cancel_release&ts=${confirmTs}`,
+        },
+      ],
+    },
+  });
+}
+
+// 辞退確認の状態の特定フィールドのみ削除（lastButtonPressTsは保持して元のカルーセルのボタンを無効に保つ）
+async function clearReleaseState(userId: string) {
+  await db.collection('states').doc(userId).set({
+    status: admin.firestore.FieldValue.delete(),
+    releasingDocId: admin.firestore.FieldValue.delete(),
+    releasingBandName: admin.firestore.FieldValue.delete(),
+    createdAt: admin.firestore.FieldValue.delete(),
+  }, { merge: true });
+}
+
+// パターンE4: 辞退実行
+async function handleReleaseReservation(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const ts = params.get('ts');
+  const userId = event.source.userId!;
+
+  // ボタンの有効性チェック
+  const errorReply = await checkButtonAndGetErrorReply(event, userId, ts, { recordPress: true, dialogType: 'confirm' });
+  if (errorReply) {
+    return client.replyMessage(event.replyToken, errorReply);
+  }
+
+  const docId = params.get('docId');
+  await clearReleaseState(userId);
+
+  try {
+    const access = await releaseReservation(db, docId, userId);
+    if (!access.ok) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: access.message,
+      });
+    }
+
+    const promoted = await fillReleasedSlot(db, client, access.data);
+
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: promoted
+        ? `🙅 ${formatSlot(access.data.date)} の枠を辞退しました。\n「${promoted.bandName}」が繰り上がりました。`
+        : `🙅 ${formatSlot(access.data.date)} の枠を辞退しました。\nキャンセル待ちのバンドがいないため、空き枠になりました。`,
+    });
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// パターンE5: 辞退キャンセル
+async function handleCancelRelease(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const ts = params.get('ts');
+  const userId = event.source.userId!;
+
+  // ボタンの有効性チェック
+  const errorReply = await checkButtonAndGetErrorReply(event, userId, ts, { recordPress: true, dialogType: 'confirm' });
+  if (errorReply) {
+    return client.replyMessage(event.replyToken, errorReply);
+  }
+
+  await clearReleaseState(userId);
+
+  return client.replyMessage(event.replyToken, {
+    type: 'text',
+    text: '辞退をキャンセルしました。',
+  });
+}
+
+// パターンF: 削除実行
+async function handleDeleteReservation(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const ts = params.get('ts');
+  const userId = event.source.userId!;
 
-    return client.replyMessage(event.replyToken, {
-      type: 'text',
-      text: `「${bandName}」で登録を進めます。\n予約する日付を選択してください👇`,
-      quickReply: {
-        items: quickReplyItems,
-      },
-    });
+  // ボタンの有効性チェック
+  const errorReply = await checkButtonAndGetErrorReply(event, userId, ts, { recordPress: true, dialogType: 'confirm' });
+  if (errorReply) {
+    return client.replyMessage(event.replyToken, errorReply);
   }
 
-  // バンド名編集中の場合
-  if (stateData && stateData.status === 'EDITING_BAND_NAME') {
-    // 予約語が入力された場合は警告
-    if (isReservedWord) {
-      return client.replyMessage(event.replyToken, {
-        type: 'text',
-        text: `⚠️「${userText}」は予約語のため、バンド名として使用できません。\n\n別のバンド名を入力してください。\n(中断する場合は「キャンセル」と送ってください)`,
-      });
-    }
-
-    const newBandName = userText;
-    const docId = stateData.editingDocId;
+  const docId = params.get('docId');
 
-    // 状態の特定フィールドのみ削除（lastButtonPressTsは保持して元のカルーセルのボタンを無効に保つ）
-    await db.collection('states').doc(userId).set({
-      status: admin.firestore.FieldValue.delete(),
-      editingDocId: admin.firestore.FieldValue.delete(),
-      createdAt: admin.firestore.FieldValue.delete(),
-    }, { merge: true });
+  // 状態の特定フィールドのみ削除（lastButtonPressTsは保持して元のカルーセルのボタンを無効に保つ）
+  await db.collection('states').doc(userId).set({
+    status: admin.firestore.FieldValue.delete(),
+    deletingDocId: admin.firestore.FieldValue.delete(),
+    deletingBandName: admin.firestore.FieldValue.delete(),
+    createdAt: admin.firestore.FieldValue.delete(),
+  }, { merge: true });
 
-    try {
-      await db.collection('reservations').doc(docId).update({
-        bandName: newBandName,
-      });
+  try {
+    // 確定した枠は辞退と同じ処理にする（抽選結果の順位表から外し、繰り上げてBANDに投稿する）
+    const current = await authorizeReservation(db, docId, userId, DELETABLE_STATUSES);
+    if (current.ok && current.data.status === 'confirmed') {
+      const released = await releaseReservation(db, docId, userId);
+      if (!released.ok) {
+        return client.replyMessage(event.replyToken, {
+          type: 'text',
+          text: released.message,
+        });
+      }
 
+      const promoted = await fillReleasedSlot(db, client, released.data);
       return client.replyMessage(event.replyToken, {
         type: 'text',
-        text: `✅ バンド名を「${newBandName}」に更新しました。`,
+        text: promoted
+          ? `🗑️ 確定した枠を辞退として取り消しました。\n「${promoted.bandName}」が繰り上がりました。`
+          : '🗑️ 確定した枠を辞退として取り消しました。\nキャンセル待ちのバンドがいないため、空き枠になりました。',
       });
-    } catch (err) {
-      console.error(err);
+    }
+
+    const access = await deleteOwnedReservation(db, docId, userId);
+    if (!access.ok) {
       return client.replyMessage(event.replyToken, {
         type: 'text',
-        text: MESSAGES.ERROR,
+        text: access.message,
       });
     }
-  }
 
-  // 削除確認ダイアログ待ちの場合
-  if (stateData && stateData.status === 'WAITING_DELETE_CONFIRM') {
-    const bandName = stateData.deletingBandName || '';
     return client.replyMessage(event.replyToken, {
       type: 'text',
-      text: `⚠️「${bandName}」の削除確認中です。\n\n確認ダイアログで「はい、削除する」または「いいえ」を選択してください。\n(中断する場合は「キャンセル」と送ってください)`,
+      text: '🗑️ 登録を削除しました。',
+    });
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
     });
   }
+}
 
-  // クイックリプライが必要な状態の場合 → 共通関数で再表示
-  const ongoingReply = await getOngoingOperationReply(userId, { isInvalidButton: false, isReservedWord });
-  if (ongoingReply) {
-    return client.replyMessage(event.replyToken, ongoingReply);
+// パターンF2: 削除キャンセル
+async function handleCancelDelete(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const ts = params.get('ts');
+  const userId = event.source.userId!;
+
+  // ボタンの有効性チェック
+  const errorReply = await checkButtonAndGetErrorReply(event, userId, ts, { recordPress: true, dialogType: 'confirm' });
+  if (errorReply) {
+    return client.replyMessage(event.replyToken, errorReply);
   }
 
+  // 状態の特定フィールドのみ削除（lastButtonPressTsは保持して元のカルーセルのボタンを無効に保つ）
+  await db.collection('states').doc(userId).set({
+    status: admin.firestore.FieldValue.delete(),
+    deletingDocId: admin.firestore.FieldValue.delete(),
+    deletingBandName: admin.firestore.FieldValue.delete(),
+    createdAt: admin.firestore.FieldValue.delete(),
+  }, { merge: true });
+
+  return client.replyMessage(event.replyToken, {
+    type: 'text',
+    text: '削除をキャンセルしました。',
+  });
+}
+
+// パターンG: バンド名更新（テキスト入力後に呼ばれる）
+async function handleUpdateBandName(event: line.PostbackEvent, data: string) {
+  // この関数は使わない（handleOtherInputで処理）
   return Promise.resolve(null);
 }
 
-// ---------------------------------------------------------
-// 5. ボタン操作への返信 (バンド名を持ち回る)
-// ---------------------------------------------------------
-async function handlePostbackEvent(event: line.PostbackEvent) {
-  const data = event.postback.data;
+// パターンH: 自分の登録をさらに表示
+async function handleViewMyMore(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const ts = params.get('ts');
+  const userId = event.source.userId!;
 
-  // パターンA: 日付が選ばれたら → 「時間」を聞く
-  if (data.startsWith('action=select_date')) {
-    return handleSelectDate(event, data);
+  // ボタンの有効性チェック（他の操作に影響を与えないよう押下時刻を記録しない）
+  const errorReply = await checkButtonAndGetErrorReply(event, userId, ts);
+  if (errorReply) {
+    return client.replyMessage(event.replyToken, errorReply);
   }
 
-  // パターンB: 時間も選ばれて、最終確定したとき
-  if (data.startsWith('action=finalize')) {
-    return handleFinalize(event, data);
-  }
+  const page = parseInt(params.get('page') || '0', 10);
+  const originalTs = ts ? Number(ts) : undefined;
 
-  // パターンC: 全登録表示（日付選択後）
-  if (data.startsWith('action=view_reservations')) {
-    return handleViewReservations(event, data);
+  // 「さらに表示」の重複押下チェック
+  if (originalTs && !(await isViewMyMoreValid(userId, page, originalTs))) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: '⚠️ このボタンは既に押されています。\n「自分の登録を見たい」と送って最新の一覧を取得してください。',
+    });
   }
 
-  // パターンD: 予約編集
-  if (data.startsWith('action=edit_reservation')) {
-    return handleEditReservation(event, data);
+  // 押下を記録
+  if (originalTs) {
+    await recordViewMyMore(userId, page, originalTs);
   }
 
-  // パターンE: 削除確認
-  if (data.startsWith('action=confirm_delete')) {
-    return handleConfirmDelete(event, data);
-  }
+  // 元のタイムスタンプを引き継いでカルーセルを表示
+  return handleViewMyReservations(event, userId, page, originalTs);
+}
 
-  // パターンF: 削除実行
-  if (data.startsWith('action=delete_reservation')) {
-    return handleDeleteReservation(event, data);
-  }
+// パターンI: 日時編集開始
+async function handleEditDateTime(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const ts = params.get('ts');
+  const userId = event.source.userId!;
 
-  // パターンF2: 削除キャンセル
-  if (data.startsWith('action=cancel_delete')) {
-    return handleCancelDelete(event, data);
+  // ボタンの有効性チェック
+  const errorReply = await checkButtonAndGetErrorReply(event, userId, ts);
+  if (errorReply) {
+    return client.replyMessage(event.replyToken, errorReply);
   }
 
-  // パターンG: バンド名更新確定
-  if (data.startsWith('action=update_band_name')) {
-    return handleUpdateBandName(event, data);
+  // 抽選時間チェック
+  if (await isLotteryTime()) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: await lotteryTimeMessage(),
+    });
   }
 
-  // パターンH: 自分の登録をさらに表示
-  if (data.startsWith('action=view_my_more')) {
-    return handleViewMyMore(event, data);
-  }
+  const docId = params.get('docId');
+  const startTime = Date.now(); // 編集開始時刻
 
-  // パターンI: 日時編集開始
-  if (data.startsWith('action=edit_datetime')) {
-    return handleEditDateTime(event, data);
+  // 操作権限チェック
+  const access = await authorizeReservation(db, docId, userId);
+  if (!access.ok) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: access.message,
+    });
   }
 
-  // パターンJ: 日時編集 - 日付選択後
-  if (data.startsWith('action=edit_select_date')) {
-    return handleEditSelectDate(event, data);
-  }
+  const availableDates = await getAvailableDateList();
 
-  // パターンK: 日時編集 - 時間選択後（確定）
-  if (data.startsWith('action=edit_finalize')) {
-    return handleEditFinalize(event, data);
+  if (availableDates.length === 0) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.NO_AVAILABLE_DATES,
+    });
   }
+
+  // 日付選択のクイックリプライを作成
+  const quickReplyItems: line.QuickReplyItem[] = availableDates.map((d) => ({
+    type: 'action',
+    action: {
+      type: 'postback',
+      label: d.label,
+      data: `action=edit_select_date&docId=${docId}&date=${d.value}&start=${startTime}`,
+    },
+  }));
+
+  // 状態を保存（クイックリプライ情報も一緒に保存）
+  await db.collection('states').doc(userId).set({
+    status: 'EDITING_DATETIME',
+    editingDocId: docId,
+    createdAt: new Date(),
+    lastButtonPressTs: Date.now(),
+    pendingQuickReply: quickReplyItems,
+    quickReplyStartTime: startTime,
+  });
+
+  return client.replyMessage(event.replyToken, {
+    type: 'text',
+    text: '新しい日付を選択してください👇\n(中断する場合は「キャンセル」と送ってください)',
+    quickReply: {
+      items: quickReplyItems,
+    },
+  });
 }
 
-// パターンA: 日付選択 → 時間選択を促す
-async function handleSelectDate(event: line.PostbackEvent, data: string) {
+// パターンJ: 日時編集 - 日付選択後 → 時間選択を促す
+async function handleEditSelectDate(event: line.PostbackEvent, data: string) {
   const params = new URLSearchParams(data);
+  const docId = params.get('docId');
   const selectedDate = params.get('date');
-  const bandName = params.get('band');
   const startTime = params.get('start');
+  const userId = event.source.userId!;
 
   // タイムアウトチェック
   if (startTime && isSessionExpired(Number(startTime))) {
+    // 特定フィールドのみ削除（lastViewMyCarouselTs、lastViewMyMorePage、lastButtonPressTsは保持）
+    await db.collection('states').doc(userId).set({
+      status: admin.firestore.FieldValue.delete(),
+      editingDocId: admin.firestore.FieldValue.delete(),
+      createdAt: admin.firestore.FieldValue.delete(),
+      pendingQuickReply: admin.firestore.FieldValue.delete(),
+      quickReplyStartTime: admin.firestore.FieldValue.delete(),
+    }, { merge: true });
     return client.replyMessage(event.replyToken, {
       type: 'text',
-      text: '⏰ 5分間経過したため、登録をキャンセルしました。\nもう一度「登録したい」と送ってください。',
+      text: '⏰ 5分間経過したため、編集をキャンセルしました。\nもう一度お試しください。',
     });
   }
 
   const dateObj = new Date(selectedDate!);
   const dateLabel = `${dateObj.getMonth() + 1}/${dateObj.getDate()}`;
-  const userId = event.source.userId!;
 
-  // 時間枠をFirestoreから取得
-  const timeSlots = await getTimeSlots();
+  // 予約している部屋の時間枠を取得（部屋は変更しない）
+  const access = await authorizeReservation(db, docId, userId);
+  if (!access.ok) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: access.message,
+    });
+  }
+  const rooms = await getRooms(selectedDate!);
+  const room = rooms.find((r) => r.id === reservationRoomId(access.data));
+  const timeSlots = room ? room.timeSlots : await getTimeSlots();
 
-  // クイックリプライ作成
   const quickReplyItems: line.QuickReplyItem[] = timeSlots.map((slot) => ({
     type: 'action',
     action: {
       type: 'postback',
       label: slot.label,
-      // 開始時刻も次のデータに引き継ぐ
-      data: `action=finalize&date=${selectedDate}&time=${slot.value}&band=${bandName}&start=${startTime}`,
+      data: `action=edit_finalize&docId=${docId}&date=${selectedDate}&time=${slot.value}&start=${startTime}`,
     },
   }));
 
-  // 時間選択のクイックリプライ情報を保存
+  // 状態を更新（クイックリプライ情報も一緒に保存）
   await db.collection('states').doc(userId).set({
+    status: 'EDITING_DATETIME_TIME',
+    editingDocId: docId,
+    editSelectedDate: selectedDate,
+    createdAt: new Date(),
+    lastButtonPressTs: Date.now(),
     pendingQuickReply: quickReplyItems,
     quickReplyStartTime: Number(startTime),
-  }, { merge: true });
+  });
 
   return client.replyMessage(event.replyToken, {
     type: 'text',
-    text: `📅 ${dateLabel} ですね。\n利用時間を選んでください👇`,
+    text: `📅 ${dateLabel} ですね。\n新しい時間を選択してください👇`,
     quickReply: {
       items: quickReplyItems,
     },
   });
 }
 
-// パターンB: 時間選択 → 予約確定
-async function handleFinalize(event: line.PostbackEvent, data: string) {
+// パターンK: 日時編集 - 時間選択後（確定）
+async function handleEditFinalize(event: line.PostbackEvent, data: string) {
   const params = new URLSearchParams(data);
+  const docId = params.get('docId');
   const selectedDate = params.get('date');
   const selectedTime = params.get('time');
-  const bandName = decodeURIComponent(params.get('band') || '');
   const startTime = params.get('start');
+  const userId = event.source.userId!;
 
   // タイムアウトチェック
   if (startTime && isSessionExpired(Number(startTime))) {
+    await db.collection('states').doc(userId).delete();
     return client.replyMessage(event.replyToken, {
       type: 'text',
-      text: '⏰ 5分間経過したため、登録をキャンセルしました。\nもう一度「登録したい」と送ってください。',
+      text: '⏰ 5分間経過したため、編集をキャンセルしました。\nもう一度お試しください。',
     });
   }
 
-  const finalDateTimeStr = `${selectedDate}T${selectedTime}`;
+  // 状態の特定フィールドのみ削除（lastButtonPressTsは保持して元のカルーセルのボタンを無効に保つ）
+  await db.collection('states').doc(userId).set({
+    status: admin.firestore.FieldValue.delete(),
+    editingDocId: admin.firestore.FieldValue.delete(),
+    editSelectedDate: admin.firestore.FieldValue.delete(),
+    createdAt: admin.firestore.FieldValue.delete(),
+    pendingQuickReply: admin.firestore.FieldValue.delete(),
+    quickReplyStartTime: admin.firestore.FieldValue.delete(),
+  }, { merge: true });
+
+  const newDateTime = `${selectedDate}T${selectedTime}`;
   const displayStr = `${selectedDate?.replace(/-/g, '/').slice(5)} ${selectedTime}`;
-  const userId = event.source.userId;
 
   try {
-    // Firestoreに保存（バンド名も追加！）
-    await db.collection('reservations').add({
-      userId: userId,
-      bandName: bandName, // ★追加
-      date: finalDateTimeStr,
-      status: 'pending',
-      createdAt: new Date(),
+    const closedMessage = await getClosedDateMessage(selectedDate!);
+    if (closedMessage) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: closedMessage,
+      });
+    }
+
+    const { limits } = await getConfig();
+    const access = await updateOwnedReservation(db, docId, userId, {
+      date: newDateTime,
+    }, async (tx, updated) => {
+      const violation = await checkRegistrationRules(db, tx, {
+        userId,
+        bandName: updated.bandName || '',
+        bandId: updated.bandId,
+        date: updated.date,
+      }, limits, docId!);
+      return violation ? violation.message : null;
     });
+    if (!access.ok) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: access.message,
+      });
+    }
 
-    // 予約完了後、クイックリプライ情報を削除し、lastButtonPressTsを更新（登録が増えたので古いカルーセルを無効化）
-    await db.collection('states').doc(userId!).set({
-      pendingQuickReply: admin.firestore.FieldValue.delete(),
-      quickReplyStartTime: admin.firestore.FieldValue.delete(),
-      lastButtonPressTs: Date.now(),
-    }, { merge: true });
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: `✅ 日時を「${displayStr}」に更新しました。`,
+    });
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
+  }
+}
+
+// パターンL: 予約から毎週登録を作る
+async function handleCreateStandingRequest(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const docId = params.get('docId');
+  const userId = event.source.userId!;
 
+  try {
+    const access = await authorizeReservation(db, docId, userId, DELETABLE_STATUSES);
+    if (!access.ok) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: access.message,
+      });
+    }
+
+    // バンドのメンバーであるうちは、毎週そのバンドで登録する
+    const band = await getMemberBand(db, access.data.bandId, userId);
+    if (!band) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: MESSAGES.NOT_BAND_MEMBER,
+      });
+    }
+
+    const result = await createStandingRequest(db, userId, { ...access.data, bandName: band.name });
+    if (!result.ok) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: result.message,
+      });
+    }
+
+    const description = describeStandingRequest(result.request);
     return client.replyMessage(event.replyToken, {
       type: 'text',
-      text: `✅ 予約を受け付けました\n\nバンド名: ${bandName}\n日時: ${displayStr}\n\n抽選結果をお待ちください。`,
+      text: result.created
+        ? `🔁 毎週登録しました\n\nバンド名: ${band.name}\n${description}\n\n毎晩の抽選後に、翌週の同じ枠が自動で登録されます（抽選待ち）。\n確認・停止は「毎週登録」と送ってください。`
+        : `🔁 既に毎週登録されています\n\nバンド名: ${band.name}\n${description}`,
     });
   } catch (err) {
     console.error(err);
@@ -891,124 +3204,186 @@ async function handleFinalize(event: line.PostbackEvent, data: string) {
   }
 }
 
-// パターンC: 全登録表示（日付選択後）
-async function handleViewReservations(event: line.PostbackEvent, data: string) {
+// パターンL2: 毎週登録の一時停止・再開・解除 → 最新の一覧を表示
+async function handleUpdateStandingRequest(event: line.PostbackEvent, data: string) {
   const params = new URLSearchParams(data);
-  const selectedDate = params.get('date'); // "2023-12-20"
-  const startTime = params.get('start');
+  const action = params.get('action');
+  const id = params.get('id');
   const userId = event.source.userId!;
 
-  // タイムアウトチェック
-  if (startTime && isSessionExpired(Number(startTime))) {
-    // 特定フィールドのみ削除（lastViewMyCarouselTs、lastViewMyMorePage、lastButtonPressTsは保持）
-    await db.collection('states').doc(userId).set({
-      status: admin.firestore.FieldValue.delete(),
-      createdAt: admin.firestore.FieldValue.delete(),
-      pendingQuickReply: admin.firestore.FieldValue.delete(),
-      quickReplyStartTime: admin.firestore.FieldValue.delete(),
-    }, { merge: true });
+  try {
+    const result = action === 'weekly_delete'
+      ? await deleteStandingRequest(db, id, userId)
+      : await setStandingRequestStatus(db, id, userId, action === 'weekly_pause' ? 'paused' : 'active');
+    if (!result.ok) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: result.message,
+      });
+    }
+
+    const description = `「${result.request.bandName}」${describeStandingRequest(result.request)}`;
+    const headline = action === 'weekly_delete'
+      ? `🗑️ ${description} の毎週登録を解除しました。\n登録済みの予約はそのまま残ります。\n\n`
+      : action === 'weekly_pause'
+        ? `⏸️ ${description} の毎週登録を一時停止しました。\n\n`
+        : `▶️ ${description} の毎週登録を再開しました。\n\n`;
+    return handleViewStandingRequests(event, userId, headline);
+  } catch (err) {
+    console.error(err);
     return client.replyMessage(event.replyToken, {
       type: 'text',
-      text: '⏰ 5分間経過したため、操作をキャンセルしました。\nもう一度お試しください。',
+      text: MESSAGES.ERROR,
     });
   }
+}
 
-  // 状態を削除（lastViewMyCarouselTs、lastViewMyMorePage、lastButtonPressTsは保持）
+// 譲渡・交換の状態をクリアする（lastButtonPressTs などは保持）
+async function clearOfferState(userId: string): Promise<void> {
   await db.collection('states').doc(userId).set({
     status: admin.firestore.FieldValue.delete(),
     createdAt: admin.firestore.FieldValue.delete(),
+    offeringDocId: admin.firestore.FieldValue.delete(),
+    offerType: admin.firestore.FieldValue.delete(),
     pendingQuickReply: admin.firestore.FieldValue.delete(),
     quickReplyStartTime: admin.firestore.FieldValue.delete(),
   }, { merge: true });
+}
+
+// 枠の表示（例: "12/20 10:00-12:00"）
+function formatSlot(date: string): string {
+  const [datePart, timePart] = date.split('T');
+  return `${datePart.replace(/-/g, '/').slice(5)} ${timePart}`;
+}
+
+// パターンM: 確定した枠の譲渡・交換 → 相手のバンド名の入力待ちにする
+async function handleOfferSlot(event: line.PostbackEvent, data: string) {
+  const params = new URLSearchParams(data);
+  const ts = params.get('ts');
+  const docId = params.get('docId');
+  const offerType: SlotOfferType = params.get('type') === 'swap' ? 'swap' : 'transfer';
+  const userId = event.source.userId!;
+
+  // ボタンの有効性チェック（recordPress: trueで他のボタンを無効化）
+  const errorReply = await checkButtonAndGetErrorReply(event, userId, ts, { recordPress: true });
+  if (errorReply) {
+    return client.replyMessage(event.replyToken, errorReply);
+  }
+
+  const access = await authorizeReservation(db, docId, userId, ['confirmed']);
+  if (!access.ok) {
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: access.reason === 'invalid_status' ? '⚠️ 譲渡・交換できるのは確定した枠だけです。' : access.message,
+    });
+  }
+
+  await db.collection('states').doc(userId).set({
+    status: 'WAITING_OFFER_BAND',
+    offeringDocId: docId,
+    offerType,
+    createdAt: new Date(),
+  }, { merge: true });
 
+  const action = offerType === 'swap' ? '交換する' : '譲る';
+  return client.replyMessage(event.replyToken, {
+    type: 'text',
+    text: `${formatSlot(access.data.date)} の枠を${action}相手の【バンド名】を入力してください。\n(中断する場合は「キャンセル」と送ってください)`,
+  });
+}
+
+// 相手のバンド名の入力 → 譲渡なら確認ダイアログ、交換なら相手の確定枠を選んでもらう
+async function handleOfferBandInput(
+  event: line.MessageEvent,
+  userId: string,
+  userText: string,
+  docId: string,
+  offerType: SlotOfferType
+) {
   try {
-    // 選択された日付の予約を取得（dateフィールドが "2023-12-20T" で始まるもの）
-    const snapshot = await db.collection('reservations')
-      .where('date', '>=', `${selectedDate}T00:00`)
-      .where('date', '<=', `${selectedDate}T23:59`)
-      .get();
+    const access = await authorizeReservation(db, docId, userId, ['confirmed']);
+    if (!access.ok) {
+      await clearOfferState(userId);
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: access.message,
+      });
+    }
 
-    if (snapshot.empty) {
-      const dateLabel = selectedDate?.replace(/-/g, '/').slice(5);
+    const toBand = await findBandByName(db, userText);
+    if (!toBand) {
       return client.replyMessage(event.replyToken, {
         type: 'text',
-        text: `📅 ${dateLabel} の登録はまだありません。`,
+        text: `⚠️「${userText}」というバンドは登録されていません。\nバンド名を確認してもう一度入力してください。\n(中断する場合は「キャンセル」と送ってください)`,
+      });
+    }
+    if (toBand.id === access.data.bandId) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: '⚠️ 自分のバンドには譲渡・交換できません。\n相手のバンド名を入力してください。\n(中断する場合は「キャンセル」と送ってください)',
       });
     }
 
-    // 時間帯ごとに整理（抽選済みの場合は順番を保持）
-    const timeSlotOrder = ['09:00-10:00', '10:00-12:00', '12:00-14:00', '14:00-16:00', '16:00-18:00', '18:00-20:00'];
-    const reservationsByTime: { [key: string]: Array<{ bandName: string; status: string; order?: number; createdAt: any }> } = {};
+    if (offerType === 'transfer') {
+      return replyOfferConfirm(event, userId, {
+        type: 'transfer',
+        docId,
+        toBandId: toBand.id,
+        targetDocId: null,
+        text: `${formatSlot(access.data.date)} の枠を「${toBand.name}」に譲る申し込みをしますか？\n(「${toBand.name}」のメンバーが受け入れると譲渡されます)`,
+      });
+    }
 
-    snapshot.forEach((doc) => {
-      const data = doc.data();
-      const timeSlot = data.date.split('T')[1]; // "09:00-10:00"
-      const bandName = data.bandName || '(バンド名なし)';
+    // 交換: 相手のバンドの、利用開始前の確定枠を選んでもらう
+    const snapshot = await db.collection('reservations')
+      .where('bandId', '==', toBand.id)
+      .get();
+    const targets = snapshot.docs
+      .filter((doc) => {
+        const r = doc.data();
+        const [datePart, timePart] = r.date.split('T');
+        return r.status === 'confirmed'
+          && !hasSlotStarted(datePart, timePart)
+          && !(r.date === access.data.date && reservationRoomId(r) === reservationRoomId(access.data));
+      })
+      .sort((a, b) => a.data().date.localeCompare(b.data().date))
+      .slice(0, 13); // クイックリプライは13件まで
 
-      if (!reservationsByTime[timeSlot]) {
-        reservationsByTime[timeSlot] = [];
-      }
-      reservationsByTime[timeSlot].push({
-        bandName,
-        status: data.status,
-        order: data.order,
-        createdAt: data.createdAt,
+    if (targets.length === 0) {
+      await clearOfferState(userId);
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: `⚠️「${toBand.name}」には交換できる確定済みの枠がありません。`,
       });
-    });
+    }
 
-    // メッセージを組み立て
-    const dateLabel = selectedDate?.replace(/-/g, '/').slice(5);
-    let message = `📅 ${dateLabel} の登録状況\n${'─'.repeat(15)}\n`;
+    const startTime = Date.now();
+    const rooms = await getRooms();
+    const roomNames = new Map(rooms.map((room) => [room.id, room.name]));
+    const quickReplyItems: line.QuickReplyItem[] = targets.map((doc) => {
+      const r = doc.data();
+      const roomLabel = rooms.length > 1 ? ` ${roomNames.get(reservationRoomId(r)) || reservationRoomId(r)}` : '';
+      return {
+        type: 'action',
+        action: {
+          type: 'postback',
+          label: `${formatSlot(r.date)}${roomLabel}`.slice(0, 20), // ラベルは20文字まで
+          data: `action=select_swap_target&docId=${docId}&target=${doc.id}&start=${startTime}`,
+        },
+      };
+    });
 
-    for (const timeSlot of timeSlotOrder) {
-      const reservations = reservationsByTime[timeSlot];
-      if (reservations && reservations.length > 0) {
-        message += `\n🕐 ${timeSlot}\n`;
-
-        // 抽選済みかどうかをチェック（全てconfirmedならソート）
-        const allConfirmed = reservations.every(r => r.status === 'confirmed');
-
-        if (allConfirmed) {
-          // 抽選済み: orderがあるものを優先的にソート
-          const hasAnyOrder = reservations.some(r => r.order !== undefined);
-
-          if (hasAnyOrder) {
-            // orderがある場合: order順でソート（orderがないものは最後に配置）
-            const sorted = reservations.sort((a, b) => {
-              const orderA = a.order !== undefined ? a.order : 999;
-              const orderB = b.order !== undefined ? b.order : 999;
-              if (orderA !== orderB) return orderA - orderB;
-              // orderが同じ場合はcreatedAt順
-              const timeA = a.createdAt?.toMillis?.() || 0;
-              const timeB = b.createdAt?.toMillis?.() || 0;
-              return timeA - timeB;
-            });
-            sorted.forEach((r, index) => {
-              message += `  ${index + 1}. ${r.bandName}\n`;
-            });
-          } else {
-            // orderがない場合: createdAt順
-            const sorted = reservations.sort((a, b) => {
-              const timeA = a.createdAt?.toMillis?.() || 0;
-              const timeB = b.createdAt?.toMillis?.() || 0;
-              return timeA - timeB;
-            });
-            sorted.forEach((r, index) => {
-              message += `  ${index + 1}. ${r.bandName}\n`;
-            });
-          }
-        } else {
-          // 抽選前: 順番なしで表示
-          reservations.forEach((r) => {
-            message += `  ・${r.bandName}\n`;
-          });
-        }
-      }
-    }
+    await db.collection('states').doc(userId).set({
+      pendingQuickReply: quickReplyItems,
+      quickReplyStartTime: startTime,
+    }, { merge: true });
 
     return client.replyMessage(event.replyToken, {
       type: 'text',
-      text: message.trim(),
+      text: `「${toBand.name}」の確定済みの枠です。\n${formatSlot(access.data.date)} と交換したい枠を選んでください👇\n(中断する場合は「キャンセル」と送ってください)`,
+      quickReply: {
+        items: quickReplyItems,
+      },
     });
   } catch (err) {
     console.error(err);
@@ -1019,116 +3394,152 @@ async function handleViewReservations(event: line.PostbackEvent, data: string) {
   }
 }
 
-// パターンD: 予約編集（バンド名入力待ち状態にする）
-async function handleEditReservation(event: line.PostbackEvent, data: string) {
+// パターンM2: 交換する相手の枠の選択 → 確認ダイアログ
+async function handleSelectSwapTarget(event: line.PostbackEvent, data: string) {
   const params = new URLSearchParams(data);
-  const ts = params.get('ts');
+  const docId = params.get('docId');
+  const targetDocId = params.get('target');
+  const startTime = params.get('start');
   const userId = event.source.userId!;
 
-  // ボタンの有効性チェック
-  const errorReply = await checkButtonAndGetErrorReply(event, userId, ts);
-  if (errorReply) {
-    return client.replyMessage(event.replyToken, errorReply);
-  }
-
-  // 抽選時間チェック
-  if (await isLotteryTime()) {
+  // タイムアウトチェック
+  if (startTime && isSessionExpired(Number(startTime))) {
+    await clearOfferState(userId);
     return client.replyMessage(event.replyToken, {
       type: 'text',
-      text: MESSAGES.LOTTERY_TIME,
+      text: MESSAGES.SESSION_EXPIRED,
     });
   }
 
-  const docId = params.get('docId');
-
-  // 編集対象のドキュメントIDを状態に保存（lastButtonPressTsも一緒に保存）
-  await db.collection('states').doc(userId).set({
-    status: 'EDITING_BAND_NAME',
-    editingDocId: docId,
-    createdAt: new Date(),
-    lastButtonPressTs: Date.now(),
-  });
-
-  return client.replyMessage(event.replyToken, {
-    type: 'text',
-    text: '新しい【バンド名】を入力してください。\n(中断する場合は「キャンセル」と送ってください)',
-  });
-}
-
-// パターンE: 削除確認
-async function handleConfirmDelete(event: line.PostbackEvent, data: string) {
-  const params = new URLSearchParams(data);
-  const ts = params.get('ts');
-  const userId = event.source.userId!;
+  try {
+    const access = await authorizeReservation(db, docId, userId, ['confirmed']);
+    const targetSnap = await db.collection('reservations').doc(targetDocId || '-').get();
+    if (!access.ok || !targetSnap.exists) {
+      await clearOfferState(userId);
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: access.ok ? '⚠️ 相手の枠が見つかりませんでした。' : access.message,
+      });
+    }
 
-  // ボタンの有効性チェック（recordPress: trueで他のボタンを無効化）
-  const errorReply = await checkButtonAndGetErrorReply(event, userId, ts, { recordPress: true });
-  if (errorReply) {
-    return client.replyMessage(event.replyToken, errorReply);
+    const target = targetSnap.data()!;
+    return replyOfferConfirm(event, userId, {
+      type: 'swap',
+      docId: docId!,
+      toBandId: target.bandId,
+      targetDocId: targetSnap.id,
+      text: `自分の ${formatSlot(access.data.date)} と「${target.bandName}」の ${formatSlot(target.date)} を交換する申し込みをしますか？\n(「${target.bandName}」のメンバーが受け入れると交換されます)`,
+    });
+  } catch (err) {
+    console.error(err);
+    return client.replyMessage(event.replyToken, {
+      type: 'text',
+      text: MESSAGES.ERROR,
+    });
   }
+}
 
-  const docId = params.get('docId');
-  const bandName = decodeURIComponent(params.get('band') || '');
+// 譲渡・交換の申し込みの確認ダイアログを返信する
+async function replyOfferConfirm(
+  event: line.MessageEvent | line.PostbackEvent,
+  userId: string,
+  offer: { type: SlotOfferType; docId: string; toBandId: string; targetDocId: string | null; text: string }
+) {
   const confirmTs = Date.now() + 10; // 確認ダイアログ生成時刻（lastButtonPressTsより確実に大きくするため+10ms）
 
-  // 確認ダイアログ待ち状態を保存（lastButtonPressTsは上書きしない）
   await db.collection('states').doc(userId).set({
-    status: 'WAITING_DELETE_CONFIRM',
-    deletingDocId: docId,
-    deletingBandName: bandName,
+    status: 'WAITING_OFFER_CONFIRM',
+    pendingQuickReply: admin.firestore.FieldValue.delete(),
+    quickReplyStartTime: admin.firestore.FieldValue.delete(),
     createdAt: new Date(),
   }, { merge: true });
 
+  const target = offer.targetDocId ? `&target=${offer.targetDocId}` : '';
   return client.replyMessage(event.replyToken, {
     type: 'template',
-    altText: '削除確認',
+    altText: offer.type === 'swap' ? '交換の申し込み確認' : '譲渡の申し込み確認',
     template: {
       type: 'confirm',
-      text: `「${bandName}」の登録を削除しますか？`,
+      text: offer.text.slice(0, 240), // 確認テンプレートの本文は240文字まで
       actions: [
         {
           type: 'postback',
-          label: 'はい、削除する',
-          data: `action=delete_reservation&docId=${docId}&ts=${confirmTs}`,
+          label: '申し込む',
+          data: `action=create_offer&type=${offer.type}&docId=${offer.docId}&bandId=${offer.toBandId}${target}&ts=${confirmTs}`,
         },
         {
           type: 'postback',
-          label: 'いいえ',
-          data: `action=cancel_delete&ts=${confirmTs}`,
+          label: 'やめる',
+          data: `action=abort_offer&ts=${confirmTs}`,
         },
       ],
     },
   });
 }
 
-// パターンF: 削除実行
-async function handleDeleteReservation(event: line.PostbackEvent, data: string) {
+// パターンM3: 申し込みの確定 → 相手のバンドのメンバーに受け入れ・お断りの確認を送る
+async function handleCreateOffer(event: line.PostbackEvent, data: string) {
   const params = new URLSearchParams(data);
   const ts = params.get('ts');
   const userId = event.source.userId!;
 
-  // ボタンの有効性チェック
+  // ボタンの有効性チェック（recordPress: trueで他のボタンを無効化）
   const errorReply = await checkButtonAndGetErrorReply(event, userId, ts, { recordPress: true, dialogType: 'confirm' });
   if (errorReply) {
     return client.replyMessage(event.replyToken, errorReply);
   }
-
-  const docId = params.get('docId');
-
-  // 状態の特定フィールドのみ削除（lastButtonPressTsは保持して元のカルーセルのボタンを無効に保つ）
-  await db.collection('states').doc(userId).set({
-    status: admin.firestore.FieldValue.delete(),
-    deletingDocId: admin.firestore.FieldValue.delete(),
-    deletingBandName: admin.firestore.FieldValue.delete(),
-    createdAt: admin.firestore.FieldValue.delete(),
-  }, { merge: true });
+  await clearOfferState(userId);
 
   try {
-    await db.collection('reservations').doc(docId!).delete();
+    const created = await createSlotOffer(db, userId, {
+      type: params.get('type') === 'swap' ? 'swap' : 'transfer',
+      fromReservationId: params.get('docId') || '-',
+      toBandId: params.get('bandId') || '-',
+      toReservationId: params.get('target'),
+    });
+    if (!created.ok) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: created.message,
+      });
+    }
+
+    const offer = created.offer;
+    const question = offer.type === 'swap'
+      ? `🔁「${offer.fromBandName}」から枠の交換の申し込みがありました。\n\n相手の枠: ${formatSlot(offer.fromDate)}\nあなたのバンドの枠: ${formatSlot(offer.toDate!)}\n\n交換しますか？`
+      : `🎁「${offer.fromBandName}」から枠を譲りたいという申し込みがありました。\n\n枠: ${formatSlot(offer.fromDate)}\n\n「${offer.toBandName}」で受け取りますか？`;
+
+    // 申し込みは作成済みのため、相手のメンバーへの通知に失敗しても申し込んだ人には成功を返す
+    const notified = await (async () => {
+      const toBandSnap = await db.collection('bands').doc(offer.toBandId).get();
+      const memberIds = toBandSnap.exists ? bandFromDoc(toBandSnap).memberIds : [];
+      if (memberIds.length === 0) {
+        return false;
+      }
+      await client.multicast(memberIds.slice(0, 500), {
+        type: 'template',
+        altText: offer.type === 'swap' ? '枠の交換の申し込み' : '枠の譲渡の申し込み',
+        template: {
+          type: 'confirm',
+          text: question.slice(0, 240), // 確認テンプレートの本文は240文字まで
+          actions: [
+            { type: 'postback', label: offer.type === 'swap' ? '交換する' : '受け取る', data: `action=respond_offer&offerId=${offer.id}&answer=accept` },
+            { type: 'postback', label: '断る', data: `action=respond_offer&offerId=${offer.id}&answer=decline` },
+          ],
+        },
+      });
+      return true;
+    })().catch((err) => {
+      console.error(err);
+      return false;
+    });
 
+    const notice = notified
+      ? ''
+      : `\n\n⚠️「${offer.toBandName}」のメンバーへの通知を送れませんでした。相手が回答できないため、時間をおいてもう一度申し込んでください。`;
     return client.replyMessage(event.replyToken, {
       type: 'text',
-      text: '🗑️ 登録を削除しました。',
+      text: `📨 申し込みました\n\n${describeSlotOffer(offer)}\n\n「${offer.toBandName}」のメンバーが受け入れると成立し、LINEでお知らせします。${notice}`,
     });
   } catch (err) {
     console.error(err);
@@ -1139,229 +3550,68 @@ async function handleDeleteReservation(event: line.PostbackEvent, data: string)
   }
 }
 
-// パターンF2: 削除キャンセル
-async function handleCancelDelete(event: line.PostbackEvent, data: string) {
+// パターンM3: 申し込みの中止
+async function handleAbortOffer(event: line.PostbackEvent, data: string) {
   const params = new URLSearchParams(data);
   const ts = params.get('ts');
   const userId = event.source.userId!;
 
-  // ボタンの有効性チェック
   const errorReply = await checkButtonAndGetErrorReply(event, userId, ts, { recordPress: true, dialogType: 'confirm' });
   if (errorReply) {
     return client.replyMessage(event.replyToken, errorReply);
   }
-
-  // 状態の特定フィールドのみ削除（lastButtonPressTsは保持して元のカルーセルのボタンを無効に保つ）
-  await db.collection('states').doc(userId).set({
-    status: admin.firestore.FieldValue.delete(),
-    deletingDocId: admin.firestore.FieldValue.delete(),
-    deletingBandName: admin.firestore.FieldValue.delete(),
-    createdAt: admin.firestore.FieldValue.delete(),
-  }, { merge: true });
-
-  return client.replyMessage(event.replyToken, {
-    type: 'text',
-    text: '削除をキャンセルしました。',
-  });
-}
-
-// パターンG: バンド名更新（テキスト入力後に呼ばれる）
-async function handleUpdateBandName(event: line.PostbackEvent, data: string) {
-  // この関数は使わない（handleOtherInputで処理）
-  return Promise.resolve(null);
-}
-
-// パターンH: 自分の登録をさらに表示
-async function handleViewMyMore(event: line.PostbackEvent, data: string) {
-  const params = new URLSearchParams(data);
-  const ts = params.get('ts');
-  const userId = event.source.userId!;
-
-  // ボタンの有効性チェック（他の操作に影響を与えないよう押下時刻を記録しない）
-  const errorReply = await checkButtonAndGetErrorReply(event, userId, ts);
-  if (errorReply) {
-    return client.replyMessage(event.replyToken, errorReply);
-  }
-
-  const page = parseInt(params.get('page') || '0', 10);
-  const originalTs = ts ? Number(ts) : undefined;
-
-  // 「さらに表示」の重複押下チェック
-  if (originalTs && !(await isViewMyMoreValid(userId, page, originalTs))) {
-    return client.replyMessage(event.replyToken, {
-      type: 'text',
-      text: '⚠️ このボタンは既に押されています。\n「自分の登録を見たい」と送って最新の一覧を取得してください。',
-    });
-  }
-
-  // 押下を記録
-  if (originalTs) {
-    await recordViewMyMore(userId, page, originalTs);
-  }
-
-  // 元のタイムスタンプを引き継いでカルーセルを表示
-  return handleViewMyReservations(event, userId, page, originalTs);
-}
-
-// パターンI: 日時編集開始
-async function handleEditDateTime(event: line.PostbackEvent, data: string) {
-  const params = new URLSearchParams(data);
-  const ts = params.get('ts');
-  const userId = event.source.userId!;
-
-  // ボタンの有効性チェック
-  const errorReply = await checkButtonAndGetErrorReply(event, userId, ts);
-  if (errorReply) {
-    return client.replyMessage(event.replyToken, errorReply);
-  }
-
-  // 抽選時間チェック
-  if (await isLotteryTime()) {
-    return client.replyMessage(event.replyToken, {
-      type: 'text',
-      text: MESSAGES.LOTTERY_TIME,
-    });
-  }
-
-  const docId = params.get('docId');
-  const startTime = Date.now(); // 編集開始時刻
-
-  const availableDates = await getAvailableDateList();
-
-  if (availableDates.length === 0) {
-    return client.replyMessage(event.replyToken, {
-      type: 'text',
-      text: MESSAGES.NO_AVAILABLE_DATES,
-    });
-  }
-
-  // 日付選択のクイックリプライを作成
-  const quickReplyItems: line.QuickReplyItem[] = availableDates.map((d) => ({
-    type: 'action',
-    action: {
-      type: 'postback',
-      label: d.label,
-      data: `action=edit_select_date&docId=${docId}&date=${d.value}&start=${startTime}`,
-    },
-  }));
-
-  // 状態を保存（クイックリプライ情報も一緒に保存）
-  await db.collection('states').doc(userId).set({
-    status: 'EDITING_DATETIME',
-    editingDocId: docId,
-    createdAt: new Date(),
-    lastButtonPressTs: Date.now(),
-    pendingQuickReply: quickReplyItems,
-    quickReplyStartTime: startTime,
-  });
+  await clearOfferState(userId);
 
   return client.replyMessage(event.replyToken, {
     type: 'text',
-    text: '新しい日付を選択してください👇\n(中断する場合は「キャンセル」と送ってください)',
-    quickReply: {
-      items: quickReplyItems,
-    },
+    text: '申し込みをやめました。',
   });
 }
 
-// パターンJ: 日時編集 - 日付選択後 → 時間選択を促す
-async function handleEditSelectDate(event: line.PostbackEvent, data: string) {
+// パターンM4: 申し込みへの回答 → 成立した場合は申し込んだ人に知らせてBANDに投稿
+async function handleRespondOffer(event: line.PostbackEvent, data: string) {
   const params = new URLSearchParams(data);
-  const docId = params.get('docId');
-  const selectedDate = params.get('date');
-  const startTime = params.get('start');
+  const offerId = params.get('offerId');
+  const accept = params.get('answer') === 'accept';
   const userId = event.source.userId!;
 
-  // タイムアウトチェック
-  if (startTime && isSessionExpired(Number(startTime))) {
-    // 特定フィールドのみ削除（lastViewMyCarouselTs、lastViewMyMorePage、lastButtonPressTsは保持）
-    await db.collection('states').doc(userId).set({
-      status: admin.firestore.FieldValue.delete(),
-      editingDocId: admin.firestore.FieldValue.delete(),
-      createdAt: admin.firestore.FieldValue.delete(),
-      pendingQuickReply: admin.firestore.FieldValue.delete(),
-      quickReplyStartTime: admin.firestore.FieldValue.delete(),
-    }, { merge: true });
-    return client.replyMessage(event.replyToken, {
-      type: 'text',
-      text: '⏰ 5分間経過したため、編集をキャンセルしました。\nもう一度お試しください。',
-    });
-  }
-
-  const dateObj = new Date(selectedDate!);
-  const dateLabel = `${dateObj.getMonth() + 1}/${dateObj.getDate()}`;
-
-  // 時間枠をFirestoreから取得
-  const timeSlots = await getTimeSlots();
-
-  const quickReplyItems: line.QuickReplyItem[] = timeSlots.map((slot) => ({
-    type: 'action',
-    action: {
-      type: 'postback',
-      label: slot.label,
-      data: `action=edit_finalize&docId=${docId}&date=${selectedDate}&time=${slot.value}&start=${startTime}`,
-    },
-  }));
-
-  // 状態を更新（クイックリプライ情報も一緒に保存）
-  await db.collection('states').doc(userId).set({
-    status: 'EDITING_DATETIME_TIME',
-    editingDocId: docId,
-    editSelectedDate: selectedDate,
-    createdAt: new Date(),
-    lastButtonPressTs: Date.now(),
-    pendingQuickReply: quickReplyItems,
-    quickReplyStartTime: Number(startTime),
-  });
-
-  return client.replyMessage(event.replyToken, {
-    type: 'text',
-    text: `📅 ${dateLabel} ですね。\n新しい時間を選択してください👇`,
-    quickReply: {
-      items: quickReplyItems,
-    },
-  });
-}
+  try {
+    const { limits } = await getConfig();
+    const result = accept
+      ? await acceptSlotOffer(db, offerId, userId, limits)
+      : await declineSlotOffer(db, offerId, userId);
+    if (!result.ok) {
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: result.message,
+      });
+    }
 
-// パターンK: 日時編集 - 時間選択後（確定）
-async function handleEditFinalize(event: line.PostbackEvent, data: string) {
-  const params = new URLSearchParams(data);
-  const docId = params.get('docId');
-  const selectedDate = params.get('date');
-  const selectedTime = params.get('time');
-  const startTime = params.get('start');
-  const userId = event.source.userId!;
+    const offer: SlotOffer = result.offer;
+    const description = describeSlotOffer(offer);
+    if (!accept) {
+      await client.pushMessage(offer.createdBy, {
+        type: 'text',
+        text: `🙅「${offer.toBandName}」が申し込みを断りました。\n\n${description}`,
+      }).catch((err) => console.error(err));
+      return client.replyMessage(event.replyToken, {
+        type: 'text',
+        text: `申し込みを断りました。\n\n${description}`,
+      });
+    }
 
-  // タイムアウトチェック
-  if (startTime && isSessionExpired(Number(startTime))) {
-    await db.collection('states').doc(userId).delete();
-    return client.replyMessage(event.replyToken, {
+    await client.pushMessage(offer.createdBy, {
       type: 'text',
-      text: '⏰ 5分間経過したため、編集をキャンセルしました。\nもう一度お試しください。',
-    });
-  }
+      text: `✅「${offer.toBandName}」が申し込みを受け入れました。\n\n${description}\n\n「自分の登録を見たい」で最新の登録を確認できます。`,
+    }).catch((err) => console.error(err));
 
-  // 状態の特定フィールドのみ削除（lastButtonPressTsは保持して元のカルーセルのボタンを無効に保つ）
-  await db.collection('states').doc(userId).set({
-    status: admin.firestore.FieldValue.delete(),
-    editingDocId: admin.firestore.FieldValue.delete(),
-    editSelectedDate: admin.firestore.FieldValue.delete(),
-    createdAt: admin.firestore.FieldValue.delete(),
-    pendingQuickReply: admin.firestore.FieldValue.delete(),
-    quickReplyStartTime: admin.firestore.FieldValue.delete(),
-  }, { merge: true });
-
-  const newDateTime = `${selectedDate}T${selectedTime}`;
-  const displayStr = `${selectedDate?.replace(/-/g, '/').slice(5)} ${selectedTime}`;
-
-  try {
-    await db.collection('reservations').doc(docId!).update({
-      date: newDateTime,
-    });
+    // BANDへの投稿に失敗しても譲渡・交換は成立している
+    const bandPost = offer.type === 'swap' ? '🔁 枠の交換' : '🎁 枠の譲渡';
+    await postToBand(`${bandPost}\n${description}`, false).catch((err) => console.error(err));
 
     return client.replyMessage(event.replyToken, {
       type: 'text',
-      text: `✅ 日時を「${displayStr}」に更新しました。`,
+      text: `✅ ${offer.type === 'swap' ? '交換' : '譲渡'}が成立しました\n\n${description}\n\n「自分の登録を見たい」で最新の登録を確認できます。`,
     });
   } catch (err) {
     console.error(err);
@@ -1377,82 +3627,15 @@ async function handleEditFinalize(event: line.PostbackEvent, data: string) {
 // ---------------------------------------------------------
 
 async function isLotteryTime(): Promise<boolean> {
-  const now = new Date();
-  const jstOffset = 9 * 60 * 60 * 1000;
-  const nowJST = new Date(now.getTime() + jstOffset);
-  const h = nowJST.getUTCHours();
-  const m = nowJST.getUTCMinutes();
-
-  // 20:50〜21:00の時間帯かチェック
-  const isLotteryTimeSlot = h === 20 && m >= 50;
-  if (!isLotteryTimeSlot) return false;
-
-  // 翌日が登録可能日かどうかをチェック
-  const tomorrow = new Date(nowJST);
-  tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
-  const tomorrowDayIndex = tomorrow.getUTCDay();
-
-  const availableDays = await getAvailableDays();
-  return availableDays.includes(tomorrowDayIndex);
-}
-
-async function getAvailableDateList(includeToday: boolean = false): Promise<{ label: string; value: string }[]> {
-  const now = new Date();
-  const jstOffset = 9 * 60 * 60 * 1000;
-  const nowJST = new Date(now.getTime() + jstOffset);
-  const currentHour = nowJST.getUTCHours();
-
-  const availableDays = await getAvailableDays();
-
-  // includeTodayがtrueの場合、当日が登録可能日かチェック
-  let daysToAdd: number;
-  if (includeToday) {
-    const todayDayIndex = nowJST.getUTCDay();
-    // 全登録表示では、21時以降でも翌日から表示（新規登録は明後日から）
-    // 当日が登録可能日であれば0から、そうでなければ翌日から
-    if (currentHour >= 21) {
-      // 21時以降: 翌日が登録可能日なら1、そうでなければ2
-      const tomorrow = new Date(nowJST);
-      tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
-      const tomorrowDayIndex = tomorrow.getUTCDay();
-      daysToAdd = availableDays.includes(tomorrowDayIndex) ? 1 : 2;
-    } else {
-      // 21時前: 当日が登録可能日なら0、そうでなければ1
-      daysToAdd = availableDays.includes(todayDayIndex) ? 0 : 1;
-    }
-  } else {
-    daysToAdd = currentHour >= 21 ? 2 : 1;
-  }
-
-  const startDate = new Date(nowJST);
-  startDate.setUTCDate(startDate.getUTCDate() + daysToAdd);
-  startDate.setUTCHours(0, 0, 0, 0);
-
-  const results: { label: string; value: string }[] = [];
-  const weekDays = ['日', '月', '火', '水', '木', '金', '土'];
-
-  // 21時以降の全登録表示では8日分表示（翌日の抽選日+7日間）
-  const daysToCheck = 7;
-
-  for (let i = 0; i < daysToCheck; i++) {
-    const targetDate = new Date(startDate);
-    targetDate.setUTCDate(startDate.getUTCDate() + i);
-
-    const dayIndex = targetDate.getUTCDay();
+  return isLotteryWindow(await getConfig());
+}
 
-    if (availableDays.includes(dayIndex)) {
-      const m = targetDate.getUTCMonth() + 1;
-      const d = targetDate.getUTCDate();
-      const wd = weekDays[dayIndex];
-      const yyyy = targetDate.getUTCFullYear();
-      const mm = ('0' + m).slice(-2);
-      const dd = ('0' + d).slice(-2);
+// 抽選集計時間中の案内（時間帯は設定の schedule から）
+async function lotteryTimeMessage(action: string = '操作'): Promise<string> {
+  const config = await getConfig();
+  return `⚠️ 現在は${lotteryWindowLabel(config)}の抽選集計時間のため、${action}はできません。${config.schedule.lotteryTime}以降にお試しください。`;
+}
 
-      results.push({
-        label: `${m}/${d}(${wd})`,
-        value: `${yyyy}-${mm}-${dd}`
-      });
-    }
-  }
-  return results;
+async function getAvailableDateList(includeToday: boolean = false): Promise<DateOption[]> {
+  return availableDateList(await getConfig(), includeToday);
 }
@@ -0,0 +1,75 @@
+import * as crypto from 'crypto';
+import * as admin from 'firebase-admin';
+import { VercelRequest } from '@vercel/node';
+
+// admin_audit_logs コレクション
+// 管理APIによる書き込みはすべてここに記録する（追記のみ）
+
+/**
+ * 管理APIの認証（Authorization: Bearer ADMIN_API_TOKEN）
+ * @returns 認証に成功した場合は操作者名（X-Admin-Actor ヘッダー、なければ "admin"）、失敗した場合はnull
+ */
+export function authenticateAdmin(req: VercelRequest): string | null {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token) return null; // トークン未設定なら管理APIは使えない
+
+  const header = req.headers.authorization || '';
+  const provided = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+
+  const expectedBuf = Buffer.from(token);
+  const providedBuf = Buffer.from(provided);
+  if (expectedBuf.length !== providedBuf.length || !crypto.timingSafeEqual(expectedBuf, providedBuf)) {
+    return null;
+  }
+
+  const actor = req.headers['x-admin-actor'];
+  return typeof actor === 'string' && actor.trim() ? actor.trim().slice(0, 100) : 'admin';
+}
+
+export interface AdminAuditEntry {
+  actor: string;
+  action: string;     // 例: "reservation.create", "lottery_results.override", "settings.update"
+  target: string;     // 例: "reservations/abc123"
+  before: admin.firestore.DocumentData | null;
+  after: admin.firestore.DocumentData | null;
+}
+
+/**
+ * 管理APIの書き込みを監査ログに記録する
+ * 書き込みと同じバッチ/トランザクションで記録できるよう、writer を受け取る
+ * @param db Firestore instance
+ * @param writer 書き込みに使っているバッチまたはトランザクション
+ * @param entry 記録内容
+ */
+export function writeAdminAuditLog(
+  db: admin.firestore.Firestore,
+  writer: admin.firestore.WriteBatch | admin.firestore.Transaction,
+  entry: AdminAuditEntry
+): void {
+  const ref = db.collection('admin_audit_logs').doc();
+  // Transaction と WriteBatch の set はシグネチャが同じ
+  (writer as admin.firestore.WriteBatch).set(ref, {
+    ...entry,
+    at: new Date(),
+  });
+}
+
+/**
+ * Firestoreのデータをレスポンス用に変換する（Timestamp → ISO文字列、配列・入れ子のオブジェクト内も含む）
+ */
+export function serializeDoc(data: admin.firestore.DocumentData): admin.firestore.DocumentData {
+  const result: admin.firestore.DocumentData = {};
+  for (const [key, value] of Object.entries(data)) {
+    result[key] = serializeValue(value);
+  }
+  return result;
+}
+
+function serializeValue(value: unknown): unknown {
+  if (value instanceof admin.firestore.Timestamp) return value.toDate().toISOString();
+  if (Array.isArray(value)) return value.map(serializeValue);
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return serializeDoc(value as admin.firestore.DocumentData);
+  }
+  return value;
+}
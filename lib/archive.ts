@@ -0,0 +1,37 @@
+import * as admin from 'firebase-admin';
+
+// 保持期間を過ぎたデータのアーカイブ
+// data-organize のアーカイブモード（?archive=true）では、削除する予約・抽選結果を
+// 同じドキュメントIDで archive_{コレクション名} にコピーしてから削除する（利用状況の集計・エクスポート用）
+// { ...元のデータ, archivedAt }
+
+// アーカイブするコレクション
+export const ARCHIVED_COLLECTIONS = ['reservations', 'lottery_results'] as const;
+export type ArchivedCollection = typeof ARCHIVED_COLLECTIONS[number];
+
+/**
+ * アーカイブ先のコレクション名（例: "archive_reservations"）
+ */
+export function archiveCollectionName(collection: ArchivedCollection): string {
+  return `archive_${collection}`;
+}
+
+/**
+ * ドキュメントをアーカイブにコピーし、元のドキュメントを削除する（バッチの書き込みは2件）
+ * @param db Firestore instance
+ * @param batch 書き込みに使っているバッチ
+ * @param collection 元のコレクション名
+ * @param doc 削除するドキュメント
+ */
+export function archiveAndDelete(
+  db: admin.firestore.Firestore,
+  batch: admin.firestore.WriteBatch,
+  collection: ArchivedCollection,
+  doc: admin.firestore.QueryDocumentSnapshot
+): void {
+  batch.set(db.collection(archiveCollectionName(collection)).doc(doc.id), {
+    ...doc.data(),
+    archivedAt: new Date(),
+  });
+  batch.delete(doc.ref);
+}
@@ -0,0 +1,31 @@
+import axios from 'axios';
+
+/**
+ * BANDに投稿する
+ * 公式ドキュメント: https://developers.band.us/develop/guide/api/write_post.html
+ * @param content 投稿本文
+ * @param doPush プッシュ通知を送るかどうか
+ */
+export async function postToBand(content: string, doPush: boolean = true): Promise<void> {
+  const bandAccessToken = process.env.BAND_ACCESS_TOKEN;
+  const bandKey = process.env.BAND_KEY;
+
+  if (!bandAccessToken || !bandKey) {
+    throw new Error('BAND API credentials are missing.');
+  }
+
+  // BAND API: 投稿作成 (v2.2)
+  const response = await axios.post('https://openapi.band.us/v2.2/band/post/create', null, {
+    params: {
+      access_token: bandAccessToken,
+      band_key: bandKey,
+      content,
+      do_push: doPush,
+    }
+  });
+
+  // レスポンスコードの確認 (result_code: 1 = 成功)
+  if (response.data?.result_code !== 1) {
+    throw new Error(`BAND API returned error: ${JSON.stringify(response.data)}`);
+  }
+}
@@ -0,0 +1,199 @@
+import * as crypto from 'crypto';
+import * as admin from 'firebase-admin';
+
+// bands コレクション
+// ドキュメントID: 正規化したバンド名のハッシュ（同じ名前のバンドが二重に作られないようにする）
+// { name: 正式名称, nameKey: 正規化した名前, memberIds: LINEのuserId[], inviteCode, createdBy, createdAt }
+
+// バンド名の最大文字数（カルーセルのタイトルに収まる長さ）
+export const MAX_BAND_NAME_LENGTH = 40;
+
+// 招待コードに使う文字（見間違えやすい 0/O・1/I/L を除く）
+const INVITE_CODE_CHARS = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 6;
+
+export interface Band {
+  id: string;
+  name: string;
+  nameKey: string;
+  memberIds: string[];
+  inviteCode: string;
+}
+
+export type BandResolution =
+  | { ok: true; band: Band; created: boolean }
+  | { ok: false; reason: 'invalid_name' | 'not_member'; message: string };
+
+/**
+ * 表記ゆれを吸収したバンド名のキー
+ * 全角・半角の統一、前後の空白除去、連続する空白の統一、大文字・小文字の統一
+ * 例: "ＡＮＩＴ　Jazz " → "anit jazz"
+ */
+export function normalizeBandName(name: string): string {
+  return name.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * バンド名の表示用の整形（全角・半角の統一と空白の整理のみ。大文字・小文字はそのまま）
+ */
+function cleanBandName(name: string): string {
+  return name.normalize('NFKC').trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * 正規化したバンド名からドキュメント参照を作る
+ */
+function bandRefByKey(db: admin.firestore.Firestore, nameKey: string): admin.firestore.DocumentReference {
+  const id = crypto.createHash('sha256').update(nameKey).digest('hex').slice(0, 20);
+  return db.collection('bands').doc(id);
+}
+
+function generateInviteCode(): string {
+  const bytes = crypto.randomBytes(INVITE_CODE_LENGTH);
+  return Array.from(bytes, (b) => INVITE_CODE_CHARS[b % INVITE_CODE_CHARS.length]).join('');
+}
+
+/**
+ * Firestoreのドキュメントを Band に変換する
+ */
+export function bandFromDoc(doc: admin.firestore.DocumentSnapshot): Band {
+  const data = doc.data()!;
+  return {
+    id: doc.id,
+    name: data.name,
+    nameKey: data.nameKey,
+    memberIds: data.memberIds || [],
+    inviteCode: data.inviteCode,
+  };
+}
+
+/**
+ * ユーザーがメンバーになっているバンドの一覧（名前順）
+ * @param db Firestore instance
+ * @param userId LINEのuserId
+ */
+export async function loadUserBands(db: admin.firestore.Firestore, userId: string): Promise<Band[]> {
+  const snapshot = await db.collection('bands')
+    .where('memberIds', 'array-contains', userId)
+    .get();
+  return snapshot.docs
+    .map(bandFromDoc)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * 入力されたバンド名から登録に使うバンドを決める
+ * - 同じ名前（表記ゆれを含む）のバンドがあり、メンバーならそのバンド
+ * - 同じ名前のバンドがなければ、入力したユーザーをメンバーとして新しく作る
+ * - 他の人のバンドと同じ名前なら、招待コードでの参加を案内する
+ * @param db Firestore instance
+ * @param name 入力されたバンド名
+ * @param userId 入力したユーザー
+ */
+export async function resolveBandForUser(
+  db: admin.firestore.Firestore,
+  name: string,
+  userId: string
+): Promise<BandResolution> {
+  const displayName = cleanBandName(name);
+  const nameKey = normalizeBandName(name);
+  if (!nameKey || displayName.length > MAX_BAND_NAME_LENGTH) {
+    return {
+      ok: false,
+      reason: 'invalid_name',
+      message: `⚠️ バンド名は1〜${MAX_BAND_NAME_LENGTH}文字で入力してください。`,
+    };
+  }
+
+  const ref = bandRefByKey(db, nameKey);
+  return db.runTransaction(async (tx): Promise<BandResolution> => {
+    const snap = await tx.get(ref);
+
+    if (snap.exists) {
+      const band = bandFromDoc(snap);
+      if (band.memberIds.includes(userId)) {
+        return { ok: true, band, created: false };
+      }
+      return {
+        ok: false,
+        reason: 'not_member',
+        message: `⚠️「${band.name}」は既に他のメンバーが作成したバンドです。\n\nメンバーに招待コードを聞いて「参加 招待コード」と送ると、このバンドで登録できるようになります。\n別のバンド名を入力することもできます。\n(中断する場合は「キャンセル」と送ってください)`,
+      };
+    }
+
+    const band: Band = {
+      id: ref.id,
+      name: displayName,
+      nameKey,
+      memberIds: [userId],
+      inviteCode: generateInviteCode(),
+    };
+    tx.create(ref, {
+      name: band.name,
+      nameKey: band.nameKey,
+      memberIds: band.memberIds,
+      inviteCode: band.inviteCode,
+      createdBy: userId,
+      createdAt: new Date(),
+    });
+    return { ok: true, band, created: true };
+  });
+}
+
+/**
+ * バンド名（表記ゆれを含む）から登録済みのバンドを探す
+ * @returns 見つからない場合はnull
+ */
+export async function findBandByName(db: admin.firestore.Firestore, name: string): Promise<Band | null> {
+  const nameKey = normalizeBandName(name);
+  if (!nameKey) return null;
+  const snap = await bandRefByKey(db, nameKey).get();
+  return snap.exists ? bandFromDoc(snap) : null;
+}
+
+/**
+ * ユーザーがバンドのメンバーか確認してバンドを取得する
+ * @returns メンバーでない・バンドが存在しない場合はnull
+ */
+export async function getMemberBand(
+  db: admin.firestore.Firestore,
+  bandId: string | null | undefined,
+  userId: string
+): Promise<Band | null> {
+  if (!bandId) return null;
+  const snap = await db.collection('bands').doc(bandId).get();
+  if (!snap.exists) return null;
+  const band = bandFromDoc(snap);
+  return band.memberIds.includes(userId) ? band : null;
+}
+
+/**
+ * 招待コードでバンドに参加する
+ * @param db Firestore instance
+ * @param inviteCode 招待コード（大文字・小文字は区別しない）
+ * @param userId 参加するユーザー
+ */
+export async function joinBandByInviteCode(
+  db: admin.firestore.Firestore,
+  inviteCode: string,
+  userId: string
+): Promise<{ ok: true; band: Band; alreadyMember: boolean } | { ok: false; message: string }> {
+  const snapshot = await db.collection('bands')
+    .where('inviteCode', '==', inviteCode.normalize('NFKC').trim().toUpperCase())
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) {
+    return { ok: false, message: '⚠️ 招待コードが見つかりませんでした。\nコードを確認してもう一度送ってください。' };
+  }
+
+  const band = bandFromDoc(snapshot.docs[0]);
+  if (band.memberIds.includes(userId)) {
+    return { ok: true, band, alreadyMember: true };
+  }
+
+  await snapshot.docs[0].ref.update({
+    memberIds: admin.firestore.FieldValue.arrayUnion(userId),
+  });
+  return { ok: true, band: { ...band, memberIds: [...band.memberIds, userId] }, alreadyMember: false };
+}
@@ -0,0 +1,195 @@
+import * as crypto from 'crypto';
+import * as admin from 'firebase-admin';
+
+// 確定した予約の iCalendar（.ics）フィード
+// /api/calendar/{token}.ics で配信し、カレンダーアプリから購読してもらう
+// calendar_feeds コレクション: ドキュメントID = LINEのuserId
+// { token, createdAt }（token はURLに含める推測できない文字列。再発行すると古いURLは使えなくなる）
+// 全体のフィード（全バンドの確定枠）は環境変数 CALENDAR_GLOBAL_TOKEN のトークンで配信する
+
+const TIME_ZONE = 'Asia/Tokyo';
+const PRODUCT_ID = '-//anit-room-reservation//calendar//JA';
+const UID_DOMAIN = 'anit-room-reservation';
+
+// 日本標準時（夏時間なし）
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${TIME_ZONE}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0900',
+  'TZOFFSETTO:+0900',
+  'TZNAME:JST',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+export interface CalendarEvent {
+  uid: string;
+  date: string;     // 予約の date "2024-12-20T10:00-12:00"（JST）
+  summary: string;
+  location?: string;
+  description?: string;
+}
+
+/**
+ * URLに使うトークンを生成する（192bitの16進文字列）
+ */
+function generateToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+/**
+ * ユーザーのフィードのトークン（なければ作る）
+ * @param db Firestore instance
+ * @param userId LINEのuserId
+ */
+export async function getOrCreateCalendarToken(db: admin.firestore.Firestore, userId: string): Promise<string> {
+  const ref = db.collection('calendar_feeds').doc(userId);
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (snap.exists && snap.data()!.token) return snap.data()!.token as string;
+
+    const token = generateToken();
+    tx.set(ref, { token, createdAt: new Date() });
+    return token;
+  });
+}
+
+/**
+ * ユーザーのフィードのトークンを作り直す（古いURLは使えなくなる）
+ * @param db Firestore instance
+ * @param userId LINEのuserId
+ */
+export async function reissueCalendarToken(db: admin.firestore.Firestore, userId: string): Promise<string> {
+  const token = generateToken();
+  await db.collection('calendar_feeds').doc(userId).set({ token, createdAt: new Date() });
+  return token;
+}
+
+/**
+ * トークンからフィードの持ち主を探す
+ * @returns LINEのuserId（該当なしはnull）
+ */
+export async function findCalendarFeedUser(db: admin.firestore.Firestore, token: string): Promise<string | null> {
+  const snapshot = await db.collection('calendar_feeds')
+    .where('token', '==', token)
+    .limit(1)
+    .get();
+  return snapshot.empty ? null : snapshot.docs[0].id;
+}
+
+/**
+ * 全体のフィードのトークンか（CALENDAR_GLOBAL_TOKEN 未設定なら全体のフィードは配信しない）
+ */
+export function isGlobalCalendarToken(token: string): boolean {
+  const expected = process.env.CALENDAR_GLOBAL_TOKEN;
+  if (!expected) return false;
+
+  const expectedBuf = Buffer.from(expected);
+  const providedBuf = Buffer.from(token);
+  return expectedBuf.length === providedBuf.length && crypto.timingSafeEqual(expectedBuf, providedBuf);
+}
+
+/**
+ * フィードのURL（PUBLIC_BASE_URL 未設定ならnull）
+ * @param token フィードのトークン
+ */
+export function calendarFeedUrl(token: string): string | null {
+  const baseUrl = process.env.PUBLIC_BASE_URL;
+  if (!baseUrl) return null;
+  return `${baseUrl.replace(/\/+$/, '')}/api/calendar/${token}.ics`;
+}
+
+/**
+ * "YYYY-MM-DD" と "HH:MM"（JST、"24:00" も可）を iCalendar のローカル日時 "YYYYMMDDTHHMMSS" にする
+ */
+function toLocalDateTime(datePart: string, time: string): string {
+  const [hour, minute] = time.split(':').map(Number);
+  // 日付の繰り上がり（24:00 → 翌日 00:00）を Date に任せる（UTCとして計算し、タイムゾーンは TZID で指定する）
+  const date = new Date(`${datePart}T00:00:00Z`);
+  date.setUTCMinutes(hour * 60 + minute);
+  return date.toISOString().slice(0, 19).replace(/[-:]/g, '');
+}
+
+/**
+ * UTC日時 "YYYYMMDDTHHMMSSZ"（DTSTAMP 用）
+ */
+function toUtcDateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+}
+
+/**
+ * テキスト値のエスケープ（RFC 5545 3.3.11）
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * 75オクテットを超える行を折り返す（RFC 5545 3.1、マルチバイト文字の途中では折り返さない）
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    // 2行目以降は先頭の空白1オクテットを含めて75オクテットまで
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * iCalendar のテキストを組み立てる
+ * @param name カレンダー名（X-WR-CALNAME）
+ * @param events 予定
+ * @param now 生成時刻（DTSTAMP）
+ */
+export function buildCalendar(name: string, events: CalendarEvent[], now: Date = new Date()): string {
+  const stamp = toUtcDateTime(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${TIME_ZONE}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...VTIMEZONE,
+  ];
+
+  for (const event of events) {
+    const [datePart, timeRange] = event.date.split('T');
+    const [start, end] = timeRange.split('-');
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=${TIME_ZONE}:${toLocalDateTime(datePart, start)}`,
+      `DTEND;TZID=${TIME_ZONE}:${toLocalDateTime(datePart, end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
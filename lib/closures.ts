@@ -0,0 +1,74 @@
+import * as admin from 'firebase-admin';
+import { ClosedDate, ReservationSettings } from './settings';
+import { recordReservationEvent, ReservationEventActor } from './reservation-events';
+import { todayJST } from './schedule';
+
+// 休室日の追加に伴う予約の取り消し
+// 休室日の抽選待ち（pending）の予約は削除し、reservation_events に理由とともに記録する
+// 新しく追加した日だけでなく、今日以降の休室日すべてを対象にする（途中で失敗しても、再度の設定の更新で残りを取り消せる）
+// 抽選後の予約（確定・キャンセル待ち）は残す（必要なら管理APIで個別に対応する）
+
+// 1つのバッチで取り消す予約の数（削除と変更履歴で2件ずつ書き込む）
+const CANCEL_BATCH_SIZE = 200;
+
+export interface CancelledReservation {
+  id: string;
+  data: admin.firestore.DocumentData;
+}
+
+/**
+ * 抽選待ちの予約を取り消す対象の休室日（今日以降）
+ * @param settings 変更後の設定
+ * @param now 現在時刻
+ */
+export function upcomingClosedDates(settings: ReservationSettings, now: Date = new Date()): ClosedDate[] {
+  const today = todayJST(now);
+  return settings.closedDates.filter((closed) => closed.date >= today);
+}
+
+/**
+ * 休室日の抽選待ちの予約を取り消す
+ * @param db Firestore instance
+ * @param closed 休室日
+ * @param actor 操作者（変更履歴用）
+ * @returns 取り消した予約
+ */
+export async function cancelPendingReservationsOnClosedDate(
+  db: admin.firestore.Firestore,
+  closed: ClosedDate,
+  actor: ReservationEventActor
+): Promise<CancelledReservation[]> {
+  const snapshot = await db.collection('reservations')
+    .where('date', '>=', `${closed.date}T00:00`)
+    .where('date', '<=', `${closed.date}T23:59`)
+    .get();
+  const pending = snapshot.docs.filter((doc) => doc.data().status === 'pending');
+
+  for (let i = 0; i < pending.length; i += CANCEL_BATCH_SIZE) {
+    const batch = db.batch();
+    for (const doc of pending.slice(i, i + CANCEL_BATCH_SIZE)) {
+      batch.delete(doc.ref);
+      recordReservationEvent(db, batch, {
+        reservationId: doc.id,
+        action: 'closure_cancel',
+        actor,
+        before: doc.data(),
+        after: null,
+      });
+    }
+    await batch.commit();
+  }
+
+  return pending.map((doc) => ({ id: doc.id, data: doc.data() }));
+}
+
+/**
+ * 取り消しを登録者に知らせるメッセージ
+ * @param closed 休室日
+ * @param reservations その登録者の取り消した予約
+ */
+export function closureCancelMessage(closed: ClosedDate, reservations: admin.firestore.DocumentData[]): string {
+  const displayDate = closed.date.replace(/-/g, '/').slice(5);
+  const lines = reservations.map((data) => `・${data.bandName || '(バンド名なし)'} ${displayDate} ${(data.date || '').split('T')[1] || ''}`);
+  return `🚫 ${displayDate} は休室日（${closed.reason}）になったため、次の抽選待ちの登録を取り消しました。\n\n${lines.join('\n')}\n\n別の日に登録する場合は「登録したい」と送ってください。`;
+}
@@ -0,0 +1,150 @@
+import * as admin from 'firebase-admin';
+import { Room, resultKey, reservationRoomId, roomsForDate } from './rooms';
+import { RegistrationLimits } from './settings';
+import { firstComeDateList, hasSlotStarted, ScheduleRules } from './schedule';
+import { checkRegistrationRules } from './registration-rules';
+import { recordReservationEvent } from './reservation-events';
+import { Band } from './bands';
+
+// 空き枠予約（先着）
+// 抽選（デフォルトは21:00）で応募が0件だった枠を、抽選後から枠の開始までの間、先着順でその場で確定にする
+// 抽選結果（lottery_results/{date}）に応募がない（または全バンドが辞退した）枠で、予約も入っていない枠だけが対象
+
+export interface EmptySlot {
+  date: string;     // "2024-12-20"
+  roomId: string;
+  timeSlot: string; // "10:00-12:00"
+  timeLabel: string; // "10:00~12:00"
+}
+
+export type ClaimResult =
+  | { ok: true; reservationId: string }
+  | { ok: false; message: string };
+
+const TAKEN_MESSAGE = '⚠️ この枠は他のバンドが先に予約しました。\n「空き枠予約」と送って、他の空き枠を確認してください。';
+const UNAVAILABLE_MESSAGE = '⚠️ この枠は現在予約できません。\n「空き枠予約」と送って、他の空き枠を確認してください。';
+
+/**
+ * 抽選結果にその枠の応募があるか（辞退したバンドは順位表から外れているため数えない）
+ */
+function hasLotteryEntries(resultData: admin.firestore.DocumentData | undefined, roomId: string, timeSlot: string): boolean {
+  const slotResult = resultData?.results?.[resultKey(roomId, timeSlot)];
+  return !!slotResult && (slotResult.count || 0) > 0 && (slotResult.order || []).length > 0;
+}
+
+/**
+ * 枠を使っている予約か（辞退した予約は枠を空けている）
+ */
+function occupiesSlot(data: admin.firestore.DocumentData): boolean {
+  return data.status !== 'released';
+}
+
+/**
+ * 今予約できる空き枠の一覧（日付・部屋・時間順）
+ * @param db Firestore instance
+ * @param rules 登録可能な曜日・日付ごとの例外・抽選のスケジュール
+ * @param rooms 部屋一覧
+ * @param now 現在時刻
+ */
+export async function findEmptySlots(
+  db: admin.firestore.Firestore,
+  rules: ScheduleRules,
+  rooms: Room[],
+  now: Date = new Date()
+): Promise<EmptySlot[]> {
+  const slots: EmptySlot[] = [];
+
+  for (const { value: date } of firstComeDateList(rules, now)) {
+    const [resultDoc, snapshot] = await Promise.all([
+      db.collection('lottery_results').doc(date).get(),
+      db.collection('reservations')
+        .where('date', '>=', `${date}T00:00`)
+        .where('date', '<=', `${date}T23:59`)
+        .get(),
+    ]);
+    const taken = new Set(snapshot.docs.filter((doc) => occupiesSlot(doc.data())).map((doc) => resultKey(reservationRoomId(doc.data()), doc.data().date.split('T')[1])));
+
+    for (const room of roomsForDate(rooms, rules, date)) {
+      for (const slot of room.timeSlots) {
+        if (hasSlotStarted(date, slot.value, now)) continue;
+        if (hasLotteryEntries(resultDoc.data(), room.id, slot.value)) continue;
+        if (taken.has(resultKey(room.id, slot.value))) continue;
+        slots.push({ date, roomId: room.id, timeSlot: slot.value, timeLabel: slot.label });
+      }
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * 空き枠を先着で予約する（確定）
+ * 抽選結果と予約の確認・ルールの確認・保存を1つのトランザクションで行い、
+ * 同時に押された場合も1件だけが確定になるようにする
+ * @param db Firestore instance
+ * @param userId 予約するユーザー
+ * @param band 予約するバンド（メンバーであることは呼び出し側で確認済み）
+ * @param slot 予約する枠
+ * @param context 登録可能な曜日・日付ごとの例外・抽選のスケジュール・部屋一覧・登録数の上限
+ * @param now 現在時刻
+ */
+export async function claimEmptySlot(
+  db: admin.firestore.Firestore,
+  userId: string,
+  band: Band,
+  slot: { date: string; roomId: string; timeSlot: string },
+  context: { rules: ScheduleRules; rooms: Room[]; limits: RegistrationLimits },
+  now: Date = new Date()
+): Promise<ClaimResult> {
+  // 抽選が終わった日で、開始前の枠か
+  const room = roomsForDate(context.rooms, context.rules, slot.date).find((r) => r.id === slot.roomId);
+  if (
+    !room
+    || !room.timeSlots.some((s) => s.value === slot.timeSlot)
+    || !firstComeDateList(context.rules, now).some((d) => d.value === slot.date)
+    || hasSlotStarted(slot.date, slot.timeSlot, now)
+  ) {
+    return { ok: false, message: UNAVAILABLE_MESSAGE };
+  }
+
+  const date = `${slot.date}T${slot.timeSlot}`;
+  const reservationRef = db.collection('reservations').doc();
+
+  return db.runTransaction(async (tx): Promise<ClaimResult> => {
+    const resultDoc = await tx.get(db.collection('lottery_results').doc(slot.date));
+    if (hasLotteryEntries(resultDoc.data(), slot.roomId, slot.timeSlot)) {
+      return { ok: false, message: TAKEN_MESSAGE };
+    }
+
+    // 同じ枠の予約（辞退したもの以外）がないか。クエリもトランザクションで読むため、同時に予約された場合は再試行で検出できる
+    const existing = await tx.get(db.collection('reservations').where('date', '==', date));
+    if (existing.docs.some((doc) => occupiesSlot(doc.data()) && reservationRoomId(doc.data()) === slot.roomId)) {
+      return { ok: false, message: TAKEN_MESSAGE };
+    }
+
+    const violation = await checkRegistrationRules(db, tx, { userId, bandName: band.name, bandId: band.id, date }, context.limits);
+    if (violation) {
+      return { ok: false, message: violation.message };
+    }
+
+    const reservation = {
+      userId,
+      bandId: band.id,
+      bandName: band.name,
+      date,
+      roomId: slot.roomId,
+      status: 'confirmed',
+      firstCome: true, // 抽選ではなく空き枠予約で確定した
+      createdAt: new Date(),
+    };
+    tx.create(reservationRef, reservation);
+    recordReservationEvent(db, tx, {
+      reservationId: reservationRef.id,
+      action: 'create',
+      actor: { type: 'user', id: userId },
+      before: null,
+      after: reservation,
+    });
+    return { ok: true, reservationId: reservationRef.id };
+  });
+}
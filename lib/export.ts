@@ -0,0 +1,157 @@
+import * as admin from 'firebase-admin';
+import { archiveCollectionName, ArchivedCollection, ARCHIVED_COLLECTIONS } from './archive';
+import { serializeDoc } from './admin';
+import { parseResultKey } from './rooms';
+import { drawnOrderOf } from './lottery-draw';
+
+// 予約・抽選結果のエクスポート（/api/export）
+// 保持中のデータとアーカイブ（archive_*）の両方から期間内のものを集め、JSONまたはCSVにする
+
+// エクスポートできるのはアーカイブするコレクションと同じ
+export type ExportType = ArchivedCollection;
+export const EXPORT_TYPES: readonly ExportType[] = ARCHIVED_COLLECTIONS;
+
+// 1回のエクスポートで指定できる期間の上限
+export const MAX_EXPORT_DAYS = 366;
+
+export interface ExportRecord {
+  id: string;
+  archived: boolean; // アーカイブから読み込んだか
+  data: admin.firestore.DocumentData;
+}
+
+/**
+ * 保持中のデータとアーカイブをまとめる（同じIDは保持中のデータを優先）
+ */
+function mergeRecords(
+  live: admin.firestore.QuerySnapshot,
+  archived: admin.firestore.QuerySnapshot
+): ExportRecord[] {
+  const records = new Map<string, ExportRecord>();
+  archived.docs.forEach((doc) => records.set(doc.id, { id: doc.id, archived: true, data: doc.data() }));
+  live.docs.forEach((doc) => records.set(doc.id, { id: doc.id, archived: false, data: doc.data() }));
+  return Array.from(records.values());
+}
+
+/**
+ * 期間内の予約（日付・ID順）
+ * @param db Firestore instance
+ * @param from 開始日 "YYYY-MM-DD"
+ * @param to 終了日 "YYYY-MM-DD"（この日を含む）
+ */
+export async function loadReservationsForExport(
+  db: admin.firestore.Firestore,
+  from: string,
+  to: string
+): Promise<ExportRecord[]> {
+  const query = (collection: string) => db.collection(collection)
+    .where('date', '>=', `${from}T00:00`)
+    .where('date', '<=', `${to}T23:59`)
+    .get();
+  const [live, archived] = await Promise.all([
+    query('reservations'),
+    query(archiveCollectionName('reservations')),
+  ]);
+  return mergeRecords(live, archived)
+    .sort((a, b) => a.data.date.localeCompare(b.data.date) || a.id.localeCompare(b.id));
+}
+
+/**
+ * 期間内の抽選結果（日付順、ドキュメントID = "YYYY-MM-DD"）
+ * @param db Firestore instance
+ * @param from 開始日 "YYYY-MM-DD"
+ * @param to 終了日 "YYYY-MM-DD"（この日を含む）
+ */
+export async function loadLotteryResultsForExport(
+  db: admin.firestore.Firestore,
+  from: string,
+  to: string
+): Promise<ExportRecord[]> {
+  const query = (collection: string) => db.collection(collection)
+    .where(admin.firestore.FieldPath.documentId(), '>=', from)
+    .where(admin.firestore.FieldPath.documentId(), '<=', to)
+    .get();
+  const [live, archived] = await Promise.all([
+    query('lottery_results'),
+    query(archiveCollectionName('lottery_results')),
+  ]);
+  return mergeRecords(live, archived).sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * JSONで返す形にする（Timestamp はISO文字列）
+ */
+export function exportRecordToJson(record: ExportRecord): admin.firestore.DocumentData {
+  return { id: record.id, archived: record.archived, ...serializeDoc(record.data) };
+}
+
+/**
+ * CSVの1項目（カンマ・改行・ダブルクォートを含む場合は囲む）
+ * バンド名などの文字列が = + - @（またはタブ・CR）で始まる場合は、表計算ソフトで数式として実行されないよう先頭に ' を付ける
+ */
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const raw = value instanceof admin.firestore.Timestamp
+    ? value.toDate().toISOString()
+    : value instanceof Date ? value.toISOString() : String(value);
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSVのテキストにする（Excelで文字化けしないようBOM付き）
+ */
+function toCsv(header: string[], rows: unknown[][]): string {
+  return '\uFEFF' + [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * 予約のCSV（1予約1行）
+ */
+export function reservationsToCsv(records: ExportRecord[]): string {
+  const header = [
+    'id', 'date', 'timeSlot', 'roomId', 'bandId', 'bandName', 'userId', 'status',
+    'lotteryRank', 'lotteryTotal', 'firstCome', 'standingRequestId', 'createdAt', 'releasedAt', 'archived',
+  ];
+  const rows = records.map(({ id, archived, data }) => {
+    const [datePart, timeSlot] = (data.date || '').split('T');
+    return [
+      id, datePart, timeSlot, data.roomId, data.bandId, data.bandName, data.userId, data.status,
+      data.lotteryRank, data.lotteryTotal, data.firstCome, data.standingRequestId, data.createdAt, data.releasedAt, archived,
+    ];
+  });
+  return toCsv(header, rows);
+}
+
+/**
+ * 抽選結果のCSV（1枠の1順位ごとに1行）
+ * bandName は現在の順位表（譲渡・交換・辞退・手動変更の反映後）、drawnBandName は抽選で決まった元の順位
+ */
+export function lotteryResultsToCsv(records: ExportRecord[]): string {
+  const header = ['date', 'roomId', 'timeSlot', 'capacity', 'count', 'rank', 'bandName', 'drawnBandName', 'archived'];
+  const rows: unknown[][] = [];
+  for (const { id, archived, data } of records) {
+    const results = data.results || {};
+    for (const slotKey of Object.keys(results).sort()) {
+      const slotResult = results[slotKey];
+      const { roomId, timeSlot } = parseResultKey(slotKey, slotResult);
+      const order: string[] = slotResult.order || [];
+      const drawnOrder = drawnOrderOf(slotResult);
+      for (let i = 0; i < Math.max(order.length, drawnOrder.length); i++) {
+        rows.push([id, roomId, timeSlot, slotResult.capacity, slotResult.count, i + 1, order[i], drawnOrder[i], archived]);
+      }
+    }
+  }
+  return toCsv(header, rows);
+}
+
+/**
+ * エクスポートの種類ごとの読み込みとCSV変換
+ */
+export const EXPORTERS: { [type in ExportType]: {
+  load: (db: admin.firestore.Firestore, from: string, to: string) => Promise<ExportRecord[]>;
+  toCsv: (records: ExportRecord[]) => string;
+} } = {
+  reservations: { load: loadReservationsForExport, toCsv: reservationsToCsv },
+  lottery_results: { load: loadLotteryResultsForExport, toCsv: lotteryResultsToCsv },
+};
@@ -0,0 +1,149 @@
+import * as crypto from 'crypto';
+
+// メンバーが重なる予約の競合解決
+// 同じ人が時間の重なる2つの枠で同時に当選しないよう、枠ごとの抽選順位をもとに優先する予約を決める
+// lottery_results には競合した予約のペア（memberConflicts）と、解決の結果（results[slotKey].conflicts）を保存し、
+// lottery-verify で同じ結果を再計算できるようにする
+
+export interface ConflictCandidate {
+  docId: string;
+  timeSlot: string;    // "10:00-12:00"
+  memberIds: string[]; // バンドのメンバーと登録者のLINEユーザーID
+}
+
+// メンバーが重なる予約のペア（Firestoreは配列の入れ子を保存できないためオブジェクトにする）
+export interface MemberConflictPair {
+  docIds: string[];      // 2件の予約ID（昇順）
+  sharedMembers: number; // 重なっているメンバーの人数
+}
+
+export interface ConflictSlot {
+  slotKey: string;
+  label: string;            // 説明文用の枠の表示名（例: "部室 10:00~12:00"）
+  capacity: number | null;  // nullなら定員なし
+  order: { docId: string; bandName: string }[]; // 抽選で決まった順
+}
+
+// 競合で当選を譲った予約
+export interface MemberConflictLoss {
+  docId: string;
+  bandName: string;
+  rank: number;
+  lostTo: {
+    docId: string;
+    bandName: string;
+    slotKey: string;
+    rank: number;
+  };
+  reason: string;
+}
+
+/**
+ * 2つの時間帯（"HH:MM-HH:MM"）が重なるか
+ */
+export function timeSlotsOverlap(a: string, b: string): boolean {
+  const [aStart, aEnd] = a.split('-');
+  const [bStart, bEnd] = b.split('-');
+  return aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * 時間が重なり、メンバーも重なる予約のペアを探す
+ * @param candidates 同じ日の予約
+ */
+export function findMemberConflicts(candidates: ConflictCandidate[]): MemberConflictPair[] {
+  const pairs: MemberConflictPair[] = [];
+  const sorted = [...candidates].sort((a, b) => (a.docId < b.docId ? -1 : a.docId > b.docId ? 1 : 0));
+
+  for (let i = 0; i < sorted.length; i++) {
+    const members = new Set(sorted[i].memberIds);
+    for (let j = i + 1; j < sorted.length; j++) {
+      if (!timeSlotsOverlap(sorted[i].timeSlot, sorted[j].timeSlot)) continue;
+      const shared = sorted[j].memberIds.filter((id) => members.has(id)).length;
+      if (shared > 0) {
+        pairs.push({ docIds: [sorted[i].docId, sorted[j].docId], sharedMembers: shared });
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * 同じ順位どうしの競合を決めるためのキー（シードから決まるため再計算できる）
+ */
+function tieBreakKey(seed: string, docId: string): string {
+  return crypto.createHash('sha256').update(`${seed}:member-conflict:${docId}`).digest('hex');
+}
+
+/**
+ * メンバーの競合を順位で解決する
+ * 全枠の予約を「順位 → シードから決まるキー」の順に見ていき、
+ * 枠に空きがあり、既に当選した予約とメンバーが重ならなければ当選とする
+ * 当選した予約とメンバーが重なる予約は、定員内の順位でもキャンセル待ちになる
+ * @param slots 各枠の抽選結果
+ * @param pairs findMemberConflicts() の結果
+ * @param seed 抽選シード
+ * @returns 競合によりキャンセル待ちになった予約（枠ごと）
+ */
+export function resolveMemberConflicts(
+  slots: ConflictSlot[],
+  pairs: MemberConflictPair[],
+  seed: string
+): Map<string, MemberConflictLoss[]> {
+  const losses = new Map<string, MemberConflictLoss[]>();
+  if (pairs.length === 0) return losses;
+
+  const conflictsOf = new Map<string, Set<string>>();
+  for (const { docIds: [a, b] } of pairs) {
+    if (!conflictsOf.has(a)) conflictsOf.set(a, new Set());
+    if (!conflictsOf.has(b)) conflictsOf.set(b, new Set());
+    conflictsOf.get(a)!.add(b);
+    conflictsOf.get(b)!.add(a);
+  }
+
+  const candidates = slots.flatMap((slot) => slot.order.map((entry, index) => ({
+    ...entry,
+    slot,
+    rank: index + 1,
+    key: tieBreakKey(seed, entry.docId),
+  })));
+  candidates.sort((a, b) => a.rank - b.rank || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+  const winners = new Map<string, typeof candidates[number]>(); // docId -> 当選した予約
+  const winnerCount = new Map<string, number>(); // slotKey -> 当選数
+
+  for (const candidate of candidates) {
+    const { slot } = candidate;
+    const count = winnerCount.get(slot.slotKey) || 0;
+    if (slot.capacity !== null && count >= slot.capacity) continue; // 定員に達した枠はキャンセル待ち
+
+    const conflictingWinner = Array.from(conflictsOf.get(candidate.docId) || [])
+      .map((docId) => winners.get(docId))
+      .find((winner) => winner !== undefined);
+
+    if (conflictingWinner) {
+      const slotLosses = losses.get(slot.slotKey) || [];
+      slotLosses.push({
+        docId: candidate.docId,
+        bandName: candidate.bandName,
+        rank: candidate.rank,
+        lostTo: {
+          docId: conflictingWinner.docId,
+          bandName: conflictingWinner.bandName,
+          slotKey: conflictingWinner.slot.slotKey,
+          rank: conflictingWinner.rank,
+        },
+        reason: `メンバーが重なる「${conflictingWinner.bandName}」（${conflictingWinner.slot.label} ${conflictingWinner.rank}位）が`
+          + (conflictingWinner.rank < candidate.rank ? '上位' : '同順位の抽選で優先')
+          + 'のため、キャンセル待ちになりました',
+      });
+      losses.set(slot.slotKey, slotLosses);
+      continue;
+    }
+
+    winners.set(candidate.docId, candidate);
+    winnerCount.set(slot.slotKey, count + 1);
+  }
+
+  return losses;
+}
@@ -0,0 +1,118 @@
+import * as crypto from 'crypto';
+import { FairnessSettings } from './settings';
+
+// 0以上1未満の乱数を返す関数
+export type RandomSource = () => number;
+
+/**
+ * シードから再現可能な乱数列を生成する
+ * SHA-256(seed:counter) の出力を48bitずつ切り出して使うため、同じシードなら必ず同じ結果になる
+ * @param seed シード文字列
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  let counter = 0;
+  let buffer = Buffer.alloc(0);
+  let offset = 0;
+
+  return () => {
+    if (offset + 6 > buffer.length) {
+      buffer = crypto.createHash('sha256').update(`${seed}:${counter}`).digest();
+      counter++;
+      offset = 0;
+    }
+    const value = buffer.readUIntBE(offset, 6) / 2 ** 48;
+    offset += 6;
+    return value;
+  };
+}
+
+/**
+ * 新しいシードを生成する（256bitの16進文字列）
+ */
+export function generateSeed(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+export interface WeightedEntry {
+  id: string;     // 並び順を安定させるためのID（予約ドキュメントID）
+  weight: number; // 1が基準。大きいほど上位になりやすい
+}
+
+/**
+ * 重み付きで順位を決める（Efraimidis–Spirakis法）
+ * 各エントリに u^(1/weight) のキーを割り当て、大きい順に並べる
+ * 入力順に依存しないよう、乱数を割り当てる前にIDでソートする
+ * @param entries 抽選対象
+ * @param random 乱数生成器
+ * @returns 1位から順に並べたエントリ
+ */
+export function weightedOrder<T extends WeightedEntry>(entries: T[], random: RandomSource): T[] {
+  const keyed = [...entries]
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+    .map((entry) => ({
+      entry,
+      key: Math.pow(random(), 1 / entry.weight),
+    }));
+
+  keyed.sort((a, b) => b.key - a.key);
+  return keyed.map((k) => k.entry);
+}
+
+export interface LotteryHistoryRecord {
+  date: string;  // "2024-12-20"
+  rank: number;  // 1始まり
+  total: number; // その枠の応募数
+}
+
+/**
+ * 過去の抽選結果から公平性の重みを計算する
+ * 直近 historySize 回の「負け具合」（1位=0、最下位=1）の平均に weightFactor を掛けて 1 に足す
+ * 例: 毎回最下位のバンドは 1 + weightFactor、毎回1位のバンドは 1
+ * @param records 対象バンドの過去の抽選結果
+ * @param fairness 公平性の設定
+ */
+export function computeFairnessWeight(records: LotteryHistoryRecord[], fairness: FairnessSettings): number {
+  const recent = [...records]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, fairness.historySize);
+
+  if (recent.length === 0) return 1;
+
+  const lossSum = recent.reduce((sum, r) => {
+    return sum + (r.total > 1 ? (r.rank - 1) / (r.total - 1) : 0);
+  }, 0);
+
+  return 1 + Math.max(0, fairness.weightFactor) * (lossSum / recent.length);
+}
+
+// 抽選の入力（lottery_results に保存され、検証時にそのまま再利用される）
+export interface LotteryInputEntry {
+  docId: string;
+  bandName: string;
+  weight: number;
+}
+
+/**
+ * 1つの枠の順位を決める
+ * 同じ seed・slotKey・entries からは必ず同じ順位が得られる
+ * @param entries 抽選対象
+ * @param seed 抽選日のシード
+ * @param slotKey 枠の識別子（lottery_results の results のキー）
+ * @returns 1位から順に並べたエントリ
+ */
+export function drawSlotOrder(entries: LotteryInputEntry[], seed: string, slotKey: string): LotteryInputEntry[] {
+  const random = createSeededRandom(`${seed}:${slotKey}`);
+  return weightedOrder(
+    entries.map((entry) => ({ ...entry, id: entry.docId })),
+    random
+  ).map(({ id, ...entry }) => entry);
+}
+
+/**
+ * 抽選で決まった元の順位（lottery-verify の照合対象）
+ * 管理者による順位の変更（manualOverride）や枠の譲渡・交換（transfers）・辞退（releases）で order が変わった場合も、元の順位を返す
+ * @param slotResult lottery_results の results[slotKey]
+ */
+export function drawnOrderOf(slotResult: { [field: string]: any }): string[] {
+  return slotResult.manualOverride?.drawnOrder ?? slotResult.drawnOrder ?? slotResult.order ?? [];
+}
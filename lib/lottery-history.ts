@@ -0,0 +1,73 @@
+import * as admin from 'firebase-admin';
+import { LotteryHistoryRecord } from './lottery-draw';
+import { normalizeBandName } from './bands';
+
+// lottery_history コレクション
+// 公平性の重み計算のため、data-organize の7日間より長く（fairness.historyDays）保持する
+// ドキュメントID: "{抽選日}_{予約ドキュメントID}"（再抽選時は上書きされる）
+
+/**
+ * バンドを識別するキー（バンドID。バンドIDがない古い予約は表記ゆれを吸収したバンド名）
+ * 表記を変えても同じバンドの履歴として数える
+ * @param data 予約データ
+ */
+export function bandHistoryKey(data: admin.firestore.DocumentData): string {
+  return data.bandId || `name:${normalizeBandName(data.bandName || '')}`;
+}
+
+/**
+ * 以前のキー（前後の空白を除いたバンド名）
+ * キーを変える前に保存した履歴も fairness.historyDays の間は重みの計算に使う
+ * @param data 予約データ
+ */
+export function legacyBandHistoryKey(data: admin.firestore.DocumentData): string {
+  return (data.bandName || '').trim();
+}
+
+/**
+ * 抽選履歴ドキュメントの参照を取得する
+ */
+export function lotteryHistoryRef(
+  db: admin.firestore.Firestore,
+  lotteryDate: string,
+  reservationId: string
+): admin.firestore.DocumentReference {
+  return db.collection('lottery_history').doc(`${lotteryDate}_${reservationId}`);
+}
+
+/**
+ * 指定バンドの抽選履歴を取得する
+ * @param db Firestore instance
+ * @param bandKeys bandHistoryKey() / legacyBandHistoryKey() で作ったキーの一覧
+ * @param fromDate この日付以降の履歴のみ（YYYY-MM-DD、含む）
+ * @param beforeDate この日付より前の履歴のみ（YYYY-MM-DD、含まない）
+ * @returns バンドキーごとの履歴
+ */
+export async function loadLotteryHistory(
+  db: admin.firestore.Firestore,
+  bandKeys: string[],
+  fromDate: string,
+  beforeDate: string
+): Promise<Map<string, LotteryHistoryRecord[]>> {
+  const histories = new Map<string, LotteryHistoryRecord[]>();
+  const uniqueKeys = Array.from(new Set(bandKeys));
+
+  // "in" クエリは30件までなので分割して取得（日付の絞り込みはインデックス不要にするためクライアント側で行う）
+  for (let i = 0; i < uniqueKeys.length; i += 30) {
+    const chunk = uniqueKeys.slice(i, i + 30);
+    const snapshot = await db.collection('lottery_history')
+      .where('bandKey', 'in', chunk)
+      .get();
+
+    snapshot.forEach((doc) => {
+      const data = doc.data();
+      if (data.date < fromDate || data.date >= beforeDate) return;
+
+      const records = histories.get(data.bandKey) || [];
+      records.push({ date: data.date, rank: data.rank, total: data.total });
+      histories.set(data.bandKey, records);
+    });
+  }
+
+  return histories;
+}
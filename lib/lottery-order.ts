@@ -0,0 +1,62 @@
+import * as admin from 'firebase-admin';
+import { resultKey, reservationRoomId } from './rooms';
+import { drawnOrderOf } from './lottery-draw';
+
+// 抽選結果（lottery_results/{date}.results[slot].order）の順位表から予約のバンドを外す
+// 確定した枠の辞退（lib/release）・キャンセル待ちの予約の削除（lib/reservation-access）・管理APIでの削除で使う
+// 抽選で決まった元の順位（drawnOrder）と外した記録（releases）を残し、lottery-verify で照合できるようにする
+
+/**
+ * 抽選結果の順位表から予約のバンドを外す更新内容
+ * 抽選を経ていない枠（空き枠予約など）は抽選結果がないため更新しない
+ */
+function releaseUpdates(
+  resultData: admin.firestore.DocumentData | undefined,
+  reservation: admin.firestore.DocumentData,
+  releasedBy: string
+): [admin.firestore.FieldPath, unknown][] {
+  const [datePart, timeSlot] = reservation.date.split('T');
+  const slotKey = resultKey(reservationRoomId(reservation), timeSlot);
+  const slotResult = resultData?.results?.[slotKey];
+  if (!slotResult) return [];
+
+  const bandName = reservation.bandName || 'バンド名なし';
+  const order: string[] = [...(slotResult.order || [])];
+  const rankIndex = reservation.lotteryDate === datePart && reservation.lotteryRank ? reservation.lotteryRank - 1 : -1;
+  const index = order[rankIndex] === bandName ? rankIndex : order.indexOf(bandName);
+  if (index === -1) return [];
+  order.splice(index, 1);
+
+  const release = {
+    bandName,
+    rank: index + 1,
+    releasedBy,
+    at: new Date(),
+  };
+  // slotKey には "." 以外の記号が含まれるため FieldPath で指定する
+  return [
+    [new admin.firestore.FieldPath('results', slotKey, 'order'), order],
+    [new admin.firestore.FieldPath('results', slotKey, 'drawnOrder'), drawnOrderOf(slotResult)],
+    [new admin.firestore.FieldPath('results', slotKey, 'releases'), [...(slotResult.releases || []), release]],
+  ];
+}
+
+/**
+ * 抽選結果の順位表から予約のバンドを外す（トランザクション内で、抽選結果は読み取り済みのもの）
+ * @param tx トランザクション
+ * @param resultSnap lottery_results/{date}
+ * @param reservation 辞退・削除する予約の変更前のデータ
+ * @param releasedBy 操作者（ユーザーID、管理APIは "admin:{操作者}"）
+ */
+export function removeFromLotteryOrder(
+  tx: admin.firestore.Transaction,
+  resultSnap: admin.firestore.DocumentSnapshot,
+  reservation: admin.firestore.DocumentData,
+  releasedBy: string
+): void {
+  const resultUpdates = releaseUpdates(resultSnap.data(), reservation, releasedBy);
+  if (resultUpdates.length > 0) {
+    const [[firstField, firstValue], ...more] = resultUpdates;
+    tx.update(resultSnap.ref, firstField, firstValue, ...more.flat(), 'updatedAt', new Date());
+  }
+}
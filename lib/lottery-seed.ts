@@ -0,0 +1,72 @@
+import * as crypto from 'crypto';
+import * as admin from 'firebase-admin';
+import { generateSeed } from './lottery-draw';
+
+// 抽選アルゴリズムのバージョン
+// 順位の計算方法を変える場合は必ず上げること（lottery-verify が古い結果を正しく再計算できるように）
+// weighted-es-sha256-v1: SHA-256カウンタ方式の乱数 + Efraimidis–Spirakis法、枠ごとに "{seed}:{results のキー}" で乱数を初期化
+export const LOTTERY_ALGORITHM_VERSION = 'weighted-es-sha256-v1';
+
+// lottery_seeds コレクション（ドキュメントID: 抽選対象日 YYYY-MM-DD）
+// 抽選前にハッシュだけを公開し（commit）、抽選後にシードを公開する（reveal）
+export interface LotterySeed {
+  seed: string;
+  seedHash: string;
+  committedAt: Date;
+}
+
+/**
+ * シードのハッシュ値（SHA-256、16進）を計算する
+ */
+export function hashSeed(seed: string): string {
+  return crypto.createHash('sha256').update(seed).digest('hex');
+}
+
+/**
+ * 指定日のシードを確定（コミット）する
+ * 既にコミット済みの場合は既存のシードを返す（何度呼んでもシードは変わらない）
+ * @param db Firestore instance
+ * @param targetDateStr 抽選対象日 (例: "2024-12-20")
+ * @returns シードと、今回新しく作成したかどうか
+ */
+export async function commitLotterySeed(
+  db: admin.firestore.Firestore,
+  targetDateStr: string
+): Promise<{ seed: LotterySeed; created: boolean }> {
+  const ref = db.collection('lottery_seeds').doc(targetDateStr);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (snap.exists) {
+      const data = snap.data()!;
+      return {
+        seed: { seed: data.seed, seedHash: data.seedHash, committedAt: data.committedAt.toDate() },
+        created: false,
+      };
+    }
+
+    const seed = generateSeed();
+    const committed: LotterySeed = {
+      seed,
+      seedHash: hashSeed(seed),
+      committedAt: new Date(),
+    };
+    tx.create(ref, committed);
+    return { seed: committed, created: true };
+  });
+}
+
+/**
+ * コミット済みのシードを取得する
+ * @returns コミットされていない場合はnull
+ */
+export async function getCommittedSeed(
+  db: admin.firestore.Firestore,
+  targetDateStr: string
+): Promise<LotterySeed | null> {
+  const snap = await db.collection('lottery_seeds').doc(targetDateStr).get();
+  if (!snap.exists) return null;
+
+  const data = snap.data()!;
+  return { seed: data.seed, seedHash: data.seedHash, committedAt: data.committedAt.toDate() };
+}
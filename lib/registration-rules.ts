@@ -0,0 +1,122 @@
+import * as admin from 'firebase-admin';
+import { RegistrationLimits } from './settings';
+import { normalizeBandName } from './bands';
+
+// 登録を拒否したルール
+export type RegistrationRule =
+  | 'duplicate_band_slot' // 同じバンドが同じ枠に登録済み
+  | 'duplicate_user_slot' // 同じユーザーが同じ枠に登録済み
+  | 'user_daily_limit'
+  | 'user_weekly_limit'
+  | 'band_daily_limit'
+  | 'band_weekly_limit';
+
+export interface RegistrationRuleViolation {
+  rule: RegistrationRule;
+  message: string; // LINE返信用
+}
+
+export interface RegistrationCandidate {
+  userId: string;
+  bandName: string;
+  bandId?: string; // bands のID（バンド登録前の古いデータにはない）
+  date: string; // "2024-12-20T10:00-12:00"
+}
+
+/**
+ * 予約日が属する週（月曜〜日曜）の範囲
+ * @param datePart "YYYY-MM-DD"
+ */
+function weekRange(datePart: string): { start: string; end: string } {
+  const date = new Date(`${datePart}T00:00:00Z`);
+  const mondayOffset = (date.getUTCDay() + 6) % 7;
+  const start = new Date(date.getTime() - mondayOffset * 24 * 60 * 60 * 1000);
+  const end = new Date(start.getTime() + 6 * 24 * 60 * 60 * 1000);
+  return { start: start.toISOString().slice(0, 10), end: end.toISOString().slice(0, 10) };
+}
+
+/**
+ * 登録（または日時・バンド名の変更）が重複・上限のルールに違反していないか確認する
+ * 同じトランザクション内で書き込むことで、同時に登録された場合も二重登録を防ぐ
+ * @param db Firestore instance
+ * @param tx 登録に使うトランザクション（書き込みより前に呼ぶこと）
+ * @param candidate 登録しようとしている内容
+ * @param limits settings/reservation の上限設定
+ * @param excludeDocId 変更の場合、変更対象の予約ID（自分自身は数えない。枠の交換では両方の予約ID）
+ * @param pending 同じトランザクションで先に登録する予約（複数の時間をまとめて登録する場合、登録済みとして数える）
+ * @returns 違反したルール（問題なければnull）
+ */
+export async function checkRegistrationRules(
+  db: admin.firestore.Firestore,
+  tx: admin.firestore.Transaction,
+  candidate: RegistrationCandidate,
+  limits: RegistrationLimits,
+  excludeDocId?: string | string[],
+  pending: RegistrationCandidate[] = []
+): Promise<RegistrationRuleViolation | null> {
+  const [datePart, timePart] = candidate.date.split('T');
+  const week = weekRange(datePart);
+  const bandKey = normalizeBandName(candidate.bandName);
+  const bandName = candidate.bandName;
+  const displayDate = datePart.replace(/-/g, '/').slice(5);
+
+  // 週の予約をまとめて取得（同じ枠・同じ日の判定にも使う）
+  const snapshot = await tx.get(
+    db.collection('reservations')
+      .where('date', '>=', `${week.start}T00:00`)
+      .where('date', '<=', `${week.end}T23:59`)
+  );
+  const excluded = ([] as string[]).concat(excludeDocId || []);
+  const reservations: admin.firestore.DocumentData[] = snapshot.docs
+    .filter((doc) => !excluded.includes(doc.id) && doc.data().status !== 'released') // 辞退した枠は数えない
+    .map((doc) => doc.data())
+    .concat(pending.filter((r) => r.date >= `${week.start}T00:00` && r.date <= `${week.end}T23:59`));
+
+  const byUser = reservations.filter((r) => r.userId === candidate.userId);
+  // 同じバンドか（バンドIDが一致するか、表記ゆれを吸収したバンド名が一致するか）
+  const byBand = reservations.filter((r) => (candidate.bandId && r.bandId === candidate.bandId)
+    || normalizeBandName(r.bandName || '') === bandKey);
+  const sameDay = (r: admin.firestore.DocumentData) => r.date.startsWith(`${datePart}T`);
+
+  // 1. 重複登録
+  if (byBand.some((r) => r.date === candidate.date)) {
+    return {
+      rule: 'duplicate_band_slot',
+      message: `⚠️「${bandName}」は ${displayDate} ${timePart} に既に登録されています。\n同じバンドで同じ時間帯に重複して登録することはできません。`,
+    };
+  }
+  if (byUser.some((r) => r.date === candidate.date)) {
+    return {
+      rule: 'duplicate_user_slot',
+      message: `⚠️ ${displayDate} ${timePart} には既にあなたの登録があります。\n同じ時間帯に複数の登録をすることはできません。`,
+    };
+  }
+
+  // 2. 登録数の上限
+  if (limits.perUserPerDay !== null && byUser.filter(sameDay).length >= limits.perUserPerDay) {
+    return {
+      rule: 'user_daily_limit',
+      message: `⚠️ 1人が1日に登録できるのは${limits.perUserPerDay}件までです。\n${displayDate} は既に上限まで登録しています。`,
+    };
+  }
+  if (limits.perUserPerWeek !== null && byUser.length >= limits.perUserPerWeek) {
+    return {
+      rule: 'user_weekly_limit',
+      message: `⚠️ 1人が1週間（月〜日）に登録できるのは${limits.perUserPerWeek}件までです。\n${displayDate} を含む週は既に上限まで登録しています。`,
+    };
+  }
+  if (limits.perBandPerDay !== null && byBand.filter(sameDay).length >= limits.perBandPerDay) {
+    return {
+      rule: 'band_daily_limit',
+      message: `⚠️ 1バンドが1日に登録できるのは${limits.perBandPerDay}件までです。\n「${bandName}」は ${displayDate} に既に上限まで登録されています。`,
+    };
+  }
+  if (limits.perBandPerWeek !== null && byBand.length >= limits.perBandPerWeek) {
+    return {
+      rule: 'band_weekly_limit',
+      message: `⚠️ 1バンドが1週間（月〜日）に登録できるのは${limits.perBandPerWeek}件までです。\n「${bandName}」は ${displayDate} を含む週に既に上限まで登録されています。`,
+    };
+  }
+
+  return null;
+}
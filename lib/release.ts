@@ -0,0 +1,93 @@
+import * as admin from 'firebase-admin';
+import * as line from '@line/bot-sdk';
+import { reservationRoomId } from './rooms';
+import { hasSlotStarted } from './schedule';
+import { mutateOwnedReservation, ReservationAccessResult } from './reservation-access';
+import { recordReservationEvent } from './reservation-events';
+import { removeFromLotteryOrder } from './lottery-order';
+import { promoteNextWaitlisted, promotionMessage, PromotedReservation } from './waitlist';
+import { postToBand } from './band';
+
+// 確定した枠の辞退
+// 予約は削除せず status: 'released' にして残し、lottery_results/{date}.results[slot].order からバンドを外す
+// 抽選で決まった元の順位（drawnOrder）と辞退の記録（releases）も残し、lottery-verify で照合できるようにする
+// 空いた枠は呼び出し側で fillReleasedSlot を呼んで、キャンセル待ちの最上位に繰り上げる
+// 管理APIで確定した予約を削除・状態変更する場合も、同じく順位表から外して繰り上げる
+
+const SLOT_STARTED_MESSAGE = '⚠️ 利用時間を過ぎた枠は辞退できません。';
+
+/**
+ * 確定した枠を辞退する（登録者か、予約のバンドのメンバーのみ）
+ * 権限チェック・予約の状態変更・抽選結果の順位表の更新・変更履歴の記録を1つのトランザクションで行う
+ * 戻り値の data は辞退前の予約データ（繰り上げ・通知に使う）
+ * @param db Firestore instance
+ * @param docId 予約ドキュメントID
+ * @param userId 辞退するユーザー
+ * @param now 現在時刻
+ */
+export function releaseReservation(
+  db: admin.firestore.Firestore,
+  docId: string | null | undefined,
+  userId: string,
+  now: Date = new Date()
+): Promise<ReservationAccessResult> {
+  return mutateOwnedReservation(db, docId, userId, async (tx, ref, data) => {
+    const [datePart, timeSlot] = data.date.split('T');
+    if (hasSlotStarted(datePart, timeSlot, now)) return SLOT_STARTED_MESSAGE;
+
+    // 1. 読み取り（トランザクションでは書き込みより前にすべて読む）
+    const resultRef = db.collection('lottery_results').doc(datePart);
+    const resultSnap = await tx.get(resultRef);
+
+    // 2. 書き込み
+    const updates = { status: 'released', releasedAt: new Date(), releasedBy: userId };
+    tx.update(ref, updates);
+    recordReservationEvent(db, tx, {
+      reservationId: ref.id,
+      action: 'release',
+      actor: { type: 'user', id: userId },
+      before: data,
+      after: { ...data, ...updates },
+    });
+
+    removeFromLotteryOrder(tx, resultSnap, data, userId);
+  }, ['confirmed']);
+}
+
+/**
+ * 空いた枠をキャンセル待ちの最上位に繰り上げてLINEで通知し、BANDに投稿する
+ * 通知・投稿に失敗しても枠を空ける処理は完了しているため、エラーはログのみ
+ * @param db Firestore instance
+ * @param client LINE client
+ * @param data 枠を空けた予約の変更前のデータ
+ * @returns 繰り上がった予約（キャンセル待ちがいない場合はnull）
+ */
+export async function fillReleasedSlot(
+  db: admin.firestore.Firestore,
+  client: line.Client,
+  data: admin.firestore.DocumentData
+): Promise<PromotedReservation | null> {
+  const promoted = await promoteNextWaitlisted(db, data.date, reservationRoomId(data));
+  if (promoted) {
+    await client.pushMessage(promoted.userId, {
+      type: 'text',
+      text: promotionMessage(promoted),
+    }).catch((err) => console.error(err));
+  }
+  await postToBand(releaseBandPost(data, promoted?.bandName ?? null), false).catch((err) => console.error(err));
+  return promoted;
+}
+
+/**
+ * 辞退をBANDに知らせる投稿の本文
+ * @param data 辞退した予約のデータ
+ * @param promotedBandName 繰り上がったバンド名（いない場合はnull）
+ */
+export function releaseBandPost(data: admin.firestore.DocumentData, promotedBandName: string | null): string {
+  const [datePart, timePart] = data.date.split('T');
+  const displayDate = datePart.replace(/-/g, '/').slice(5);
+  const next = promotedBandName
+    ? `→「${promotedBandName}」が繰り上がりました`
+    : '→ キャンセル待ちがいないため、空き枠になりました';
+  return `🙅 枠の辞退\n${displayDate} ${timePart}「${data.bandName || '(バンド名なし)'}」\n${next}`;
+}
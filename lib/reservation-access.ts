@@ -0,0 +1,208 @@
+import * as admin from 'firebase-admin';
+import { recordReservationEvent, STATUS_LABELS } from './reservation-events';
+import { removeFromLotteryOrder } from './lottery-order';
+
+// 権限チェックで拒否された理由
+export type ReservationAccessDenial = 'not_found' | 'not_owner' | 'invalid_status' | 'rule_violation';
+
+// 拒否理由ごとのLINE返信メッセージ
+// invalid_status は編集・削除・辞退・譲渡のどれでも返るため、操作を限定しない文言にする（実際の返信は statusDenialMessage）
+export const RESERVATION_ACCESS_MESSAGES: { [reason in ReservationAccessDenial]: string } = {
+  not_found: '⚠️ この登録は見つかりませんでした。既に削除された可能性があります。',
+  not_owner: '⚠️ この登録を操作する権限がありません。\n自分またはバンドのメンバーが登録したものだけ編集・削除できます。',
+  invalid_status: '⚠️ 今の状態の登録には、この操作はできません。',
+  rule_violation: '⚠️ 登録のルールにより、この変更はできません。',
+};
+
+export type ReservationAccessResult =
+  | { ok: true; ref: admin.firestore.DocumentReference; data: admin.firestore.DocumentData }
+  | { ok: false; reason: ReservationAccessDenial; message: string };
+
+// 編集できるのは抽選前の予約のみ
+const EDITABLE_STATUSES = ['pending'];
+
+// 削除は抽選後（確定・キャンセル待ち）でも可能
+export const DELETABLE_STATUSES = ['pending', 'confirmed', 'waitlisted'];
+
+// 予約ドキュメントをそのまま削除できる状態
+// 確定した枠は抽選結果の順位表も更新するため、削除ではなく辞退（lib/release の releaseReservation）で扱う
+const DIRECT_DELETE_STATUSES = ['pending', 'waitlisted'];
+
+/**
+ * 登録者以外のユーザーが、予約のバンド（bands）のメンバーか
+ * @param get ドキュメントの取得方法（トランザクション内では tx.get）
+ */
+async function isBandMember(
+  db: admin.firestore.Firestore,
+  snap: admin.firestore.DocumentSnapshot,
+  userId: string,
+  get: (ref: admin.firestore.DocumentReference) => Promise<admin.firestore.DocumentSnapshot>
+): Promise<boolean> {
+  const data = snap.data();
+  if (!data || data.userId === userId || !data.bandId) return false;
+
+  const bandSnap = await get(db.collection('bands').doc(data.bandId));
+  return bandSnap.exists && (bandSnap.data()!.memberIds || []).includes(userId);
+}
+
+/**
+ * 予約の状態が操作を許可する状態でないときのメッセージ（今の状態を伝える）
+ * 例: 確定した登録を編集しようとした場合「この登録は「確定」のため、この操作はできません。」
+ */
+function statusDenialMessage(status: string | undefined): string {
+  const label = status ? STATUS_LABELS[status] : undefined;
+  return label
+    ? `⚠️ この登録は「${label}」のため、この操作はできません。`
+    : RESERVATION_ACCESS_MESSAGES.invalid_status;
+}
+
+/**
+ * 予約データが操作可能か判定する（存在・所有者またはバンドのメンバー・状態）
+ * @param snap 予約ドキュメント
+ * @param userId 操作しようとしているユーザーID
+ * @param allowedStatuses 操作を許可する予約の状態
+ * @param bandMember 操作しようとしているユーザーが予約のバンドのメンバーか
+ */
+function checkAccess(
+  snap: admin.firestore.DocumentSnapshot,
+  userId: string,
+  allowedStatuses: string[],
+  bandMember: boolean
+): ReservationAccessResult {
+  if (!snap.exists) {
+    return { ok: false, reason: 'not_found', message: RESERVATION_ACCESS_MESSAGES.not_found };
+  }
+
+  const data = snap.data()!;
+  if (data.userId !== userId && !bandMember) {
+    return { ok: false, reason: 'not_owner', message: RESERVATION_ACCESS_MESSAGES.not_owner };
+  }
+  if (!allowedStatuses.includes(data.status)) {
+    return { ok: false, reason: 'invalid_status', message: statusDenialMessage(data.status) };
+  }
+
+  return { ok: true, ref: snap.ref, data };
+}
+
+/**
+ * 予約を操作する権限があるか確認する（書き込みは行わない）
+ * 編集・削除フローの開始前に、早めにエラーを返すために使う
+ * @param db Firestore instance
+ * @param docId 予約ドキュメントID
+ * @param userId 操作しようとしているユーザーID
+ * @param allowedStatuses 操作を許可する予約の状態（デフォルト: pendingのみ）
+ */
+export async function authorizeReservation(
+  db: admin.firestore.Firestore,
+  docId: string | null | undefined,
+  userId: string,
+  allowedStatuses: string[] = EDITABLE_STATUSES
+): Promise<ReservationAccessResult> {
+  if (!docId) {
+    return { ok: false, reason: 'not_found', message: RESERVATION_ACCESS_MESSAGES.not_found };
+  }
+  const snap = await db.collection('reservations').doc(docId).get();
+  const bandMember = await isBandMember(db, snap, userId, (ref) => ref.get());
+  return checkAccess(snap, userId, allowedStatuses, bandMember);
+}
+
+/**
+ * 権限チェックと書き込みを同一トランザクションで行う
+ * 予約への変更はすべてこの関数（または下のラッパー）を経由させる
+ * @param db Firestore instance
+ * @param docId 予約ドキュメントID
+ * @param userId 操作しようとしているユーザーID
+ * @param mutate 権限チェック通過後に実行する書き込み処理（文字列を返すと書き込まずに拒否する）
+ * @param allowedStatuses 操作を許可する予約の状態（デフォルト: pendingのみ）
+ */
+export async function mutateOwnedReservation(
+  db: admin.firestore.Firestore,
+  docId: string | null | undefined,
+  userId: string,
+  mutate: (
+    tx: admin.firestore.Transaction,
+    ref: admin.firestore.DocumentReference,
+    data: admin.firestore.DocumentData
+  ) => void | string | Promise<void | string>,
+  allowedStatuses: string[] = EDITABLE_STATUSES
+): Promise<ReservationAccessResult> {
+  if (!docId) {
+    return { ok: false, reason: 'not_found', message: RESERVATION_ACCESS_MESSAGES.not_found };
+  }
+  const ref = db.collection('reservations').doc(docId);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const bandMember = await isBandMember(db, snap, userId, (bandRef) => tx.get(bandRef));
+    const result = checkAccess(snap, userId, allowedStatuses, bandMember);
+    if (result.ok) {
+      const denial = await mutate(tx, ref, result.data);
+      if (typeof denial === 'string') {
+        return { ok: false, reason: 'rule_violation', message: denial };
+      }
+    }
+    return result;
+  });
+}
+
+/**
+ * 自分の予約を更新する（変更履歴も同じトランザクションで記録）
+ * @param validate 更新後の予約データを確認し、拒否する場合はメッセージを返す（重複・上限チェック用）
+ */
+export function updateOwnedReservation(
+  db: admin.firestore.Firestore,
+  docId: string | null | undefined,
+  userId: string,
+  updates: admin.firestore.UpdateData<admin.firestore.DocumentData>,
+  validate?: (
+    tx: admin.firestore.Transaction,
+    updated: admin.firestore.DocumentData
+  ) => Promise<string | null>
+): Promise<ReservationAccessResult> {
+  return mutateOwnedReservation(db, docId, userId, async (tx, ref, data) => {
+    if (validate) {
+      const denial = await validate(tx, { ...data, ...updates });
+      if (denial) return denial;
+    }
+    tx.update(ref, updates);
+    recordReservationEvent(db, tx, {
+      reservationId: ref.id,
+      action: 'update',
+      actor: { type: 'user', id: userId },
+      before: data,
+      after: { ...data, ...updates },
+    });
+  });
+}
+
+/**
+ * 自分の予約を削除する（抽選前の予約と、抽選後のキャンセル待ちの予約。変更履歴も記録）
+ * キャンセル待ちの予約は、同じトランザクションで抽選結果の順位表からもバンドを外す
+ * 確定した枠は削除できない（呼び出し側で releaseReservation を使う）
+ * 戻り値の data は削除前の予約データ
+ */
+export function deleteOwnedReservation(
+  db: admin.firestore.Firestore,
+  docId: string | null | undefined,
+  userId: string
+): Promise<ReservationAccessResult> {
+  return mutateOwnedReservation(db, docId, userId, async (tx, ref, data) => {
+    // 1. 読み取り（トランザクションでは書き込みより前にすべて読む）
+    const resultSnap = data.status === 'waitlisted'
+      ? await tx.get(db.collection('lottery_results').doc(data.date.split('T')[0]))
+      : null;
+
+    // 2. 書き込み
+    tx.delete(ref);
+    if (resultSnap) {
+      removeFromLotteryOrder(tx, resultSnap, data, userId);
+    }
+    recordReservationEvent(db, tx, {
+      reservationId: ref.id,
+      action: 'delete',
+      actor: { type: 'user', id: userId },
+      before: data,
+      after: null,
+    });
+  }, DIRECT_DELETE_STATUSES);
+}
@@ -0,0 +1,144 @@
+import * as admin from 'firebase-admin';
+
+// reservation_events コレクション
+// 予約への変更（登録・編集・削除・抽選・状態反映・繰り上げ・辞退・休室日による取り消し・管理者による変更）をすべて追記のみで記録する
+// 「削除していない」などの問い合わせに、誰がいつ何をしたかで答えられるようにするため
+
+// 変更履歴の保持日数（data-organize で削除）
+export const RESERVATION_EVENTS_RETENTION_DAYS = 90;
+
+export type ReservationEventAction =
+  | 'create'            // 登録
+  | 'update'            // 編集（バンド名・日時など）
+  | 'delete'            // 削除
+  | 'lottery_draw'      // 抽選（順位の記録）
+  | 'lottery_clear'     // 抽選結果のクリア
+  | 'lottery_override'  // 管理者による順位の手動変更
+  | 'status_update'     // 抽選結果の反映（確定・キャンセル待ち）
+  | 'waitlist_promote'  // キャンセル待ちからの繰り上げ
+  | 'transfer'          // 確定した枠の他のバンドへの譲渡
+  | 'swap'              // 確定した枠どうしの交換
+  | 'release'           // 確定した枠の辞退
+  | 'closure_cancel';   // 休室日になったことによる抽選待ちの予約の取り消し
+
+export interface ReservationEventActor {
+  type: 'user' | 'admin' | 'system';
+  id: string; // user: LINEのuserId / admin: 操作者名 / system: 処理名（"lottery" など）
+}
+
+export interface ReservationEventInput {
+  reservationId: string;
+  action: ReservationEventAction;
+  actor: ReservationEventActor;
+  before: admin.firestore.DocumentData | null;
+  after: admin.firestore.DocumentData | null;
+}
+
+/**
+ * 予約の変更を reservation_events に記録する
+ * 変更と同じバッチ/トランザクションで記録し、変更だけが残ることがないようにする
+ * @param db Firestore instance
+ * @param writer 変更に使っているバッチまたはトランザクション
+ * @param event 記録内容
+ */
+export function recordReservationEvent(
+  db: admin.firestore.Firestore,
+  writer: admin.firestore.WriteBatch | admin.firestore.Transaction,
+  event: ReservationEventInput
+): void {
+  const current = event.after || event.before || {};
+  const ref = db.collection('reservation_events').doc();
+  // Transaction と WriteBatch の set はシグネチャが同じ
+  (writer as admin.firestore.WriteBatch).set(ref, {
+    ...event,
+    userId: current.userId || null,          // 予約の登録者（「履歴」コマンドの検索用）
+    bandId: current.bandId || null,          // 予約のバンド（メンバーの「履歴」の検索用）
+    reservationDate: current.date || null,   // 予約の日時（日付での検索用）
+    at: new Date(),
+  });
+}
+
+const ACTION_LABELS: { [action in ReservationEventAction]: string } = {
+  create: '📝 登録',
+  update: '✏️ 編集',
+  delete: '🗑️ 削除',
+  lottery_draw: '🎲 抽選',
+  lottery_clear: '↩️ 抽選取消',
+  lottery_override: '🛠️ 順位変更',
+  status_update: '📢 結果反映',
+  waitlist_promote: '🎉 繰り上げ',
+  transfer: '🎁 譲渡',
+  swap: '🔁 交換',
+  release: '🙅 辞退',
+  closure_cancel: '🚫 休室日で取消',
+};
+
+// 予約の状態の表示名
+export const STATUS_LABELS: { [status: string]: string } = {
+  pending: '抽選待ち',
+  confirmed: '確定',
+  waitlisted: 'キャンセル待ち',
+  released: '辞退',
+};
+
+/**
+ * 誰が操作したかの表示
+ * @param actor 操作者
+ * @param viewerUserId 履歴を見ているユーザー（本人の操作は「本人」と表示）
+ */
+function actorLabel(actor: ReservationEventActor, viewerUserId: string): string {
+  if (actor.type === 'user') return actor.id === viewerUserId ? '本人' : 'バンドの他のメンバー';
+  if (actor.type === 'admin') return '管理者';
+  return 'システム';
+}
+
+/**
+ * 変更内容の表示（編集は変更前後、抽選関連は順位や状態）
+ */
+function changeLabel(event: admin.firestore.DocumentData): string {
+  const before = event.before || {};
+  const after = event.after || {};
+
+  switch (event.action as ReservationEventAction) {
+    case 'update':
+    case 'transfer':
+    case 'swap': {
+      const changes: string[] = [];
+      if (before.bandName !== after.bandName) changes.push(`バンド名 ${before.bandName} → ${after.bandName}`);
+      if (before.date !== after.date) changes.push(`日時 ${before.date?.replace('T', ' ')} → ${after.date?.replace('T', ' ')}`);
+      if (before.roomId !== after.roomId) changes.push(`部屋 ${before.roomId || '-'} → ${after.roomId || '-'}`);
+      if (before.status !== after.status) changes.push(`状態 ${STATUS_LABELS[before.status] || before.status} → ${STATUS_LABELS[after.status] || after.status}`);
+      return changes.join(' / ');
+    }
+    case 'lottery_draw':
+    case 'lottery_override':
+      return `${after.lotteryRank}/${after.lotteryTotal}位`;
+    case 'status_update':
+    case 'waitlist_promote':
+    case 'release':
+      return STATUS_LABELS[after.status] || after.status || '';
+    default:
+      return '';
+  }
+}
+
+/**
+ * 変更履歴1件をLINE表示用の1行にする
+ * 例: "12/19 21:03 🗑️ 削除（本人）ANIT Jazz 12/21 14:00-16:00"
+ * @param event reservation_events のデータ
+ * @param viewerUserId 履歴を見ているユーザー
+ */
+export function formatReservationEvent(event: admin.firestore.DocumentData, viewerUserId: string): string {
+  const at: Date = event.at instanceof admin.firestore.Timestamp ? event.at.toDate() : new Date(event.at);
+  const atJST = new Date(at.getTime() + 9 * 60 * 60 * 1000);
+  const atStr = `${('0' + (atJST.getUTCMonth() + 1)).slice(-2)}/${('0' + atJST.getUTCDate()).slice(-2)} ${('0' + atJST.getUTCHours()).slice(-2)}:${('0' + atJST.getUTCMinutes()).slice(-2)}`;
+
+  const target = event.after || event.before || {};
+  const [datePart, timePart] = (target.date || event.reservationDate || '').split('T');
+  const targetStr = `${target.bandName || '(バンド名なし)'} ${(datePart || '').replace(/-/g, '/').slice(5)} ${timePart || ''}`.trim();
+
+  const label = ACTION_LABELS[event.action as ReservationEventAction] || event.action;
+  const change = changeLabel(event);
+
+  return `${atStr} ${label}（${actorLabel(event.actor, viewerUserId)}）${targetStr}${change ? `\n　${change}` : ''}`;
+}
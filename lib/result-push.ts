@@ -0,0 +1,172 @@
+import * as admin from 'firebase-admin';
+import * as line from '@line/bot-sdk';
+import { reservationRoomId, Room } from './rooms';
+import { TimeSlot } from './settings';
+import { compareRoomSlots, slotView, timeSlotsOfRoom } from './slots';
+
+// result_notifications コレクション（ドキュメントID: "{抽選日}_{userId}"）
+// 送信済みのユーザーを記録し、cronの再実行で同じ結果を二重に送らないようにする
+
+// multicast で一度に送れる宛先の上限
+const MULTICAST_LIMIT = 500;
+
+// 送信中（sending）のまま残った記録を送信されなかったとみなすまでの時間
+// 送信中に関数がタイムアウト・異常終了した場合、再実行時にこの時間を過ぎていれば再送する
+const SENDING_STALE_MS = 5 * 60 * 1000;
+
+export interface ResultPushSummary {
+  sent: number;    // 今回送信したユーザー数
+  skipped: number; // 送信済みのためスキップしたユーザー数
+  failed: number;  // 送信に失敗したユーザー数
+}
+
+/**
+ * 予約1件分の抽選結果の行を作る
+ * 例: "・ANIT Jazz 12/21 14:00~16:00 → 2/5位（✅確定）"
+ */
+function resultLine(data: admin.firestore.DocumentData, timeSlots: TimeSlot[], roomNames: Map<string, string> | null): string {
+  const [datePart, timePart] = data.date.split('T');
+  const displayDate = datePart.replace(/-/g, '/').slice(5);
+  const roomLabel = roomNames ? ` ${roomNames.get(reservationRoomId(data)) || reservationRoomId(data)}` : '';
+  const status = data.status === 'confirmed'
+    ? '✅確定'
+    : data.status === 'waitlisted'
+      ? (data.conflictLostTo
+        ? `🕒キャンセル待ち: メンバーが重なる「${data.conflictLostTo.bandName}」を優先`
+        : '🕒キャンセル待ち')
+      : '⏳反映待ち';
+  return `・${data.bandName || '(バンド名なし)'} ${displayDate} ${slotView(timeSlots, timePart).label}${roomLabel} → ${data.lotteryRank}/${data.lotteryTotal}位（${status}）`;
+}
+
+/**
+ * 送信権を確保する（送信済み・送信中ならfalse）
+ * 失敗した送信と、送信中のまま SENDING_STALE_MS を過ぎた送信は再実行時に再送する
+ */
+async function claimNotification(
+  db: admin.firestore.Firestore,
+  ref: admin.firestore.DocumentReference,
+  targetDateStr: string,
+  userId: string
+): Promise<boolean> {
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const data = snap.exists ? snap.data() : undefined;
+    const status = data?.status ?? null;
+    if (status === 'sent') {
+      return false;
+    }
+    if (status === 'sending') {
+      const claimedAt: Date | undefined = data?.claimedAt?.toDate?.();
+      if (claimedAt && Date.now() - claimedAt.getTime() < SENDING_STALE_MS) {
+        return false;
+      }
+      console.warn(`Retrying stale result notification: ${ref.id}`);
+    }
+    tx.set(ref, {
+      date: targetDateStr,
+      userId,
+      status: 'sending',
+      claimedAt: new Date(),
+    });
+    return true;
+  });
+}
+
+/**
+ * 抽選結果を登録者本人にLINEで送る
+ * 同じ本文になるユーザーはmulticastでまとめて送る
+ * @param db Firestore instance
+ * @param client LINE client
+ * @param targetDateStr 対象日付 (例: "2024-12-20")
+ * @param rooms 部屋一覧（2部屋以上ある場合のみ部屋名を表示。時間枠の表示順・ラベルにも使う）
+ * @param defaultTimeSlots settings/reservation の時間枠（部屋一覧にない部屋の予約に使う）
+ */
+export async function pushLotteryResults(
+  db: admin.firestore.Firestore,
+  client: line.Client,
+  targetDateStr: string,
+  rooms: Room[],
+  defaultTimeSlots: TimeSlot[]
+): Promise<ResultPushSummary> {
+  const summary: ResultPushSummary = { sent: 0, skipped: 0, failed: 0 };
+
+  // 1. 抽選された予約をユーザーごとにまとめる
+  const snapshot = await db.collection('reservations')
+    .where('lotteryDate', '==', targetDateStr)
+    .get();
+
+  const roomNames = rooms.length > 1 ? new Map(rooms.map((room) => [room.id, room.name])) : null;
+  const linesByUser = new Map<string, { roomId: string; timeSlot: string; line: string }[]>();
+
+  snapshot.forEach((doc) => {
+    const data = doc.data();
+    if (!data.userId || !data.lotteryRank) return;
+
+    const roomId = reservationRoomId(data);
+    const timeSlot = data.date.split('T')[1];
+    const lines = linesByUser.get(data.userId) || [];
+    lines.push({ roomId, timeSlot, line: resultLine(data, timeSlotsOfRoom(rooms, roomId, defaultTimeSlots), roomNames) });
+    linesByUser.set(data.userId, lines);
+  });
+
+  // 2. 未送信のユーザーだけ、本文ごとにまとめる（行は部屋の表示順 → 時間枠の設定順）
+  const compareLines = compareRoomSlots(rooms, defaultTimeSlots);
+  const displayDate = targetDateStr.replace(/-/g, '/').slice(5);
+  const usersByText = new Map<string, string[]>();
+
+  for (const [userId, lines] of linesByUser) {
+    const ref = db.collection('result_notifications').doc(`${targetDateStr}_${userId}`);
+    if (!(await claimNotification(db, ref, targetDateStr, userId))) {
+      summary.skipped++;
+      continue;
+    }
+
+    const body = lines
+      .sort(compareLines)
+      .map((l) => l.line)
+      .join('\n');
+    const text = `📢 ${displayDate} の抽選結果\n\n${body}`;
+
+    const userIds = usersByText.get(text) || [];
+    userIds.push(userId);
+    usersByText.set(text, userIds);
+  }
+
+  // 3. 送信して結果を記録
+  for (const [text, userIds] of usersByText) {
+    for (let i = 0; i < userIds.length; i += MULTICAST_LIMIT) {
+      const chunk = userIds.slice(i, i + MULTICAST_LIMIT);
+      const message: line.TextMessage = { type: 'text', text };
+
+      let error: string | null = null;
+      try {
+        if (chunk.length === 1) {
+          await client.pushMessage(chunk[0], message);
+        } else {
+          await client.multicast(chunk, message);
+        }
+      } catch (err: any) {
+        console.error(err);
+        error = err.message || String(err);
+      }
+
+      const batch = db.batch();
+      for (const userId of chunk) {
+        const ref = db.collection('result_notifications').doc(`${targetDateStr}_${userId}`);
+        batch.set(ref, error
+          ? { status: 'failed', error, failedAt: new Date() }
+          : { status: 'sent', sentAt: new Date() },
+        { merge: true });
+      }
+      await batch.commit();
+
+      if (error) {
+        summary.failed += chunk.length;
+      } else {
+        summary.sent += chunk.length;
+      }
+    }
+  }
+
+  return summary;
+}
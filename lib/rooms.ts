@@ -0,0 +1,93 @@
+import * as admin from 'firebase-admin';
+import { TimeSlot } from './settings';
+import { OpeningRules, specialOpeningOf } from './schedule';
+
+// rooms コレクションが空の場合や、roomId を持たない既存の予約が属する部屋
+export const DEFAULT_ROOM_ID = 'default';
+export const DEFAULT_ROOM_NAME = '部室';
+
+export interface Room {
+  id: string;
+  name: string;
+  order: number;
+  timeSlots: TimeSlot[];
+}
+
+/**
+ * 予約可能な部屋の一覧を取得する（表示順）
+ * rooms コレクションが空の場合は settings/reservation の時間枠を持つ部屋を1つだけ返す
+ * @param db Firestore instance
+ * @param defaultTimeSlots settings/reservation の時間枠（部屋ごとの時間枠が未設定の場合に使う）
+ */
+export async function loadRooms(
+  db: admin.firestore.Firestore,
+  defaultTimeSlots: TimeSlot[]
+): Promise<Room[]> {
+  const snapshot = await db.collection('rooms').get();
+
+  const rooms: Room[] = snapshot.docs
+    .filter((doc) => doc.data().active !== false)
+    .map((doc) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        name: data.name || doc.id,
+        order: typeof data.order === 'number' ? data.order : 0,
+        timeSlots: data.timeSlots || defaultTimeSlots,
+      };
+    })
+    .sort((a, b) => a.order - b.order || a.id.localeCompare(b.id));
+
+  if (rooms.length === 0) {
+    return [{ id: DEFAULT_ROOM_ID, name: DEFAULT_ROOM_NAME, order: 0, timeSlots: defaultTimeSlots }];
+  }
+  return rooms;
+}
+
+/**
+ * その日に予約できる部屋と時間枠
+ * 臨時開室日に時間枠が指定されている場合は、すべての部屋でその時間枠を使う
+ * @param rooms 部屋一覧（loadRooms の結果）
+ * @param rules 日付ごとの例外
+ * @param datePart "YYYY-MM-DD"
+ */
+export function roomsForDate(rooms: Room[], rules: OpeningRules, datePart: string): Room[] {
+  const opening = specialOpeningOf(rules, datePart);
+  if (!opening?.timeSlots) return rooms;
+  return rooms.map((room) => ({ ...room, timeSlots: opening.timeSlots! }));
+}
+
+/**
+ * 予約データの部屋ID（roomId がない既存データはデフォルトの部屋）
+ */
+export function reservationRoomId(data: admin.firestore.DocumentData): string {
+  return data.roomId || DEFAULT_ROOM_ID;
+}
+
+/**
+ * lottery_results の results のキーを作る
+ * デフォルトの部屋は既存データとの互換性のため時間帯のみ（"10:00-12:00"）、
+ * それ以外は "{roomId}@{時間帯}"
+ */
+export function resultKey(roomId: string, timeSlot: string): string {
+  return roomId === DEFAULT_ROOM_ID ? timeSlot : `${roomId}@${timeSlot}`;
+}
+
+/**
+ * lottery_results の results の1エントリから部屋IDと時間帯を取り出す
+ * @param key results のキー
+ * @param entry results[key] の値（roomId / timeSlot を持たない古いデータにも対応）
+ */
+export function parseResultKey(
+  key: string,
+  entry?: { roomId?: string; timeSlot?: string }
+): { roomId: string; timeSlot: string } {
+  if (entry?.roomId && entry?.timeSlot) {
+    return { roomId: entry.roomId, timeSlot: entry.timeSlot };
+  }
+  const at = key.indexOf('@');
+  if (at === -1) {
+    return { roomId: DEFAULT_ROOM_ID, timeSlot: key };
+  }
+  return { roomId: key.slice(0, at), timeSlot: key.slice(at + 1) };
+}
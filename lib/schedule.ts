@@ -0,0 +1,244 @@
+import { ClosedDate, ReservationSettings, ScheduleSettings, SpecialOpening } from './settings';
+
+// 予約可能な日付と抽選のスケジュールの計算（JST）
+// webhook の日付選択・抽選集計時間、抽選（lottery・lottery-commit・notify・update-lottery-status）の対象日、
+// 毎週登録の自動登録（recurring）・空き枠予約で同じ計算を使う
+// 登録可能な曜日に加え、日付ごとの例外（休室日・臨時開室日）と settings/reservation.schedule を反映する
+
+// 予約可能な日の判定に使う設定（ReservationSettings をそのまま渡せる）
+export type OpeningRules = Pick<ReservationSettings, 'availableDays' | 'closedDates' | 'specialOpenings'>;
+
+// 予約可能な日付の一覧・抽選集計時間の判定に使う設定
+export type ScheduleRules = OpeningRules & Pick<ReservationSettings, 'schedule'>;
+
+export interface DateOption {
+  label: string; // "12/20(水)"
+  value: string; // "2024-12-20"
+}
+
+const JST_OFFSET = 9 * 60 * 60 * 1000;
+const WEEK_DAYS = ['日', '月', '火', '水', '木', '金', '土'];
+
+/**
+ * 現在時刻（JST）を getUTC* で読めるDateにする
+ */
+function toJST(now: Date): Date {
+  return new Date(now.getTime() + JST_OFFSET);
+}
+
+/**
+ * その日の休室日の設定（なければundefined）
+ * @param datePart "YYYY-MM-DD"
+ */
+export function closedDateOf(rules: OpeningRules, datePart: string): ClosedDate | undefined {
+  return rules.closedDates.find((closed) => closed.date === datePart);
+}
+
+/**
+ * その日の臨時開室日の設定（なければundefined）
+ * @param datePart "YYYY-MM-DD"
+ */
+export function specialOpeningOf(rules: OpeningRules, datePart: string): SpecialOpening | undefined {
+  return rules.specialOpenings.find((opening) => opening.date === datePart);
+}
+
+/**
+ * 登録可能な日か（休室日 > 臨時開室日 > 登録可能な曜日 の順で判定）
+ * @param rules 登録可能な曜日と日付ごとの例外
+ * @param datePart "YYYY-MM-DD"
+ */
+export function isOpenDate(rules: OpeningRules, datePart: string): boolean {
+  if (closedDateOf(rules, datePart)) return false;
+  if (specialOpeningOf(rules, datePart)) return true;
+  return rules.availableDays.includes(dayOfWeek(datePart));
+}
+
+/**
+ * "HH:MM" を0時からの分数にする
+ */
+function minutesOfDay(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * 今日（JST）の抽選の時刻を過ぎているか
+ */
+function isAfterLotteryTime(schedule: ScheduleSettings, nowJST: Date): boolean {
+  return nowJST.getUTCHours() * 60 + nowJST.getUTCMinutes() >= minutesOfDay(schedule.lotteryTime);
+}
+
+/**
+ * 今日（JST）から days 日後の日付
+ */
+function dateAfter(nowJST: Date, days: number): DateOption {
+  const date = new Date(nowJST);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateOption(date);
+}
+
+/**
+ * まだ抽選していない最初の日が今日から何日後か（新規登録はこの日から）
+ * 例: 翌日分を21:00に抽選する場合、21時前は1（翌日）、21時以降は2（明後日）
+ */
+function firstUndrawnOffset(schedule: ScheduleSettings, nowJST: Date): number {
+  return schedule.lotteryDaysAhead + (isAfterLotteryTime(schedule, nowJST) ? 1 : 0);
+}
+
+/**
+ * 今日（JST）の抽選の対象日 "YYYY-MM-DD"（lottery・lottery-commit・notify・update-lottery-status で使う）
+ * @param rules 抽選のスケジュール
+ * @param now 現在時刻
+ */
+export function lotteryTargetDate(rules: Pick<ReservationSettings, 'schedule'>, now: Date = new Date()): string {
+  return dateAfter(toJST(now), rules.schedule.lotteryDaysAhead).value;
+}
+
+/**
+ * 抽選集計時間の表示（例: "20:50〜21:00"）
+ */
+export function lotteryWindowLabel(rules: Pick<ReservationSettings, 'schedule'>): string {
+  const end = minutesOfDay(rules.schedule.lotteryTime);
+  const start = end - rules.schedule.freezeMinutes;
+  const format = (minutes: number) => `${Math.floor(minutes / 60)}:${('0' + (minutes % 60)).slice(-2)}`;
+  return `${format(start)}〜${format(end)}`;
+}
+
+/**
+ * 抽選集計時間（抽選の freezeMinutes 分前から抽選の時刻まで、抽選の対象日が登録可能日の場合のみ）か
+ * @param rules 登録可能な曜日・日付ごとの例外・抽選のスケジュール
+ * @param now 現在時刻
+ */
+export function isLotteryWindow(rules: ScheduleRules, now: Date = new Date()): boolean {
+  const nowMinutes = minutesNowJST(now);
+  const lotteryMinutes = minutesOfDay(rules.schedule.lotteryTime);
+
+  // 抽選前の登録を止める時間帯かチェック
+  const isFrozen = nowMinutes >= lotteryMinutes - rules.schedule.freezeMinutes && nowMinutes < lotteryMinutes;
+  if (!isFrozen) return false;
+
+  // 抽選の対象日が登録可能日かどうかをチェック
+  return isOpenDate(rules, lotteryTargetDate(rules, now));
+}
+
+/**
+ * 選択できる日付の一覧（registrationDays 日分のうち登録可能な日のみ）
+ * @param rules 登録可能な曜日・日付ごとの例外・抽選のスケジュール
+ * @param includeToday trueなら全登録表示用（当日を含む）、falseなら新規登録用（まだ抽選していない日以降）
+ * @param now 現在時刻
+ */
+export function availableDateList(
+  rules: ScheduleRules,
+  includeToday: boolean = false,
+  now: Date = new Date()
+): DateOption[] {
+  const nowJST = toJST(now);
+  const { registrationDays } = rules.schedule;
+
+  let daysToAdd: number;
+  if (includeToday) {
+    // 全登録表示: 当日から（抽選の時刻以降は翌日から）。その日が登録可能日でなければさらに翌日から
+    const base = isAfterLotteryTime(rules.schedule, nowJST) ? 1 : 0;
+    daysToAdd = isOpenDate(rules, dateAfter(nowJST, base).value) ? base : base + 1;
+  } else {
+    daysToAdd = firstUndrawnOffset(rules.schedule, nowJST);
+  }
+
+  const results: DateOption[] = [];
+  for (let i = 0; i < registrationDays; i++) {
+    const option = dateAfter(nowJST, daysToAdd + i);
+    if (isOpenDate(rules, option.value)) {
+      results.push(option);
+    }
+  }
+  return results;
+}
+
+/**
+ * 空き枠予約（先着）で選べる日付
+ * 抽選が終わった日（当日から、まだ抽選していない最初の日の前日まで）のうち登録可能な日
+ * @param rules 登録可能な曜日・日付ごとの例外・抽選のスケジュール
+ * @param now 現在時刻
+ */
+export function firstComeDateList(rules: ScheduleRules, now: Date = new Date()): DateOption[] {
+  const nowJST = toJST(now);
+  const results: DateOption[] = [];
+  for (let i = 0; i < firstUndrawnOffset(rules.schedule, nowJST); i++) {
+    const option = dateAfter(nowJST, i);
+    if (isOpenDate(rules, option.value)) {
+      results.push(option);
+    }
+  }
+  return results;
+}
+
+/**
+ * 枠の開始時刻を過ぎているか（JST）
+ * @param datePart "YYYY-MM-DD"
+ * @param timeSlot "10:00-12:00"
+ * @param now 現在時刻
+ */
+export function hasSlotStarted(datePart: string, timeSlot: string, now: Date = new Date()): boolean {
+  const nowJST = toJST(now);
+  const nowStr = `${toDateOption(nowJST).value}T${('0' + nowJST.getUTCHours()).slice(-2)}:${('0' + nowJST.getUTCMinutes()).slice(-2)}`;
+  return `${datePart}T${timeSlot.split('-')[0]}` <= nowStr;
+}
+
+/**
+ * 今日の日付（JST）
+ * @param now 現在時刻
+ * @returns "YYYY-MM-DD"
+ */
+export function todayJST(now: Date = new Date()): string {
+  return toDateOption(toJST(now)).value;
+}
+
+/**
+ * "YYYY-MM-DD" に日数を足す（負の数で前の日）
+ * @param datePart "YYYY-MM-DD"
+ * @param days 足す日数
+ */
+export function addDays(datePart: string, days: number): string {
+  const [y, m, d] = datePart.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * 現在時刻（JST）の0時からの分数
+ * @param now 現在時刻
+ */
+export function minutesNowJST(now: Date = new Date()): number {
+  const nowJST = toJST(now);
+  return nowJST.getUTCHours() * 60 + nowJST.getUTCMinutes();
+}
+
+/**
+ * JSTの日付（getUTC* で読めるDate）を選択肢にする
+ */
+function toDateOption(date: Date): DateOption {
+  const m = date.getUTCMonth() + 1;
+  const d = date.getUTCDate();
+  const wd = WEEK_DAYS[date.getUTCDay()];
+  const yyyy = date.getUTCFullYear();
+  const mm = ('0' + m).slice(-2);
+  const dd = ('0' + d).slice(-2);
+
+  return {
+    label: `${m}/${d}(${wd})`,
+    value: `${yyyy}-${mm}-${dd}`
+  };
+}
+
+/**
+ * 曜日の表示名（0 = 日曜）
+ */
+export function weekDayLabel(dayIndex: number): string {
+  return WEEK_DAYS[dayIndex];
+}
+
+/**
+ * "YYYY-MM-DD" の曜日（0 = 日曜）
+ */
+export function dayOfWeek(datePart: string): number {
+  return new Date(`${datePart}T00:00:00Z`).getUTCDay();
+}
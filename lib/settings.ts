@@ -0,0 +1,309 @@
+import * as admin from 'firebase-admin';
+import { validateSettingsPatch } from './validation';
+import { writeAdminAuditLog } from './admin';
+
+export interface TimeSlot {
+  label: string;
+  value: string; // "09:00-10:00"
+  capacity?: number; // この枠で確定できるバンド数（未設定なら defaultCapacity）
+}
+
+// 1つの部屋の時間枠の最大数
+// LINEのクイックリプライは13個までのため、時間枠のボタンに「☑️ 複数選ぶ」などのボタン1つを足しても収まる数にする
+export const MAX_TIME_SLOTS = 12;
+
+// 抽選方式
+// uniform: 全バンド同確率 / fair: 過去の抽選で下位だったバンドほど上位に来やすい
+export type LotteryMode = 'uniform' | 'fair';
+
+export interface FairnessSettings {
+  historyDays: number;   // 重み計算に使う履歴の保持日数
+  historySize: number;   // 重み計算に使う直近の抽選回数
+  weightFactor: number;  // 重みの強さ（0なら uniform と同じ）
+}
+
+// 1人・1バンドあたりの登録数の上限（nullなら上限なし）
+// 週は月曜〜日曜で数える
+export interface RegistrationLimits {
+  perUserPerDay: number | null;
+  perUserPerWeek: number | null;
+  perBandPerDay: number | null;
+  perBandPerWeek: number | null;
+}
+
+// 抽選と登録のスケジュール（時刻はJST）
+// 例: デフォルトでは毎日21:00に翌日分を抽選し、20:50〜21:00は登録・編集を止める
+export interface ScheduleSettings {
+  lotteryTime: string;      // 抽選の時刻 "HH:MM"
+  freezeMinutes: number;    // 抽選の何分前から登録・編集を止めるか（0なら止めない）
+  lotteryDaysAhead: number; // 何日後の枠を抽選するか（1なら前日に抽選）
+  registrationDays: number; // 登録を受け付ける期間（抽選前の最初の日から何日分か）
+}
+
+// 日付ごとの例外（登録可能な曜日より優先する）
+// 休室日: 登録可能な曜日でも予約できない日（試験期間など）
+export interface ClosedDate {
+  date: string;   // "2024-12-20"
+  reason: string; // LINEで表示する理由
+}
+
+// 臨時開室日: 登録可能な曜日以外でも予約できる日（timeSlots を省略すると通常の時間枠）
+export interface SpecialOpening {
+  date: string;
+  timeSlots?: TimeSlot[];
+  reason?: string;
+}
+
+export interface ReservationSettings {
+  availableDays: number[];
+  timeSlots: TimeSlot[];
+  lotteryMode: LotteryMode;
+  fairness: FairnessSettings;
+  defaultCapacity: number | null; // 枠ごとの定員の既定値（nullなら定員なし＝全員確定）
+  reminderMinutes: number; // 確定枠の開始何分前にリマインダーを送るか
+  limits: RegistrationLimits;
+  schedule: ScheduleSettings;
+  closedDates: ClosedDate[];
+  specialOpenings: SpecialOpening[];
+  adminUserIds: string[]; // LINEの「設定」で設定を変更できるユーザーID
+  version: number; // 設定を変更するたびに1ずつ増える（未設定は0）
+}
+
+export const DEFAULT_AVAILABLE_DAYS = [3, 4, 6]; // 水・木・土
+
+export const DEFAULT_TIME_SLOTS: TimeSlot[] = [
+  { label: '9:00~10:00', value: '09:00-10:00' },
+  { label: '10:00~12:00', value: '10:00-12:00' },
+  { label: '12:00~14:00', value: '12:00-14:00' },
+  { label: '14:00~16:00', value: '14:00-16:00' },
+  { label: '16:00~18:00', value: '16:00-18:00' },
+  { label: '18:00~20:00', value: '18:00-20:00' },
+];
+
+export const DEFAULT_FAIRNESS: FairnessSettings = {
+  historyDays: 90,
+  historySize: 10,
+  weightFactor: 1,
+};
+
+export const DEFAULT_REMINDER_MINUTES = 60;
+
+export const DEFAULT_SCHEDULE: ScheduleSettings = {
+  lotteryTime: '21:00',
+  freezeMinutes: 10,
+  lotteryDaysAhead: 1,
+  registrationDays: 7,
+};
+
+export const DEFAULT_LIMITS: RegistrationLimits = {
+  perUserPerDay: null,
+  perUserPerWeek: null,
+  perBandPerDay: null,
+  perBandPerWeek: null,
+};
+
+// 上限の値（正の整数以外は上限なし）
+function limitValue(value: unknown): number | null {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : null;
+}
+
+/**
+ * settings/reservation のデータに未設定項目のデフォルト値を補う
+ * @param data Firestoreから取得した設定（存在しない場合はundefined）
+ */
+export function normalizeSettings(data: admin.firestore.DocumentData | undefined): ReservationSettings {
+  const fairness = data?.fairness || {};
+  const limits = data?.limits || {};
+  const schedule = data?.schedule || {};
+  return {
+    availableDays: data?.availableDays || DEFAULT_AVAILABLE_DAYS,
+    timeSlots: data?.timeSlots || DEFAULT_TIME_SLOTS,
+    lotteryMode: data?.lotteryMode === 'fair' ? 'fair' : 'uniform',
+    fairness: {
+      historyDays: typeof fairness.historyDays === 'number' ? fairness.historyDays : DEFAULT_FAIRNESS.historyDays,
+      historySize: typeof fairness.historySize === 'number' ? fairness.historySize : DEFAULT_FAIRNESS.historySize,
+      weightFactor: typeof fairness.weightFactor === 'number' ? fairness.weightFactor : DEFAULT_FAIRNESS.weightFactor,
+    },
+    defaultCapacity: typeof data?.defaultCapacity === 'number' ? data.defaultCapacity : null,
+    reminderMinutes: typeof data?.reminderMinutes === 'number' ? data.reminderMinutes : DEFAULT_REMINDER_MINUTES,
+    limits: {
+      perUserPerDay: limitValue(limits.perUserPerDay),
+      perUserPerWeek: limitValue(limits.perUserPerWeek),
+      perBandPerDay: limitValue(limits.perBandPerDay),
+      perBandPerWeek: limitValue(limits.perBandPerWeek),
+    },
+    schedule: {
+      lotteryTime: typeof schedule.lotteryTime === 'string' ? schedule.lotteryTime : DEFAULT_SCHEDULE.lotteryTime,
+      freezeMinutes: typeof schedule.freezeMinutes === 'number' ? schedule.freezeMinutes : DEFAULT_SCHEDULE.freezeMinutes,
+      lotteryDaysAhead: typeof schedule.lotteryDaysAhead === 'number' ? schedule.lotteryDaysAhead : DEFAULT_SCHEDULE.lotteryDaysAhead,
+      registrationDays: typeof schedule.registrationDays === 'number' ? schedule.registrationDays : DEFAULT_SCHEDULE.registrationDays,
+    },
+    closedDates: Array.isArray(data?.closedDates) ? data!.closedDates : [],
+    specialOpenings: Array.isArray(data?.specialOpenings) ? data!.specialOpenings : [],
+    adminUserIds: Array.isArray(data?.adminUserIds) ? data!.adminUserIds : [],
+    version: typeof data?.version === 'number' ? data.version : 0,
+  };
+}
+
+/**
+ * 時間枠の定員を取得する
+ * @returns 定員（nullなら定員なし）
+ */
+export function slotCapacity(slot: TimeSlot | undefined, settings: ReservationSettings): number | null {
+  if (slot && typeof slot.capacity === 'number') return slot.capacity;
+  return settings.defaultCapacity;
+}
+
+/**
+ * 時間枠の表示名（"09:00-10:00" → "9:00~10:00"）
+ */
+export function timeSlotLabel(value: string): string {
+  return value
+    .split('-')
+    .map((time) => time.replace(/^0(\d)/, '$1'))
+    .join('~');
+}
+
+/**
+ * 時間枠が重なっている既存の枠（なければundefined）
+ * @param timeSlots 既存の時間枠
+ * @param value 追加する時間枠 "HH:MM-HH:MM"
+ */
+export function findOverlappingSlot(timeSlots: TimeSlot[], value: string): TimeSlot | undefined {
+  const [start, end] = value.split('-');
+  return timeSlots.find((slot) => {
+    const [slotStart, slotEnd] = slot.value.split('-');
+    return start < slotEnd && slotStart < end;
+  });
+}
+
+/**
+ * Firestoreから予約設定を取得する（キャッシュなし）
+ * @param db Firestore instance
+ */
+export async function loadReservationSettings(db: admin.firestore.Firestore): Promise<ReservationSettings> {
+  const configDoc = await db.collection('settings').doc('reservation').get();
+  return normalizeSettings(configDoc.exists ? configDoc.data() : undefined);
+}
+
+// ---------------------------------------------------------
+// 設定のキャッシュ（webhook 用）
+// ---------------------------------------------------------
+// Cron（lottery など）は実行のたびに loadReservationSettings で最新の設定を読む
+// webhook はメッセージごとに設定を使うため、インスタンス内でキャッシュする
+// 変更は version で検知する: SETTINGS_VERSION_CHECK_INTERVAL ごとに version だけを読み、変わっていれば読み直す
+// （他のインスタンスで変更された場合も、その間隔以内に反映される）
+
+const SETTINGS_CACHE_TTL = 5 * 60 * 1000; // 5分経ったら version に関係なく読み直す
+const SETTINGS_VERSION_CHECK_INTERVAL = 15 * 1000;
+
+let settingsCache: { settings: ReservationSettings; fetchedAt: number; checkedAt: number } | null = null;
+
+function settingsRef(db: admin.firestore.Firestore): admin.firestore.DocumentReference {
+  return db.collection('settings').doc('reservation');
+}
+
+/**
+ * 予約設定を取得する（キャッシュあり、version が変わっていれば読み直す）
+ * @param db Firestore instance
+ */
+export async function getCachedReservationSettings(db: admin.firestore.Firestore): Promise<ReservationSettings> {
+  const now = Date.now();
+  if (settingsCache && now - settingsCache.fetchedAt < SETTINGS_CACHE_TTL) {
+    if (now - settingsCache.checkedAt < SETTINGS_VERSION_CHECK_INTERVAL) {
+      return settingsCache.settings;
+    }
+    // version のフィールドだけを読んで比較する
+    const [versionDoc] = await db.getAll(settingsRef(db), { fieldMask: ['version'] });
+    const version = versionDoc.exists ? versionDoc.get('version') ?? 0 : 0;
+    if (version === settingsCache.settings.version) {
+      settingsCache.checkedAt = now;
+      return settingsCache.settings;
+    }
+  }
+
+  const settings = await loadReservationSettings(db);
+  settingsCache = { settings, fetchedAt: now, checkedAt: now };
+  return settings;
+}
+
+/**
+ * このインスタンスの設定キャッシュを破棄する（次の取得で読み直す）
+ */
+export function invalidateReservationSettingsCache(): void {
+  settingsCache = null;
+}
+
+// ---------------------------------------------------------
+// 設定の変更（管理API・LINEの「設定」）
+// ---------------------------------------------------------
+
+export type SettingsUpdateResult =
+  | { ok: true; settings: ReservationSettings; previous: ReservationSettings; updated: string[] }
+  | { ok: false; reason: 'invalid'; errors: string[] }
+  | { ok: false; reason: 'conflict'; settings: ReservationSettings };
+
+/**
+ * 予約設定を更新する（入力チェック・version の更新・監査ログの記録を同じトランザクションで行う）
+ * updates が空の場合は version だけを上げる（全インスタンスのキャッシュを読み直させる）
+ * @param db Firestore instance
+ * @param updates 更新する項目（validateSettingsPatch でチェックする）
+ * @param options actor: 操作者（監査ログ用）、expectedVersion: 指定した場合、現在の version と違えば更新しない
+ */
+export async function updateReservationSettings(
+  db: admin.firestore.Firestore,
+  updates: { [key: string]: any },
+  options: { actor: string; expectedVersion?: number }
+): Promise<SettingsUpdateResult> {
+  if (Object.keys(updates).length > 0) {
+    const validation = validateSettingsPatch(updates);
+    if (!validation.ok) {
+      return { ok: false, reason: 'invalid', errors: validation.errors };
+    }
+  }
+
+  const ref = settingsRef(db);
+  const result = await db.runTransaction(async (tx): Promise<SettingsUpdateResult> => {
+    const snap = await tx.get(ref);
+    const before = snap.exists ? snap.data()! : null;
+    const current = normalizeSettings(before || undefined);
+
+    if (options.expectedVersion !== undefined && options.expectedVersion !== current.version) {
+      return { ok: false, reason: 'conflict', settings: current };
+    }
+
+    // 項目をまたぐチェック（休室日と臨時開室日に同じ日付）は、保存されている値と合わせて行う
+    const merged = normalizeSettings({ ...(before || {}), ...updates });
+    const closed = new Set(merged.closedDates.map((c) => c.date));
+    const both = merged.specialOpenings.filter((o) => closed.has(o.date)).map((o) => o.date);
+    if (both.length > 0) {
+      return { ok: false, reason: 'invalid', errors: [`Dates cannot be both closed and specially opened: ${both.join(', ')}`] };
+    }
+    // 登録を止める時間が日付をまたがないようにする（抽選日の判定を単純にするため）
+    const [lotteryHour, lotteryMinute] = merged.schedule.lotteryTime.split(':').map(Number);
+    if (merged.schedule.freezeMinutes > lotteryHour * 60 + lotteryMinute) {
+      return { ok: false, reason: 'invalid', errors: ['schedule.freezeMinutes must not start the freeze window before midnight.'] };
+    }
+
+    const written = { ...updates, version: current.version + 1, updatedAt: new Date(), updatedBy: options.actor };
+    tx.set(ref, written, { merge: true });
+    writeAdminAuditLog(db, tx, {
+      actor: options.actor,
+      action: 'settings.update',
+      target: 'settings/reservation',
+      before,
+      after: { ...(before || {}), ...written },
+    });
+
+    return {
+      ok: true,
+      settings: normalizeSettings({ ...(before || {}), ...written }),
+      previous: current,
+      updated: Object.keys(updates),
+    };
+  });
+
+  // このインスタンスではすぐに反映する（他のインスタンスは version の確認で読み直す）
+  if (result.ok) invalidateReservationSettingsCache();
+  return result;
+}
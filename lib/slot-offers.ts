@@ -0,0 +1,358 @@
+import * as admin from 'firebase-admin';
+import { resultKey, reservationRoomId } from './rooms';
+import { RegistrationLimits } from './settings';
+import { hasSlotStarted } from './schedule';
+import { checkRegistrationRules } from './registration-rules';
+import { recordReservationEvent } from './reservation-events';
+import { drawnOrderOf } from './lottery-draw';
+import { bandFromDoc } from './bands';
+
+// slot_offers コレクション（確定した枠の譲渡・交換の申し込み）
+// 確定したバンドが、枠を指定したバンドに譲る（transfer）か、相手の確定した枠と交換する（swap）
+// 申し込みは相手のバンドのメンバーが受け入れると成立し、予約と lottery_results/{date}.results[slot].order を同じトランザクションで更新する
+// { type, status, fromReservationId, fromBandId, fromBandName, fromDate, toBandId, toBandName, toReservationId, toDate,
+//   createdBy, createdAt, respondedBy, respondedAt }
+
+// 申し込みを残す日数（data-organize で削除）
+export const SLOT_OFFERS_RETENTION_DAYS = 30;
+
+export type SlotOfferType = 'transfer' | 'swap';
+export type SlotOfferStatus = 'pending' | 'accepted' | 'declined';
+
+export interface SlotOffer {
+  id: string;
+  type: SlotOfferType;
+  status: SlotOfferStatus;
+  fromReservationId: string;
+  fromBandId: string;
+  fromBandName: string;
+  fromDate: string;                // 譲る・交換に出す枠 "2024-12-20T10:00-12:00"
+  toBandId: string;
+  toBandName: string;
+  toReservationId: string | null;  // 交換の場合、相手の枠
+  toDate: string | null;
+  createdBy: string;               // 申し込んだユーザー
+}
+
+export type SlotOfferResult =
+  | { ok: true; offer: SlotOffer }
+  | { ok: false; message: string };
+
+const OFFER_NOT_FOUND_MESSAGE = '⚠️ この申し込みは見つかりませんでした。';
+const OFFER_CLOSED_MESSAGE = '⚠️ この申し込みは既に受け入れ・お断り済みです。';
+const SLOT_CHANGED_MESSAGE = '⚠️ 申し込み後に枠の状態が変わったため、この申し込みは無効です。';
+const SLOT_STARTED_MESSAGE = '⚠️ 利用開始時刻を過ぎた枠は譲渡・交換できません。';
+
+/**
+ * Firestoreのドキュメントを SlotOffer に変換する
+ */
+export function slotOfferFromDoc(doc: admin.firestore.DocumentSnapshot): SlotOffer {
+  const data = doc.data()!;
+  return {
+    id: doc.id,
+    type: data.type,
+    status: data.status,
+    fromReservationId: data.fromReservationId,
+    fromBandId: data.fromBandId,
+    fromBandName: data.fromBandName,
+    fromDate: data.fromDate,
+    toBandId: data.toBandId,
+    toBandName: data.toBandName,
+    toReservationId: data.toReservationId || null,
+    toDate: data.toDate || null,
+    createdBy: data.createdBy,
+  };
+}
+
+/**
+ * 枠の表示（例: "12/20 10:00-12:00"）
+ */
+function slotLabel(date: string): string {
+  const [datePart, timePart] = date.split('T');
+  return `${datePart.replace(/-/g, '/').slice(5)} ${timePart}`;
+}
+
+/**
+ * 申し込みの内容（LINE・BAND表示用）
+ * 例: "12/20 10:00-12:00 を「A」から「B」へ譲渡"
+ */
+export function describeSlotOffer(offer: SlotOffer): string {
+  if (offer.type === 'swap') {
+    return `「${offer.fromBandName}」の ${slotLabel(offer.fromDate)} と「${offer.toBandName}」の ${slotLabel(offer.toDate!)} を交換`;
+  }
+  return `${slotLabel(offer.fromDate)} を「${offer.fromBandName}」から「${offer.toBandName}」へ譲渡`;
+}
+
+/**
+ * 譲渡・交換に使える確定済みの予約か（利用開始前）
+ */
+function checkSlot(
+  snap: admin.firestore.DocumentSnapshot,
+  bandId: string,
+  now: Date
+): string | null {
+  if (!snap.exists) return SLOT_CHANGED_MESSAGE;
+  const data = snap.data()!;
+  if (data.status !== 'confirmed' || data.bandId !== bandId) return SLOT_CHANGED_MESSAGE;
+  const [datePart, timePart] = data.date.split('T');
+  if (hasSlotStarted(datePart, timePart, now)) return SLOT_STARTED_MESSAGE;
+  return null;
+}
+
+/**
+ * 譲渡・交換を申し込む
+ * @param db Firestore instance
+ * @param userId 申し込むユーザー（枠の登録者か、枠のバンドのメンバー）
+ * @param input 申し込みの内容
+ * @param now 現在時刻
+ */
+export async function createSlotOffer(
+  db: admin.firestore.Firestore,
+  userId: string,
+  input: { type: SlotOfferType; fromReservationId: string; toBandId: string; toReservationId?: string | null },
+  now: Date = new Date()
+): Promise<SlotOfferResult> {
+  const offerRef = db.collection('slot_offers').doc();
+
+  return db.runTransaction(async (tx): Promise<SlotOfferResult> => {
+    const fromSnap = await tx.get(db.collection('reservations').doc(input.fromReservationId));
+    if (!fromSnap.exists) return { ok: false, message: SLOT_CHANGED_MESSAGE };
+    const fromData = fromSnap.data()!;
+    const fromBandSnap = fromData.bandId ? await tx.get(db.collection('bands').doc(fromData.bandId)) : null;
+    if (!fromBandSnap?.exists) return { ok: false, message: SLOT_CHANGED_MESSAGE };
+    const fromBand = bandFromDoc(fromBandSnap);
+    if (fromData.userId !== userId && !fromBand.memberIds.includes(userId)) {
+      return { ok: false, message: '⚠️ この枠を譲渡・交換する権限がありません。' };
+    }
+    const fromError = checkSlot(fromSnap, fromBand.id, now);
+    if (fromError) return { ok: false, message: fromError };
+
+    const toBandSnap = await tx.get(db.collection('bands').doc(input.toBandId));
+    if (!toBandSnap.exists) return { ok: false, message: '⚠️ 相手のバンドが見つかりませんでした。' };
+    const toBand = bandFromDoc(toBandSnap);
+    if (toBand.id === fromBand.id) {
+      return { ok: false, message: '⚠️ 自分のバンドには譲渡・交換できません。' };
+    }
+
+    let toDate: string | null = null;
+    if (input.type === 'swap') {
+      if (!input.toReservationId) return { ok: false, message: SLOT_CHANGED_MESSAGE };
+      const toSnap = await tx.get(db.collection('reservations').doc(input.toReservationId));
+      const toError = checkSlot(toSnap, toBand.id, now);
+      if (toError) return { ok: false, message: toError };
+      const toData = toSnap.data()!;
+      if (toData.date === fromData.date && reservationRoomId(toData) === reservationRoomId(fromData)) {
+        return { ok: false, message: '⚠️ 同じ枠どうしは交換できません。' };
+      }
+      toDate = toData.date;
+    }
+
+    const offer: SlotOffer = {
+      id: offerRef.id,
+      type: input.type,
+      status: 'pending',
+      fromReservationId: fromSnap.id,
+      fromBandId: fromBand.id,
+      fromBandName: fromBand.name,
+      fromDate: fromData.date,
+      toBandId: toBand.id,
+      toBandName: toBand.name,
+      toReservationId: input.type === 'swap' ? input.toReservationId! : null,
+      toDate,
+      createdBy: userId,
+    };
+    const { id, ...fields } = offer;
+    tx.create(offerRef, { ...fields, createdAt: new Date() });
+    return { ok: true, offer };
+  });
+}
+
+/**
+ * 抽選結果の順位表でバンド名を置き換える更新内容
+ * 抽選で決まった元の順位（drawnOrder）と譲渡・交換の記録（transfers）も残し、lottery-verify で照合できるようにする
+ * 抽選を経ていない枠（空き枠予約など）は抽選結果がないため更新しない
+ */
+function orderUpdates(
+  resultData: admin.firestore.DocumentData | undefined,
+  reservation: admin.firestore.DocumentData,
+  newBandName: string,
+  offer: SlotOffer
+): [admin.firestore.FieldPath, unknown][] {
+  const [datePart, timeSlot] = reservation.date.split('T');
+  const slotKey = resultKey(reservationRoomId(reservation), timeSlot);
+  const slotResult = resultData?.results?.[slotKey];
+  if (!slotResult) return [];
+
+  const oldBandName = reservation.bandName || 'バンド名なし';
+  const order: string[] = [...(slotResult.order || [])];
+  const rankIndex = reservation.lotteryDate === datePart && reservation.lotteryRank ? reservation.lotteryRank - 1 : -1;
+  const index = order[rankIndex] === oldBandName ? rankIndex : order.indexOf(oldBandName);
+  if (index === -1) return [];
+  order[index] = newBandName;
+
+  const transfer = {
+    type: offer.type,
+    offerId: offer.id,
+    from: oldBandName,
+    to: newBandName,
+    rank: index + 1,
+    at: new Date(),
+  };
+  // slotKey には "." 以外の記号が含まれるため FieldPath で指定する
+  return [
+    [new admin.firestore.FieldPath('results', slotKey, 'order'), order],
+    [new admin.firestore.FieldPath('results', slotKey, 'drawnOrder'), drawnOrderOf(slotResult)],
+    [new admin.firestore.FieldPath('results', slotKey, 'transfers'), [...(slotResult.transfers || []), transfer]],
+  ];
+}
+
+/**
+ * 申し込みを受け入れる（相手のバンドのメンバーのみ）
+ * 予約の持ち主の変更・抽選結果の順位表の更新・変更履歴の記録を1つのトランザクションで行う
+ * @param db Firestore instance
+ * @param offerId 申し込みID
+ * @param userId 受け入れるユーザー（譲渡・交換後の枠の登録者になる）
+ * @param limits 登録数の上限（受け取る側の重複・上限を確認する）
+ * @param now 現在時刻
+ */
+export async function acceptSlotOffer(
+  db: admin.firestore.Firestore,
+  offerId: string | null | undefined,
+  userId: string,
+  limits: RegistrationLimits,
+  now: Date = new Date()
+): Promise<SlotOfferResult> {
+  if (!offerId) return { ok: false, message: OFFER_NOT_FOUND_MESSAGE };
+  const offerRef = db.collection('slot_offers').doc(offerId);
+
+  return db.runTransaction(async (tx): Promise<SlotOfferResult> => {
+    // 1. 読み取り（トランザクションでは書き込みより前にすべて読む）
+    const offerSnap = await tx.get(offerRef);
+    if (!offerSnap.exists) return { ok: false, message: OFFER_NOT_FOUND_MESSAGE };
+    const offer = slotOfferFromDoc(offerSnap);
+    if (offer.status !== 'pending') return { ok: false, message: OFFER_CLOSED_MESSAGE };
+
+    const [toBandSnap, fromBandSnap] = await Promise.all([
+      tx.get(db.collection('bands').doc(offer.toBandId)),
+      tx.get(db.collection('bands').doc(offer.fromBandId)),
+    ]);
+    if (!toBandSnap.exists || !bandFromDoc(toBandSnap).memberIds.includes(userId)) {
+      return { ok: false, message: `⚠️「${offer.toBandName}」のメンバーではないため、この申し込みに回答できません。` };
+    }
+    if (!fromBandSnap.exists) return { ok: false, message: SLOT_CHANGED_MESSAGE };
+    const toBand = bandFromDoc(toBandSnap);
+    const fromBand = bandFromDoc(fromBandSnap);
+
+    const fromSnap = await tx.get(db.collection('reservations').doc(offer.fromReservationId));
+    const fromError = checkSlot(fromSnap, offer.fromBandId, now);
+    if (fromError) return { ok: false, message: fromError };
+    const fromData = fromSnap.data()!;
+
+    let toSnap: admin.firestore.DocumentSnapshot | null = null;
+    if (offer.type === 'swap') {
+      toSnap = await tx.get(db.collection('reservations').doc(offer.toReservationId!));
+      const toError = checkSlot(toSnap, offer.toBandId, now);
+      if (toError) return { ok: false, message: toError };
+    }
+    const toData = toSnap ? toSnap.data()! : null;
+
+    const dates = Array.from(new Set([fromData.date, toData?.date].filter(Boolean).map((date: string) => date.split('T')[0])));
+    const resultSnaps = new Map<string, admin.firestore.DocumentSnapshot>();
+    for (const date of dates) {
+      resultSnaps.set(date, await tx.get(db.collection('lottery_results').doc(date)));
+    }
+
+    // 受け取る側の重複登録・登録数の上限（交換では両方の枠を除いて数える）
+    const excluded = [fromSnap.id, ...(toSnap ? [toSnap.id] : [])];
+    const toViolation = await checkRegistrationRules(db, tx, {
+      userId,
+      bandName: toBand.name,
+      bandId: toBand.id,
+      date: fromData.date,
+    }, limits, excluded);
+    if (toViolation) return { ok: false, message: toViolation.message };
+    if (toData) {
+      const fromViolation = await checkRegistrationRules(db, tx, {
+        userId: offer.createdBy,
+        bandName: fromBand.name,
+        bandId: fromBand.id,
+        date: toData.date,
+      }, limits, excluded);
+      if (fromViolation) {
+        return { ok: false, message: `⚠️「${fromBand.name}」側の登録ルールにより交換できません。\n${fromViolation.message}` };
+      }
+    }
+
+    // 2. 書き込み
+    const resultUpdates = new Map<string, [admin.firestore.FieldPath, unknown][]>();
+    const moveReservation = (
+      snap: admin.firestore.DocumentSnapshot,
+      data: admin.firestore.DocumentData,
+      newOwner: { userId: string; bandId: string; bandName: string }
+    ) => {
+      const date = data.date.split('T')[0];
+      resultUpdates.set(date, [
+        ...(resultUpdates.get(date) || []),
+        ...orderUpdates(resultSnaps.get(date)!.data(), data, newOwner.bandName, offer),
+      ]);
+
+      // 送信済みのリマインダーは新しい登録者に送り直す
+      const { remindedAt, ...rest } = data;
+      const updates = { ...newOwner, transferredAt: new Date(), slotOfferId: offer.id };
+      tx.update(snap.ref, { ...updates, remindedAt: admin.firestore.FieldValue.delete() });
+      recordReservationEvent(db, tx, {
+        reservationId: snap.id,
+        action: offer.type,
+        actor: { type: 'user', id: userId },
+        before: data,
+        after: { ...rest, ...updates },
+      });
+    };
+
+    moveReservation(fromSnap, fromData, { userId, bandId: toBand.id, bandName: toBand.name });
+    if (toSnap && toData) {
+      moveReservation(toSnap, toData, { userId: offer.createdBy, bandId: fromBand.id, bandName: fromBand.name });
+    }
+
+    for (const [date, updates] of resultUpdates) {
+      if (updates.length === 0) continue;
+      const [[firstField, firstValue], ...more] = updates;
+      tx.update(
+        db.collection('lottery_results').doc(date),
+        firstField, firstValue,
+        ...more.flat(),
+        'updatedAt', new Date()
+      );
+    }
+
+    tx.update(offerRef, { status: 'accepted', respondedBy: userId, respondedAt: new Date() });
+    return { ok: true, offer: { ...offer, status: 'accepted' } };
+  });
+}
+
+/**
+ * 申し込みを断る（相手のバンドのメンバーのみ）
+ */
+export async function declineSlotOffer(
+  db: admin.firestore.Firestore,
+  offerId: string | null | undefined,
+  userId: string
+): Promise<SlotOfferResult> {
+  if (!offerId) return { ok: false, message: OFFER_NOT_FOUND_MESSAGE };
+  const offerRef = db.collection('slot_offers').doc(offerId);
+
+  return db.runTransaction(async (tx): Promise<SlotOfferResult> => {
+    const offerSnap = await tx.get(offerRef);
+    if (!offerSnap.exists) return { ok: false, message: OFFER_NOT_FOUND_MESSAGE };
+    const offer = slotOfferFromDoc(offerSnap);
+    if (offer.status !== 'pending') return { ok: false, message: OFFER_CLOSED_MESSAGE };
+
+    const toBandSnap = await tx.get(db.collection('bands').doc(offer.toBandId));
+    if (!toBandSnap.exists || !bandFromDoc(toBandSnap).memberIds.includes(userId)) {
+      return { ok: false, message: `⚠️「${offer.toBandName}」のメンバーではないため、この申し込みに回答できません。` };
+    }
+
+    tx.update(offerRef, { status: 'declined', respondedBy: userId, respondedAt: new Date() });
+    return { ok: true, offer: { ...offer, status: 'declined' } };
+  });
+}
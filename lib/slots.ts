@@ -0,0 +1,78 @@
+import { TimeSlot, timeSlotLabel } from './settings';
+import { Room } from './rooms';
+
+// 時間枠の表示順と表示名（webhook の一覧表示・抽選・結果通知・状態の反映で共通）
+// 表示順・ラベルは部屋（臨時開室日はその日）の時間枠の設定に従う
+// 設定から削除された時間枠（廃止枠）も過去の予約・抽選結果を表示するために残し、設定にある枠の後に開始時刻順で並べる
+// 廃止枠のラベルは抽選結果に記録したラベル（results[slotKey].timeLabel）、なければ値から作る（"09:00-10:00" → "9:00~10:00"）
+
+export interface SlotView {
+  value: string;    // "09:00-10:00"
+  label: string;    // "9:00~10:00"
+  retired: boolean; // 設定の時間枠にない（削除された）枠
+}
+
+/**
+ * 部屋の時間枠（現在の部屋一覧にない部屋は共通の時間枠）
+ * @param rooms 部屋一覧（日付が決まっている場合は roomsForDate の結果）
+ * @param roomId 部屋ID
+ * @param defaultTimeSlots settings/reservation の時間枠
+ */
+export function timeSlotsOfRoom(rooms: Room[], roomId: string, defaultTimeSlots: TimeSlot[]): TimeSlot[] {
+  return rooms.find((room) => room.id === roomId)?.timeSlots || defaultTimeSlots;
+}
+
+/**
+ * 時間枠の表示名と廃止枠かどうか
+ * @param timeSlots 部屋の時間枠
+ * @param value 時間帯 "09:00-10:00"
+ * @param recordedLabel 抽選結果などに記録されたラベル（廃止枠の表示に使う）
+ */
+export function slotView(timeSlots: TimeSlot[], value: string, recordedLabel?: string): SlotView {
+  const slot = timeSlots.find((s) => s.value === value);
+  if (slot) {
+    return { value, label: slot.label, retired: false };
+  }
+  return { value, label: recordedLabel || timeSlotLabel(value), retired: true };
+}
+
+/**
+ * 時間帯の並び順の比較関数（設定の順、廃止枠はその後に開始時刻順）
+ * @param timeSlots 部屋の時間枠
+ */
+export function compareSlotValues(timeSlots: TimeSlot[]): (a: string, b: string) => number {
+  const position = (value: string) => {
+    const index = timeSlots.findIndex((slot) => slot.value === value);
+    return index === -1 ? timeSlots.length : index;
+  };
+  return (a, b) => position(a) - position(b) || a.localeCompare(b);
+}
+
+/**
+ * 時間帯を持つデータを時間枠の表示順に並べる（元の配列は変更しない）
+ * @param timeSlots 部屋の時間枠
+ * @param items 並べるデータ
+ * @param valueOf データの時間帯 "09:00-10:00"
+ */
+export function sortBySlot<T>(timeSlots: TimeSlot[], items: T[], valueOf: (item: T) => string): T[] {
+  const compare = compareSlotValues(timeSlots);
+  return [...items].sort((a, b) => compare(valueOf(a), valueOf(b)));
+}
+
+/**
+ * 部屋と時間帯の並び順の比較関数（部屋の表示順 → 時間枠の設定順。部屋一覧にない部屋は最後に部屋ID順）
+ * @param rooms 部屋一覧（日付が決まっている場合は roomsForDate の結果）
+ * @param defaultTimeSlots settings/reservation の時間枠
+ */
+export function compareRoomSlots(
+  rooms: Room[],
+  defaultTimeSlots: TimeSlot[]
+): (a: { roomId: string; timeSlot: string }, b: { roomId: string; timeSlot: string }) => number {
+  const roomIndex = (roomId: string) => {
+    const index = rooms.findIndex((room) => room.id === roomId);
+    return index === -1 ? rooms.length : index;
+  };
+  return (a, b) => roomIndex(a.roomId) - roomIndex(b.roomId)
+    || a.roomId.localeCompare(b.roomId)
+    || compareSlotValues(timeSlotsOfRoom(rooms, a.roomId, defaultTimeSlots))(a.timeSlot, b.timeSlot);
+}
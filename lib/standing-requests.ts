@@ -0,0 +1,180 @@
+import * as crypto from 'crypto';
+import * as admin from 'firebase-admin';
+import { weekDayLabel, dayOfWeek as dayOfWeekOf } from './schedule';
+import { reservationRoomId } from './rooms';
+
+// standing_requests コレクション（毎週登録）
+// 同じバンド・曜日・部屋・時間帯の登録を、recurring のCronが毎週 pending の予約として自動で作る
+// ドキュメントID: ユーザー・バンド・曜日・部屋・時間帯のハッシュ（同じ毎週登録が二重に作られないようにする）
+// { userId, bandId, bandName, dayOfWeek, roomId, timeSlot, status, lastGeneratedDate, lastSkipped, createdAt, updatedAt }
+
+// 1人が持てる毎週登録の数（一覧のカルーセルに収まる数）
+export const MAX_STANDING_REQUESTS_PER_USER = 10;
+
+export type StandingRequestStatus = 'active' | 'paused';
+
+export interface StandingRequest {
+  id: string;
+  userId: string;
+  bandId: string;
+  bandName: string;
+  dayOfWeek: number;         // 0 = 日曜
+  roomId: string;
+  timeSlot: string;          // "10:00-12:00"
+  status: StandingRequestStatus;
+  lastGeneratedDate: string | null; // 最後に処理した日付 "YYYY-MM-DD"（これ以前の日付は作らない）
+  lastSkipped: { date: string; message: string } | null; // 最後に登録できなかった日付と理由
+}
+
+export type StandingRequestResult =
+  | { ok: true; request: StandingRequest }
+  | { ok: false; message: string };
+
+const NOT_FOUND_MESSAGE = '⚠️ この毎週登録は見つかりませんでした。既に解除された可能性があります。';
+
+function standingRequestId(userId: string, bandId: string, dayOfWeek: number, roomId: string, timeSlot: string): string {
+  return crypto.createHash('sha256')
+    .update([userId, bandId, dayOfWeek, roomId, timeSlot].join('|'))
+    .digest('hex')
+    .slice(0, 20);
+}
+
+/**
+ * Firestoreのドキュメントを StandingRequest に変換する
+ */
+export function standingRequestFromDoc(doc: admin.firestore.DocumentSnapshot): StandingRequest {
+  const data = doc.data()!;
+  return {
+    id: doc.id,
+    userId: data.userId,
+    bandId: data.bandId,
+    bandName: data.bandName,
+    dayOfWeek: data.dayOfWeek,
+    roomId: data.roomId,
+    timeSlot: data.timeSlot,
+    status: data.status === 'paused' ? 'paused' : 'active',
+    lastGeneratedDate: data.lastGeneratedDate || null,
+    lastSkipped: data.lastSkipped || null,
+  };
+}
+
+/**
+ * ユーザーの毎週登録の一覧（曜日・時間帯順）
+ * @param db Firestore instance
+ * @param userId LINEのuserId
+ */
+export async function loadUserStandingRequests(
+  db: admin.firestore.Firestore,
+  userId: string
+): Promise<StandingRequest[]> {
+  const snapshot = await db.collection('standing_requests')
+    .where('userId', '==', userId)
+    .get();
+  return snapshot.docs
+    .map(standingRequestFromDoc)
+    .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.timeSlot.localeCompare(b.timeSlot) || a.bandName.localeCompare(b.bandName));
+}
+
+/**
+ * 予約から毎週登録を作る（同じ内容が既にあれば、停止中なら再開してそれを返す）
+ * @param db Firestore instance
+ * @param userId 毎週登録するユーザー
+ * @param reservation 元にする予約のデータ（bandId・bandName・date・roomId）
+ */
+export async function createStandingRequest(
+  db: admin.firestore.Firestore,
+  userId: string,
+  reservation: admin.firestore.DocumentData
+): Promise<StandingRequestResult & { created?: boolean }> {
+  const [datePart, timeSlot] = (reservation.date as string).split('T');
+  const dayOfWeek = dayOfWeekOf(datePart);
+  const roomId = reservationRoomId(reservation);
+  const ref = db.collection('standing_requests')
+    .doc(standingRequestId(userId, reservation.bandId, dayOfWeek, roomId, timeSlot));
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (snap.exists) {
+      const existing = standingRequestFromDoc(snap);
+      if (existing.status === 'paused') {
+        tx.update(ref, { status: 'active', updatedAt: new Date() });
+      }
+      return { ok: true as const, request: { ...existing, status: 'active' as const }, created: false };
+    }
+
+    const owned = await tx.get(db.collection('standing_requests').where('userId', '==', userId));
+    if (owned.size >= MAX_STANDING_REQUESTS_PER_USER) {
+      return {
+        ok: false as const,
+        message: `⚠️ 毎週登録は1人${MAX_STANDING_REQUESTS_PER_USER}件までです。\n「毎週登録」と送って、不要なものを解除してください。`,
+      };
+    }
+
+    const request: StandingRequest = {
+      id: ref.id,
+      userId,
+      bandId: reservation.bandId,
+      bandName: reservation.bandName,
+      dayOfWeek,
+      roomId,
+      timeSlot,
+      status: 'active',
+      // 元にした予約の日付までは作成済みとして扱う
+      lastGeneratedDate: datePart,
+      lastSkipped: null,
+    };
+    const { id, ...fields } = request;
+    tx.create(ref, { ...fields, createdAt: new Date(), updatedAt: new Date() });
+    return { ok: true as const, request, created: true };
+  });
+}
+
+/**
+ * 毎週登録を一時停止・再開する（本人のみ）
+ */
+export async function setStandingRequestStatus(
+  db: admin.firestore.Firestore,
+  id: string | null | undefined,
+  userId: string,
+  status: StandingRequestStatus
+): Promise<StandingRequestResult> {
+  if (!id) return { ok: false, message: NOT_FOUND_MESSAGE };
+  const ref = db.collection('standing_requests').doc(id);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists || snap.data()!.userId !== userId) {
+      return { ok: false as const, message: NOT_FOUND_MESSAGE };
+    }
+    tx.update(ref, { status, updatedAt: new Date() });
+    return { ok: true as const, request: { ...standingRequestFromDoc(snap), status } };
+  });
+}
+
+/**
+ * 毎週登録を解除する（本人のみ。作成済みの予約は残す）
+ */
+export async function deleteStandingRequest(
+  db: admin.firestore.Firestore,
+  id: string | null | undefined,
+  userId: string
+): Promise<StandingRequestResult> {
+  if (!id) return { ok: false, message: NOT_FOUND_MESSAGE };
+  const ref = db.collection('standing_requests').doc(id);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists || snap.data()!.userId !== userId) {
+      return { ok: false as const, message: NOT_FOUND_MESSAGE };
+    }
+    tx.delete(ref);
+    return { ok: true as const, request: standingRequestFromDoc(snap) };
+  });
+}
+
+/**
+ * 毎週登録の表示（例: "毎週水曜 10:00-12:00"）
+ */
+export function describeStandingRequest(request: StandingRequest): string {
+  return `毎週${weekDayLabel(request.dayOfWeek)}曜 ${request.timeSlot}`;
+}
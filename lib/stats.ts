@@ -0,0 +1,251 @@
+import * as admin from 'firebase-admin';
+import { ExportRecord } from './export';
+import { archiveCollectionName } from './archive';
+import { normalizeBandName } from './bands';
+import { parseResultKey } from './rooms';
+
+// 利用状況と抽選の公平性の集計（/api/stats と LINE の「統計」）
+// 予約の lotteryRank / lotteryTotal / status と、抽選結果（lottery_results）の応募数・定員から計算する
+// 保持期間を過ぎたデータは、data-organize のアーカイブモードで退避したもの（archive_*）も使う
+
+// 期間を指定しない場合の集計日数
+export const DEFAULT_STATS_DAYS = 30;
+// 1回の集計で指定できる期間の上限
+export const MAX_STATS_DAYS = 92;
+
+// 抽選で枠を得たとみなす状態（確定後に辞退した予約も抽選では当選している）
+const WON_STATUSES = ['confirmed', 'released'];
+
+export interface SlotStats {
+  roomId: string;
+  timeSlot: string;
+  draws: number;              // 抽選が行われた回数（応募があった日数）
+  entries: number;            // 応募数の合計
+  maxEntries: number;         // 1回の抽選での最大応募数
+  limitedDraws: number;       // 定員がある抽選の回数
+  oversubscribedDraws: number; // 応募数が定員を超えた抽選の回数
+  demandRatio: number | null; // 定員がある抽選での 応募数 / 定員 の平均（定員がない枠はnull）
+}
+
+export interface BandStats {
+  bandKey: string;
+  bandName: string;          // 最後に抽選された予約のバンド名
+  entries: number;           // 抽選に参加した回数
+  wins: number;              // 当選（確定）した回数
+  winRate: number;           // wins / entries
+  lastPlaces: number;        // 2件以上の応募で最下位だった回数
+  averageRankRatio: number;  // 順位の平均（1位=0、最下位=1、1件のみの抽選は0）
+}
+
+export interface UsageStats {
+  from: string;
+  to: string;
+  lotteryDays: number; // 抽選が行われた日数
+  slots: SlotStats[];
+  bands: BandStats[];
+}
+
+/**
+ * 抽選された予約か（抽選日と予約の日付が一致し、順位が記録されている）
+ */
+export function isDrawnReservation(data: admin.firestore.DocumentData): boolean {
+  return !!data.lotteryRank && !!data.lotteryTotal && data.lotteryDate === (data.date || '').split('T')[0];
+}
+
+/**
+ * 集計でバンドを識別するキー（バンドIDがない古いデータは表記ゆれを吸収したバンド名）
+ */
+function bandKeyOf(data: admin.firestore.DocumentData): string {
+  return data.bandId || `name:${normalizeBandName(data.bandName || '')}`;
+}
+
+/**
+ * バンドごとの抽選成績
+ * @param reservations 予約データ（抽選されていない予約は無視する）
+ */
+export function computeBandStats(reservations: admin.firestore.DocumentData[]): BandStats[] {
+  const drawn = reservations
+    .filter(isDrawnReservation)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const byBand = new Map<string, BandStats & { rankRatioSum: number }>();
+  for (const data of drawn) {
+    const bandKey = bandKeyOf(data);
+    const stats = byBand.get(bandKey) || {
+      bandKey, bandName: '', entries: 0, wins: 0, winRate: 0, lastPlaces: 0, averageRankRatio: 0, rankRatioSum: 0,
+    };
+    stats.bandName = data.bandName || '(バンド名なし)';
+    stats.entries++;
+    if (WON_STATUSES.includes(data.status)) stats.wins++;
+    if (data.lotteryTotal > 1 && data.lotteryRank === data.lotteryTotal) stats.lastPlaces++;
+    stats.rankRatioSum += data.lotteryTotal > 1 ? (data.lotteryRank - 1) / (data.lotteryTotal - 1) : 0;
+    byBand.set(bandKey, stats);
+  }
+
+  return Array.from(byBand.values())
+    .map(({ rankRatioSum, ...stats }) => ({
+      ...stats,
+      winRate: stats.wins / stats.entries,
+      averageRankRatio: rankRatioSum / stats.entries,
+    }))
+    .sort((a, b) => b.entries - a.entries || a.bandName.localeCompare(b.bandName));
+}
+
+/**
+ * 枠（部屋・時間帯）ごとの応募状況
+ * @param lotteryResults 抽選結果（ドキュメントID = 抽選日）
+ */
+export function computeSlotStats(lotteryResults: ExportRecord[]): SlotStats[] {
+  const bySlot = new Map<string, SlotStats & { demandSum: number }>();
+  for (const { data } of lotteryResults) {
+    const results = data.results || {};
+    for (const slotKey of Object.keys(results)) {
+      const slotResult = results[slotKey];
+      const count: number = slotResult.count || 0;
+      if (count === 0) continue;
+
+      const { roomId, timeSlot } = parseResultKey(slotKey, slotResult);
+      const key = `${roomId}@${timeSlot}`;
+      const stats = bySlot.get(key) || {
+        roomId, timeSlot, draws: 0, entries: 0, maxEntries: 0, limitedDraws: 0, oversubscribedDraws: 0, demandRatio: null, demandSum: 0,
+      };
+      stats.draws++;
+      stats.entries += count;
+      stats.maxEntries = Math.max(stats.maxEntries, count);
+      if (typeof slotResult.capacity === 'number' && slotResult.capacity > 0) {
+        stats.limitedDraws++;
+        stats.demandSum += count / slotResult.capacity;
+        if (count > slotResult.capacity) stats.oversubscribedDraws++;
+      }
+      bySlot.set(key, stats);
+    }
+  }
+
+  return Array.from(bySlot.values())
+    .map(({ demandSum, ...stats }) => ({
+      ...stats,
+      demandRatio: stats.limitedDraws > 0 ? demandSum / stats.limitedDraws : null,
+    }))
+    .sort((a, b) => a.roomId.localeCompare(b.roomId) || a.timeSlot.localeCompare(b.timeSlot));
+}
+
+/**
+ * 期間内の利用状況をまとめる
+ * @param from 開始日 "YYYY-MM-DD"
+ * @param to 終了日 "YYYY-MM-DD"（この日を含む）
+ * @param reservations 期間内の予約
+ * @param lotteryResults 期間内の抽選結果
+ */
+export function computeUsageStats(
+  from: string,
+  to: string,
+  reservations: ExportRecord[],
+  lotteryResults: ExportRecord[]
+): UsageStats {
+  return {
+    from,
+    to,
+    lotteryDays: lotteryResults.length,
+    slots: computeSlotStats(lotteryResults),
+    bands: computeBandStats(reservations.map((record) => record.data)),
+  };
+}
+
+/**
+ * バンドの予約（保持中のデータとアーカイブ、予約の日付が from 以降のもの）
+ * @param db Firestore instance
+ * @param bandIds バンドIDの一覧
+ * @param from この日付以降の予約のみ（YYYY-MM-DD、含む）
+ */
+export async function loadBandReservations(
+  db: admin.firestore.Firestore,
+  bandIds: string[],
+  from: string
+): Promise<admin.firestore.DocumentData[]> {
+  const byId = new Map<string, admin.firestore.DocumentData>();
+
+  // "in" クエリは30件までなので分割して取得（日付の絞り込みはインデックス不要にするためクライアント側で行う）
+  for (const collection of [archiveCollectionName('reservations'), 'reservations']) {
+    for (let i = 0; i < bandIds.length; i += 30) {
+      const snapshot = await db.collection(collection)
+        .where('bandId', 'in', bandIds.slice(i, i + 30))
+        .get();
+      snapshot.docs
+        .filter((doc) => (doc.data().date || '') >= `${from}T00:00`)
+        .forEach((doc) => byId.set(doc.id, doc.data()));
+    }
+  }
+
+  return Array.from(byId.values());
+}
+
+/**
+ * 割合の表示（例: 0.4 → "40%"）
+ */
+export function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 集計結果の簡単なHTML表示
+ * @param stats 集計結果
+ * @param roomNames 部屋IDから部屋名
+ */
+export function renderStatsHtml(stats: UsageStats, roomNames: Map<string, string>): string {
+  const table = (header: string[], rows: (string | number)[][]) => [
+    '<table>',
+    `<tr>${header.map((h) => `<th>${escapeHtml(h)}</th>`).join('')}</tr>`,
+    ...rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(String(cell))}</td>`).join('')}</tr>`),
+    '</table>',
+  ].join('\n');
+
+  const slotRows = stats.slots.map((slot) => [
+    roomNames.get(slot.roomId) || slot.roomId,
+    slot.timeSlot,
+    slot.draws,
+    slot.entries,
+    slot.maxEntries,
+    `${slot.oversubscribedDraws} / ${slot.limitedDraws}`,
+    slot.demandRatio === null ? '-' : slot.demandRatio.toFixed(2),
+  ]);
+  const bandRows = stats.bands.map((band) => [
+    band.bandName,
+    band.entries,
+    band.wins,
+    formatPercent(band.winRate),
+    band.lastPlaces,
+    band.averageRankRatio.toFixed(2),
+  ]);
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>部室予約の利用状況 ${escapeHtml(stats.from)}〜${escapeHtml(stats.to)}</title>
+<style>
+body { font-family: sans-serif; margin: 1rem; }
+table { border-collapse: collapse; margin-bottom: 1.5rem; }
+th, td { border: 1px solid #ccc; padding: 0.25rem 0.5rem; text-align: right; }
+th:first-child, td:first-child { text-align: left; }
+</style>
+</head>
+<body>
+<h1>部室予約の利用状況</h1>
+<p>${escapeHtml(stats.from)}〜${escapeHtml(stats.to)}（抽選 ${stats.lotteryDays}日）</p>
+<h2>枠ごとの応募状況</h2>
+${table(['部屋', '時間', '抽選回数', '応募数', '最大応募数', '定員超過', '倍率'], slotRows)}
+<h2>バンドごとの抽選成績</h2>
+${table(['バンド', '応募', '当選', '当選率', '最下位', '平均順位(0=1位,1=最下位)'], bandRows)}
+</body>
+</html>
+`;
+}
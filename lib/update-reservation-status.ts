@@ -1,14 +1,48 @@
 import * as admin from 'firebase-admin';
+import { parseResultKey, reservationRoomId, Room } from './rooms';
+import { TimeSlot } from './settings';
+import { compareRoomSlots } from './slots';
+import { recordReservationEvent } from './reservation-events';
+
+export type SlotStatus = 'confirmed' | 'waitlisted';
+
+/**
+ * 順位順に並べた枠の予約の確定・キャンセル待ち
+ * 定員（capacity）までを confirmed（定員なしは全員）、それ以降を waitlisted にする
+ * メンバーの競合で当選を譲った予約（conflicts）は順位に関わらず waitlisted にし、定員に数えない
+ * @param docIds 順位順の予約ドキュメントID
+ * @param slotData lottery_results/{date}.results[slotKey]
+ */
+export function slotStatuses(docIds: string[], slotData: admin.firestore.DocumentData): Map<string, SlotStatus> {
+  const capacity: number | null = typeof slotData.capacity === 'number' ? slotData.capacity : null;
+  const conflicts = new Set<string>((slotData.conflicts || []).map((loss: any) => loss.docId));
+
+  const statuses = new Map<string, SlotStatus>();
+  let winnerIndex = 0;
+  for (const docId of docIds) {
+    const isWinner = !conflicts.has(docId) && (capacity === null || winnerIndex < capacity);
+    if (!conflicts.has(docId)) winnerIndex++;
+    statuses.set(docId, isWinner ? 'confirmed' : 'waitlisted');
+  }
+  return statuses;
+}
 
 /**
  * 抽選結果をreservationsコレクションに反映する
+ * 各枠の定員（capacity）までを confirmed、それ以降を waitlisted にする
+ * メンバーの競合で当選を譲った予約（results[slotKey].conflicts）は順位に関わらず waitlisted にする
+ * 枠は部屋の表示順 → 時間枠の設定順に反映する（設定から削除された時間枠の結果も反映する）
  * @param targetDateStr 対象日付 (例: "2024-12-20")
  * @param db Firestore instance
+ * @param rooms 部屋一覧（roomsForDate の結果）
+ * @param defaultTimeSlots settings/reservation の時間枠
  * @returns 更新件数
  */
 export async function updateReservationStatus(
   targetDateStr: string,
-  db: admin.firestore.Firestore
+  db: admin.firestore.Firestore,
+  rooms: Room[],
+  defaultTimeSlots: TimeSlot[]
 ): Promise<number> {
   // 1. Firestoreから抽選結果を取得
   const resultDoc = await db.collection('lottery_results').doc(targetDateStr).get();
@@ -29,10 +63,12 @@ export async function updateReservationStatus(
 
   // 2. 抽選結果をreservationsに反映
   let updatedCount = 0;
-  const timeSlots = Object.keys(results);
+  const slots = Object.keys(results)
+    .map((slotKey) => ({ slotKey, ...parseResultKey(slotKey, results[slotKey]) }))
+    .sort(compareRoomSlots(rooms, defaultTimeSlots));
 
-  for (const timeSlot of timeSlots) {
-    const slotData = results[timeSlot];
+  for (const { slotKey, roomId, timeSlot } of slots) {
+    const slotData = results[slotKey];
     const bands: string[] = slotData.order || [];
     
     if (bands.length > 0) {
@@ -43,24 +79,64 @@ export async function updateReservationStatus(
         .where('date', '==', dateTime)
         .get();
       
-      // バンド名でマッチングして更新
-      for (const doc of snapshot.docs) {
-        const docData = doc.data();
-        const bandName = docData.bandName || '';
-        
-        // 抽選結果に含まれているバンドなら確定状態に更新
-        if (bands.includes(bandName) && docData.status !== 'confirmed') {
-          const bandIndex = bands.indexOf(bandName);
-          await db.collection('reservations').doc(doc.id).update({
-            status: 'confirmed',
-            order: bandIndex // 順番も記録
-          });
-          updatedCount++;
+      // 抽選の対象だった予約（entries の docId）を抽選時の順位（lotteryRank）順に並べる
+      // バンド名では照合しない（抽選後の改名や、同名の別予約を取り違えないため）
+      // entries がない古いデータだけ、同じ部屋の予約をバンド名の位置で判定する
+      const entryIds = new Set<string>((slotData.entries || []).map((entry: any) => entry.docId));
+      const rankedDocs = snapshot.docs
+        .filter((doc) => {
+          const docData = doc.data();
+          if (docData.status === 'released') return false;
+          return entryIds.size > 0
+            ? entryIds.has(doc.id)
+            : reservationRoomId(docData) === roomId && bands.includes(docData.bandName || '');
+        })
+        .map((doc) => {
+          const docData = doc.data();
+          const rank = docData.lotteryDate === targetDateStr && docData.lotteryRank
+            ? docData.lotteryRank - 1
+            : bands.indexOf(docData.bandName || '');
+          return { doc, rank };
+        })
+        .sort((a, b) => a.rank - b.rank);
+
+      // 定員（capacity）までは確定、それ以降はキャンセル待ち（定員なしの場合は全員確定）
+      // 抽選後に削除された予約があれば、その分繰り上がる
+      const statuses = slotStatuses(rankedDocs.map(({ doc }) => doc.id), slotData);
+      const conflicts = new Map<string, any>(
+        (slotData.conflicts || []).map((loss: any) => [loss.docId, loss])
+      );
+
+      for (const { doc, rank } of rankedDocs) {
+        const conflict = conflicts.get(doc.id);
+
+        // 既に反映済みの予約はそのまま
+        const before = doc.data();
+        if (before.status !== 'pending') continue;
+
+        const updates: admin.firestore.DocumentData = {
+          status: statuses.get(doc.id),
+          order: rank // 順番も記録
+        };
+        if (conflict) {
+          // LINE通知で理由を伝え、繰り上げ時に競合が続いているか確認するために残す
+          updates.conflictLostTo = { docId: conflict.lostTo.docId, bandName: conflict.lostTo.bandName };
         }
+        const batch = db.batch();
+        batch.update(db.collection('reservations').doc(doc.id), updates);
+        recordReservationEvent(db, batch, {
+          reservationId: doc.id,
+          action: 'status_update',
+          actor: { type: 'system', id: 'notify' },
+          before,
+          after: { ...before, ...updates },
+        });
+        await batch.commit();
+        updatedCount++;
       }
     }
   }
 
-  console.log(`Updated ${updatedCount} reservations to confirmed status for ${targetDateStr}`);
+  console.log(`Updated ${updatedCount} reservations to confirmed/waitlisted status for ${targetDateStr}`);
   return updatedCount;
 }
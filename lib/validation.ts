@@ -0,0 +1,333 @@
+import { LotteryMode, MAX_TIME_SLOTS } from './settings';
+
+// 入力チェックの結果
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const TIME_RANGE_PATTERN = /^([01]\d|2[0-3]):[0-5]\d-([01]\d|2[0-4]):[0-5]\d$/;
+
+export const RESERVATION_STATUSES = ['pending', 'confirmed', 'waitlisted', 'released'];
+
+/**
+ * "YYYY-MM-DD" 形式か
+ */
+export function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value);
+}
+
+/**
+ * "HH:MM-HH:MM" 形式で、開始が終了より前か
+ */
+export function isTimeRange(value: unknown): value is string {
+  if (typeof value !== 'string' || !TIME_RANGE_PATTERN.test(value)) return false;
+  const [start, end] = value.split('-');
+  return start < end;
+}
+
+/**
+ * 予約の date フィールド（"YYYY-MM-DDTHH:MM-HH:MM"）の形式か
+ */
+export function isReservationDateTime(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  const [datePart, timePart] = value.split('T');
+  return isDateString(datePart) && isTimeRange(timePart);
+}
+
+export interface ReservationInput {
+  userId?: string;
+  bandId?: string;
+  bandName?: string;
+  date?: string;
+  roomId?: string;
+  status?: string;
+}
+
+/**
+ * 管理APIからの予約の作成・更新内容をチェックする
+ * bandId の存在確認とバンド名の補完は呼び出し側で行う（作成時は bandId か bandName のどちらかが必須）
+ * @param body リクエストボディ
+ * @param partial trueなら更新（指定された項目のみチェック）、falseなら作成（必須項目あり）
+ */
+export function validateReservationInput(body: any, partial: boolean): ValidationResult<ReservationInput> {
+  const errors: string[] = [];
+  const value: ReservationInput = {};
+
+  if (!body || typeof body !== 'object') {
+    return { ok: false, errors: ['Request body must be a JSON object.'] };
+  }
+
+  const allowed = ['userId', 'bandId', 'bandName', 'date', 'roomId', 'status'];
+  for (const key of Object.keys(body)) {
+    if (!allowed.includes(key)) errors.push(`Unknown field: ${key}`);
+  }
+
+  const required = partial ? [] : ['userId', 'date'];
+  for (const key of required) {
+    if (body[key] === undefined) errors.push(`${key} is required.`);
+  }
+  if (!partial && body.bandId === undefined && body.bandName === undefined) {
+    errors.push('bandId or bandName is required.');
+  }
+
+  if (body.userId !== undefined) {
+    if (typeof body.userId !== 'string' || !body.userId) errors.push('userId must be a non-empty string.');
+    else value.userId = body.userId;
+  }
+  if (body.bandId !== undefined) {
+    if (typeof body.bandId !== 'string' || !body.bandId) errors.push('bandId must be a non-empty string.');
+    else value.bandId = body.bandId;
+  }
+  if (body.bandName !== undefined) {
+    if (typeof body.bandName !== 'string' || !body.bandName.trim()) errors.push('bandName must be a non-empty string.');
+    else value.bandName = body.bandName.trim();
+  }
+  if (body.date !== undefined) {
+    if (!isReservationDateTime(body.date)) errors.push('date must be in YYYY-MM-DDTHH:MM-HH:MM format.');
+    else value.date = body.date;
+  }
+  if (body.roomId !== undefined) {
+    if (typeof body.roomId !== 'string' || !body.roomId) errors.push('roomId must be a non-empty string.');
+    else value.roomId = body.roomId;
+  }
+  if (body.status !== undefined) {
+    if (!RESERVATION_STATUSES.includes(body.status)) errors.push(`status must be one of: ${RESERVATION_STATUSES.join(', ')}`);
+    else value.status = body.status;
+  }
+
+  if (partial && Object.keys(value).length === 0 && errors.length === 0) {
+    errors.push('No fields to update.');
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
+
+/**
+ * 時間枠の一覧（[{ label, value, capacity? }]）をチェックする
+ */
+function validateTimeSlots(timeSlots: any, field: string, errors: string[]): void {
+  if (!Array.isArray(timeSlots) || timeSlots.length === 0) {
+    errors.push(`${field} must be a non-empty array.`);
+    return;
+  }
+  if (timeSlots.length > MAX_TIME_SLOTS) {
+    errors.push(`${field} must have at most ${MAX_TIME_SLOTS} slots.`);
+  }
+  const values = new Set<string>();
+  timeSlots.forEach((slot: any, index: number) => {
+    if (!slot || typeof slot.label !== 'string' || !slot.label || slot.label.length > 20) {
+      errors.push(`${field}[${index}].label must be a string of 1-20 characters.`);
+    }
+    if (!isTimeRange(slot?.value)) {
+      errors.push(`${field}[${index}].value must be in HH:MM-HH:MM format.`);
+    } else if (values.has(slot.value)) {
+      errors.push(`${field}[${index}].value is duplicated: ${slot.value}`);
+    } else {
+      values.add(slot.value);
+    }
+    if (slot?.capacity !== undefined && (!Number.isInteger(slot.capacity) || slot.capacity < 1)) {
+      errors.push(`${field}[${index}].capacity must be a positive integer.`);
+    }
+  });
+}
+
+/**
+ * settings/reservation の更新内容をチェックする
+ * @param body 更新する項目のみを含むオブジェクト
+ */
+export function validateSettingsPatch(body: any): ValidationResult<{ [key: string]: any }> {
+  const errors: string[] = [];
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, errors: ['Request body must be a JSON object.'] };
+  }
+
+  const allowed = ['availableDays', 'timeSlots', 'lotteryMode', 'fairness', 'defaultCapacity', 'reminderMinutes', 'limits', 'schedule', 'closedDates', 'specialOpenings', 'adminUserIds'];
+  for (const key of Object.keys(body)) {
+    if (!allowed.includes(key)) errors.push(`Unknown field: ${key}`);
+  }
+
+  if (body.availableDays !== undefined) {
+    const days = body.availableDays;
+    if (!Array.isArray(days) || days.some((d: any) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      errors.push('availableDays must be an array of integers 0-6 (0 = Sunday).');
+    } else if (new Set(days).size !== days.length) {
+      errors.push('availableDays must not contain duplicates.');
+    }
+  }
+
+  if (body.timeSlots !== undefined) {
+    validateTimeSlots(body.timeSlots, 'timeSlots', errors);
+  }
+
+  if (body.lotteryMode !== undefined && !(['uniform', 'fair'] as LotteryMode[]).includes(body.lotteryMode)) {
+    errors.push('lotteryMode must be "uniform" or "fair".');
+  }
+
+  if (body.fairness !== undefined) {
+    const f = body.fairness;
+    if (!f || typeof f !== 'object') {
+      errors.push('fairness must be an object.');
+    } else {
+      if (f.historyDays !== undefined && (!Number.isInteger(f.historyDays) || f.historyDays < 1)) {
+        errors.push('fairness.historyDays must be a positive integer.');
+      }
+      if (f.historySize !== undefined && (!Number.isInteger(f.historySize) || f.historySize < 1)) {
+        errors.push('fairness.historySize must be a positive integer.');
+      }
+      if (f.weightFactor !== undefined && (typeof f.weightFactor !== 'number' || f.weightFactor < 0)) {
+        errors.push('fairness.weightFactor must be a non-negative number.');
+      }
+    }
+  }
+
+  if (body.defaultCapacity !== undefined && body.defaultCapacity !== null
+    && (!Number.isInteger(body.defaultCapacity) || body.defaultCapacity < 1)) {
+    errors.push('defaultCapacity must be a positive integer or null.');
+  }
+
+  if (body.reminderMinutes !== undefined && (!Number.isInteger(body.reminderMinutes) || body.reminderMinutes < 1)) {
+    errors.push('reminderMinutes must be a positive integer.');
+  }
+
+  if (body.limits !== undefined) {
+    const l = body.limits;
+    if (!l || typeof l !== 'object' || Array.isArray(l)) {
+      errors.push('limits must be an object.');
+    } else {
+      for (const key of Object.keys(l)) {
+        if (!['perUserPerDay', 'perUserPerWeek', 'perBandPerDay', 'perBandPerWeek'].includes(key)) {
+          errors.push(`Unknown field: limits.${key}`);
+        } else if (l[key] !== null && (!Number.isInteger(l[key]) || l[key] < 1)) {
+          errors.push(`limits.${key} must be a positive integer or null.`);
+        }
+      }
+    }
+  }
+
+  if (body.schedule !== undefined) {
+    const sc = body.schedule;
+    if (!sc || typeof sc !== 'object' || Array.isArray(sc)) {
+      errors.push('schedule must be an object.');
+    } else {
+      for (const key of Object.keys(sc)) {
+        if (!['lotteryTime', 'freezeMinutes', 'lotteryDaysAhead', 'registrationDays'].includes(key)) {
+          errors.push(`Unknown field: schedule.${key}`);
+        }
+      }
+      if (sc.lotteryTime !== undefined && (typeof sc.lotteryTime !== 'string' || !TIME_PATTERN.test(sc.lotteryTime))) {
+        errors.push('schedule.lotteryTime must be in HH:MM format.');
+      }
+      if (sc.freezeMinutes !== undefined && (!Number.isInteger(sc.freezeMinutes) || sc.freezeMinutes < 0 || sc.freezeMinutes > 180)) {
+        errors.push('schedule.freezeMinutes must be an integer 0-180.');
+      }
+      if (sc.lotteryDaysAhead !== undefined && (!Number.isInteger(sc.lotteryDaysAhead) || sc.lotteryDaysAhead < 1 || sc.lotteryDaysAhead > 14)) {
+        errors.push('schedule.lotteryDaysAhead must be an integer 1-14.');
+      }
+      if (sc.registrationDays !== undefined && (!Number.isInteger(sc.registrationDays) || sc.registrationDays < 1 || sc.registrationDays > 28)) {
+        errors.push('schedule.registrationDays must be an integer 1-28.');
+      }
+    }
+  }
+
+  // 日付ごとの例外（同じ日付を休室日と臨時開室日の両方に指定することはできない）
+  const overrideDates = new Set<string>();
+  const checkOverrideDate = (date: any, field: string) => {
+    if (!isDateString(date)) {
+      errors.push(`${field}.date must be in YYYY-MM-DD format.`);
+    } else if (overrideDates.has(date)) {
+      errors.push(`${field}.date is duplicated: ${date}`);
+    } else {
+      overrideDates.add(date);
+    }
+  };
+
+  if (body.closedDates !== undefined) {
+    if (!Array.isArray(body.closedDates)) {
+      errors.push('closedDates must be an array.');
+    } else {
+      body.closedDates.forEach((closed: any, index: number) => {
+        checkOverrideDate(closed?.date, `closedDates[${index}]`);
+        if (typeof closed?.reason !== 'string' || !closed.reason.trim() || closed.reason.length > 100) {
+          errors.push(`closedDates[${index}].reason must be a string of 1-100 characters.`);
+        }
+      });
+    }
+  }
+
+  if (body.specialOpenings !== undefined) {
+    if (!Array.isArray(body.specialOpenings)) {
+      errors.push('specialOpenings must be an array.');
+    } else {
+      body.specialOpenings.forEach((opening: any, index: number) => {
+        checkOverrideDate(opening?.date, `specialOpenings[${index}]`);
+        if (opening?.timeSlots !== undefined) {
+          validateTimeSlots(opening.timeSlots, `specialOpenings[${index}].timeSlots`, errors);
+        }
+        if (opening?.reason !== undefined && (typeof opening.reason !== 'string' || opening.reason.length > 100)) {
+          errors.push(`specialOpenings[${index}].reason must be a string of up to 100 characters.`);
+        }
+      });
+    }
+  }
+
+  if (body.adminUserIds !== undefined) {
+    const ids = body.adminUserIds;
+    if (!Array.isArray(ids) || ids.some((id: any) => typeof id !== 'string' || !id)) {
+      errors.push('adminUserIds must be an array of non-empty strings.');
+    } else if (new Set(ids).size !== ids.length) {
+      errors.push('adminUserIds must not contain duplicates.');
+    }
+  }
+
+  if (Object.keys(body).length === 0) {
+    errors.push('No fields to update.');
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: body };
+}
+
+export interface BandPatch {
+  name?: string;
+  memberIds?: string[];
+}
+
+/**
+ * 管理APIからのバンドの更新内容をチェックする
+ * バンド名は表記の修正（大文字・小文字、空白など）のみ可能で、別の名前への変更は呼び出し側で拒否する
+ */
+export function validateBandPatch(body: any): ValidationResult<BandPatch> {
+  const errors: string[] = [];
+  const value: BandPatch = {};
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, errors: ['Request body must be a JSON object.'] };
+  }
+
+  for (const key of Object.keys(body)) {
+    if (!['name', 'memberIds'].includes(key)) errors.push(`Unknown field: ${key}`);
+  }
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) errors.push('name must be a non-empty string.');
+    else value.name = body.name.trim();
+  }
+  if (body.memberIds !== undefined) {
+    const ids = body.memberIds;
+    if (!Array.isArray(ids) || ids.some((id: any) => typeof id !== 'string' || !id)) {
+      errors.push('memberIds must be an array of non-empty strings.');
+    } else if (new Set(ids).size !== ids.length) {
+      errors.push('memberIds must not contain duplicates.');
+    } else {
+      value.memberIds = ids;
+    }
+  }
+
+  if (Object.keys(value).length === 0 && errors.length === 0) {
+    errors.push('No fields to update.');
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
@@ -0,0 +1,80 @@
+import * as admin from 'firebase-admin';
+import { reservationRoomId } from './rooms';
+import { recordReservationEvent } from './reservation-events';
+
+export interface PromotedReservation {
+  docId: string;
+  userId: string;
+  bandName: string;
+  date: string; // "2024-12-20T10:00-12:00"
+}
+
+/**
+ * 確定枠が空いたときに、同じ部屋・時間帯のキャンセル待ちのうち最上位の予約を確定にする
+ * メンバーの競合で当選を譲った予約は、相手の予約がまだ確定している間は繰り上げない
+ * @param db Firestore instance
+ * @param dateTime 空いた枠の日時 (例: "2024-12-20T10:00-12:00")
+ * @param roomId 空いた枠の部屋ID
+ * @returns 繰り上がった予約（キャンセル待ちがいない場合はnull）
+ */
+export async function promoteNextWaitlisted(
+  db: admin.firestore.Firestore,
+  dateTime: string,
+  roomId: string
+): Promise<PromotedReservation | null> {
+  const query = db.collection('reservations').where('date', '==', dateTime);
+
+  return db.runTransaction(async (tx) => {
+    const snapshot = await tx.get(query);
+
+    const waitlisted = snapshot.docs
+      .filter((doc) => {
+        const data = doc.data();
+        return data.status === 'waitlisted' && reservationRoomId(data) === roomId;
+      })
+      .sort((a, b) => (a.data().lotteryRank ?? 999) - (b.data().lotteryRank ?? 999));
+
+    let next: admin.firestore.QueryDocumentSnapshot | undefined;
+    for (const doc of waitlisted) {
+      const lostTo = doc.data().conflictLostTo;
+      if (lostTo?.docId) {
+        const rival = await tx.get(db.collection('reservations').doc(lostTo.docId));
+        if (rival.exists && rival.data()!.status === 'confirmed') continue;
+      }
+      next = doc;
+      break;
+    }
+
+    if (!next) return null;
+
+    const data = next.data();
+    const updates = {
+      status: 'confirmed',
+      promotedAt: new Date(),
+    };
+    tx.update(next.ref, updates);
+    recordReservationEvent(db, tx, {
+      reservationId: next.id,
+      action: 'waitlist_promote',
+      actor: { type: 'system', id: 'waitlist' },
+      before: data,
+      after: { ...data, ...updates },
+    });
+
+    return {
+      docId: next.id,
+      userId: data.userId,
+      bandName: data.bandName || '(バンド名なし)',
+      date: data.date,
+    };
+  });
+}
+
+/**
+ * 繰り上げ確定を知らせるLINEメッセージの本文
+ */
+export function promotionMessage(promoted: PromotedReservation): string {
+  const [datePart, timePart] = promoted.date.split('T');
+  const displayDate = datePart.replace(/-/g, '/').slice(5);
+  return `🎉 キャンセルが出たため、繰り上げで確定しました！\n\nバンド名: ${promoted.bandName}\n日時: ${displayDate} ${timePart}`;
+}
@@ -0,0 +1,48 @@
+import * as admin from 'firebase-admin';
+import * as line from '@line/bot-sdk';
+
+// webhook_events コレクション（ドキュメントID: webhookEventId）
+// LINEはタイムアウトなどでイベントを再送することがあるため、処理済みのイベントを記録して二重に処理しないようにする
+// 記録は data-organize で7日後に削除される
+
+/**
+ * 再送されたイベント（同じwebhookEventId）は一度だけ処理する
+ * @param db Firestore instance
+ * @param event Webhookイベント
+ * @param handle イベントの処理
+ * @returns 処理結果（処理済みのイベントはnull）
+ */
+export async function handleEventOnce<T>(
+  db: admin.firestore.Firestore,
+  event: line.WebhookEvent,
+  handle: (event: line.WebhookEvent) => Promise<T>
+): Promise<T | null> {
+  const eventId = event.webhookEventId;
+  if (!eventId) {
+    return handle(event);
+  }
+
+  const eventRef = db.collection('webhook_events').doc(eventId);
+  try {
+    // create()は既に存在する場合に失敗するため、処理済みの判定をアトミックに行える
+    await eventRef.create({
+      type: event.type,
+      isRedelivery: event.deliveryContext?.isRedelivery ?? false,
+      receivedAt: new Date(),
+    });
+  } catch (err: any) {
+    if (err.code === 6) { // ALREADY_EXISTS
+      console.log(`Skipping duplicate webhook event: ${eventId}`);
+      return null;
+    }
+    throw err;
+  }
+
+  try {
+    return await handle(event);
+  } catch (err) {
+    // 処理に失敗した場合は記録を消して、再送時に再処理できるようにする
+    await eventRef.delete().catch(() => undefined);
+    throw err;
+  }
+}
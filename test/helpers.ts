@@ -0,0 +1,38 @@
+import * as crypto from 'crypto';
+
+// テスト共通の準備（api/* のハンドラーを Firestore・LINE API に接続せずに呼ぶ）
+
+export const CHANNEL_SECRET = 'test-channel-secret';
+
+/**
+ * api/* は読み込み時にFirebaseとLINEのクライアントを初期化するため、テスト用の環境変数を設定する
+ * 初期化だけでは通信しない。require でハンドラーを読み込む前に呼ぶ
+ */
+export function setTestEnv(): void {
+  const { privateKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+  process.env.FIREBASE_PROJECT_ID = 'test-project';
+  process.env.FIREBASE_CLIENT_EMAIL = 'test@test-project.iam.gserviceaccount.com';
+  process.env.FIREBASE_PRIVATE_KEY = privateKey;
+  process.env.LINE_CHANNEL_ACCESS_TOKEN = 'test-access-token';
+  process.env.LINE_CHANNEL_SECRET = CHANNEL_SECRET;
+}
+
+/**
+ * status・json を記録するレスポンス
+ */
+export function response() {
+  const res: any = { statusCode: 0, body: undefined };
+  res.status = (code: number) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.json = (body: unknown) => {
+    res.body = body;
+    return res;
+  };
+  return res;
+}
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  createSeededRandom,
+  weightedOrder,
+  drawSlotOrder,
+  computeFairnessWeight,
+  drawnOrderOf,
+  LotteryInputEntry,
+  LotteryHistoryRecord,
+} from '../lib/lottery-draw';
+
+// lib/lottery-draw の抽選が再現できること（同じ入力からは誰が計算しても同じ順位になる）
+
+const SLOT_KEY = '10:00-12:00';
+
+const entries: LotteryInputEntry[] = ['a', 'b', 'c', 'd', 'e'].map((id) => ({
+  docId: `res-${id}`,
+  bandName: `バンド${id.toUpperCase()}`,
+  weight: 1,
+}));
+
+const fairness = { historyDays: 90, historySize: 3, weightFactor: 2 };
+
+test('同じシードからは同じ乱数列になる', () => {
+  const first = createSeededRandom('test-seed');
+  const second = createSeededRandom('test-seed');
+  const other = createSeededRandom('other-seed');
+
+  const values = Array.from({ length: 20 }, () => first());
+  assert.deepEqual(Array.from({ length: 20 }, () => second()), values);
+  assert.notDeepEqual(Array.from({ length: 20 }, () => other()), values);
+  assert.ok(values.every((value) => value >= 0 && value < 1));
+});
+
+test('固定したシードの順位は変わらない（アルゴリズムを変えたら LOTTERY_ALGORITHM_VERSION も上げる）', () => {
+  const order = drawSlotOrder(entries, 'test-seed', SLOT_KEY).map((entry) => entry.docId);
+  assert.deepEqual(order, ['res-e', 'res-a', 'res-b', 'res-c', 'res-d']);
+});
+
+test('枠が違えば同じシードでも別の乱数で順位を決める', () => {
+  const orders = new Set(
+    ['10:00-12:00', '12:00-14:00', '14:00-16:00', '16:00-18:00'].map((slotKey) =>
+      drawSlotOrder(entries, 'test-seed', slotKey).map((entry) => entry.docId).join(',')
+    )
+  );
+  assert.ok(orders.size > 1);
+});
+
+test('順位は入力の並び順に依存しない', () => {
+  const expected = drawSlotOrder(entries, 'test-seed', SLOT_KEY);
+  const reversed = drawSlotOrder([...entries].reverse(), 'test-seed', SLOT_KEY);
+  const rotated = drawSlotOrder([...entries.slice(2), ...entries.slice(0, 2)], 'test-seed', SLOT_KEY);
+
+  assert.deepEqual(reversed, expected);
+  assert.deepEqual(rotated, expected);
+});
+
+test('重みが大きいほど上位になりやすい', () => {
+  // 重み3と1の2件なら、重み3が1位になる確率は 3/4
+  const weighted = [
+    { id: 'heavy', weight: 3 },
+    { id: 'light', weight: 1 },
+  ];
+  let heavyFirst = 0;
+  for (let i = 0; i < 2000; i++) {
+    if (weightedOrder(weighted, createSeededRandom(`sample-${i}`))[0].id === 'heavy') heavyFirst++;
+  }
+  assert.ok(heavyFirst > 1400 && heavyFirst < 1600, `heavy was first ${heavyFirst} times out of 2000`);
+});
+
+test('公平性の重みは過去の順位が低いほど大きい', () => {
+  const record = (date: string, rank: number, total: number): LotteryHistoryRecord => ({ date, rank, total });
+
+  assert.equal(computeFairnessWeight([], fairness), 1);
+  assert.equal(computeFairnessWeight([record('2024-12-01', 1, 4), record('2024-12-02', 1, 3)], fairness), 1);
+  assert.equal(computeFairnessWeight([record('2024-12-01', 4, 4), record('2024-12-02', 3, 3)], fairness), 3);
+  // 応募が1件の枠は負けていないものとして数える
+  assert.equal(computeFairnessWeight([record('2024-12-01', 1, 1), record('2024-12-02', 3, 3)], fairness), 2);
+});
+
+test('公平性の重みは直近 historySize 回だけで計算する', () => {
+  const records: LotteryHistoryRecord[] = [
+    { date: '2024-12-01', rank: 1, total: 2 }, // 古いため使わない
+    { date: '2024-12-04', rank: 2, total: 2 },
+    { date: '2024-12-03', rank: 2, total: 2 },
+    { date: '2024-12-02', rank: 2, total: 2 },
+  ];
+  assert.equal(computeFairnessWeight(records, fairness), 3);
+  assert.equal(computeFairnessWeight(records, { ...fairness, weightFactor: 0 }), 1);
+});
+
+test('元の順位は手動変更 → 譲渡・辞退 → 現在の順位の順に探す', () => {
+  assert.deepEqual(drawnOrderOf({ order: ['A', 'B'] }), ['A', 'B']);
+  assert.deepEqual(drawnOrderOf({ order: ['B'], drawnOrder: ['A', 'B'] }), ['A', 'B']);
+  assert.deepEqual(
+    drawnOrderOf({ order: ['B', 'A'], drawnOrder: ['C', 'A'], manualOverride: { drawnOrder: ['A', 'B'] } }),
+    ['A', 'B']
+  );
+  assert.deepEqual(drawnOrderOf({}), []);
+});
@@ -0,0 +1,103 @@
+import { test, before } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as admin from 'firebase-admin';
+import { drawSlotOrder, LotteryInputEntry } from '../lib/lottery-draw';
+import { hashSeed, LOTTERY_ALGORITHM_VERSION } from '../lib/lottery-seed';
+import { setTestEnv, response } from './helpers';
+
+// /api/lottery-verify が保存された入力から順位を再計算し、保存された結果と照合すること
+// Firestore には接続せず、db.collection を差し替えて lottery_results を返す
+
+const DATE = '2024-12-20';
+const SEED = 'verify-test-seed';
+
+const slotEntries: { [slotKey: string]: LotteryInputEntry[] } = {
+  '10:00-12:00': [
+    { docId: 'res-a', bandName: 'バンドA', weight: 1 },
+    { docId: 'res-b', bandName: 'バンドB', weight: 2 },
+    { docId: 'res-c', bandName: 'バンドC', weight: 1.5 },
+  ],
+  '12:00-14:00': [
+    { docId: 'res-d', bandName: 'バンドD', weight: 1 },
+    { docId: 'res-e', bandName: 'バンドE', weight: 1 },
+  ],
+};
+
+// api/lottery.ts と同じ形で保存された抽選結果
+function storedResult(): admin.firestore.DocumentData {
+  const results: { [slotKey: string]: any } = {};
+  for (const [slotKey, entries] of Object.entries(slotEntries)) {
+    results[slotKey] = {
+      order: drawSlotOrder(entries, SEED, slotKey).map((entry) => entry.bandName),
+      entries,
+      capacity: null,
+      conflicts: [],
+    };
+  }
+  return {
+    seed: SEED,
+    seedHash: hashSeed(SEED),
+    algorithmVersion: LOTTERY_ALGORITHM_VERSION,
+    lotteryMode: 'weighted',
+    results,
+  };
+}
+
+let stored: admin.firestore.DocumentData | undefined;
+let handler: (req: any, res: any) => Promise<unknown>;
+
+before(() => {
+  setTestEnv();
+  handler = require('../api/lottery-verify').default;
+
+  (admin.firestore() as any).collection = (name: string) => ({
+    doc: (id: string) => ({
+      get: async () => {
+        const data = name === 'lottery_results' && id === DATE ? stored : undefined;
+        return { exists: data !== undefined, data: () => data };
+      },
+    }),
+  });
+});
+
+async function verify() {
+  const res = response();
+  await handler({ query: { date: DATE } }, res);
+  return res;
+}
+
+test('保存された結果は再計算した順位と一致する', async () => {
+  stored = storedResult();
+  const res = await verify();
+
+  assert.equal(res.statusCode, 200);
+  assert.equal(res.body.status, 'verified');
+  assert.equal(res.body.seedHashMatches, true);
+  assert.ok(res.body.slots.every((slot: any) => slot.matches));
+});
+
+test('保存された順位を書き換えると mismatch になる', async () => {
+  stored = storedResult();
+  stored.results['10:00-12:00'].order.reverse();
+  const res = await verify();
+
+  assert.equal(res.body.status, 'mismatch');
+  const slot = res.body.slots.find((s: any) => s.slotKey === '10:00-12:00');
+  assert.equal(slot.matches, false);
+  assert.equal(res.body.slots.find((s: any) => s.slotKey === '12:00-14:00').matches, true);
+});
+
+test('シードが公開されたハッシュと一致しなければ mismatch になる', async () => {
+  stored = { ...storedResult(), seedHash: hashSeed('another-seed') };
+  const res = await verify();
+
+  assert.equal(res.body.status, 'mismatch');
+  assert.equal(res.body.seedHashMatches, false);
+});
+
+test('抽選結果がない日は 404 を返す', async () => {
+  stored = undefined;
+  const res = await verify();
+
+  assert.equal(res.statusCode, 404);
+});
@@ -0,0 +1,134 @@
+import { test, before, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import { Readable } from 'stream';
+import * as admin from 'firebase-admin';
+import * as line from '@line/bot-sdk';
+import { CHANNEL_SECRET, setTestEnv, response } from './helpers';
+
+// /api/webhook の署名検証と、再送されたイベントの重複処理の防止
+// Firestore と LINE API には接続せず、db.collection と Client#replyMessage を差し替えて確認する
+
+// テスト用のFirestore（webhook_events の create の重複エラーと states の書き込みだけ再現する）
+const docs = new Map<string, admin.firestore.DocumentData>();
+function fakeCollection(name: string) {
+  return {
+    doc: (id: string) => {
+      const path = `${name}/${id}`;
+      return {
+        create: async (data: admin.firestore.DocumentData) => {
+          if (docs.has(path)) {
+            throw Object.assign(new Error('ALREADY_EXISTS'), { code: 6 });
+          }
+          docs.set(path, data);
+        },
+        set: async (data: admin.firestore.DocumentData) => {
+          docs.set(path, { ...docs.get(path), ...data });
+        },
+        get: async () => ({ exists: docs.has(path), data: () => docs.get(path) }),
+        delete: async () => {
+          docs.delete(path);
+        },
+      };
+    },
+  };
+}
+
+const replies: string[] = [];
+let handler: (req: any, res: any) => Promise<unknown>;
+
+before(() => {
+  setTestEnv();
+  handler = require('../api/webhook').default;
+
+  (admin.firestore() as any).collection = fakeCollection;
+  line.Client.prototype.replyMessage = async function (replyToken: string) {
+    replies.push(replyToken);
+    return {} as any;
+  };
+});
+
+beforeEach(() => {
+  docs.clear();
+  replies.length = 0;
+});
+
+function sign(body: string): string {
+  return crypto.createHmac('SHA256', CHANNEL_SECRET).update(body).digest('base64');
+}
+
+// 生ボディを読み取れるリクエスト
+function request(body: string, headers: { [key: string]: string }) {
+  return Object.assign(Readable.from([Buffer.from(body)]), { method: 'POST', headers });
+}
+
+// 「キャンセル」のテキストメッセージ（状態を消してから返信する）
+function cancelEventBody(webhookEventId: string, isRedelivery = false): string {
+  return JSON.stringify({
+    destination: 'Uxxxxxxxx',
+    events: [{
+      type: 'message',
+      mode: 'active',
+      timestamp: 1700000000000,
+      webhookEventId,
+      deliveryContext: { isRedelivery },
+      replyToken: `reply-${webhookEventId}-${isRedelivery}`,
+      source: { type: 'user', userId: 'U0001' },
+      message: { type: 'text', id: '1', quoteToken: 'q', text: 'キャンセル' },
+    }],
+  });
+}
+
+test('正しく署名された生ボディは受け付けて処理する', async () => {
+  const body = cancelEventBody('01EVENT');
+  const res = response();
+  await handler(request(body, { 'x-line-signature': sign(body) }), res);
+
+  assert.equal(res.statusCode, 200);
+  assert.equal(res.body.status, 'success');
+  assert.deepEqual(replies, ['reply-01EVENT-false']);
+});
+
+test('ボディを改ざんしたリクエストは401', async () => {
+  const body = cancelEventBody('01EVENT');
+  const tampered = body.replace('U0001', 'U9999');
+  const res = response();
+  await handler(request(tampered, { 'x-line-signature': sign(body) }), res);
+
+  assert.equal(res.statusCode, 401);
+  assert.deepEqual(replies, []);
+});
+
+test('署名を改ざんしたリクエストは401', async () => {
+  const body = cancelEventBody('01EVENT');
+  const res = response();
+  await handler(request(body, { 'x-line-signature': sign(body + ' ') }), res);
+
+  assert.equal(res.statusCode, 401);
+  assert.deepEqual(replies, []);
+});
+
+test('x-line-signature がないリクエストは401', async () => {
+  const body = cancelEventBody('01EVENT');
+  const res = response();
+  await handler(request(body, {}), res);
+
+  assert.equal(res.statusCode, 401);
+  assert.deepEqual(replies, []);
+});
+
+test('同じ webhookEventId の再送は一度だけ処理する', async () => {
+  const first = cancelEventBody('01EVENT');
+  const redelivered = cancelEventBody('01EVENT', true);
+
+  const res1 = response();
+  await handler(request(first, { 'x-line-signature': sign(first) }), res1);
+  const res2 = response();
+  await handler(request(redelivered, { 'x-line-signature': sign(redelivered) }), res2);
+
+  assert.equal(res1.statusCode, 200);
+  assert.equal(res2.statusCode, 200);
+  assert.deepEqual(res2.body.results, [null]);
+  assert.deepEqual(replies, ['reply-01EVENT-false']);
+  assert.ok(docs.has('webhook_events/01EVENT'));
+});